@@ -7,17 +7,33 @@ import ImageUpscaler from './components/ImageUpscaler';
 import Conversation from './components/Conversation';
 import ImageSizer from './components/ImageSizer';
 import ImageEffects from './components/ImageEffects';
+import BackgroundRemover from './components/BackgroundRemover';
+import TextOverlay from './components/TextOverlay';
 import ImageReferenceGenerator from './components/ImageReferenceGenerator';
 import VirtualTryOn from './components/VirtualTryOn';
 import FaceSwap from './components/FaceSwap';
 import PromptExtractor from './components/PromptExtractor';
+import CacheBrowser from './components/CacheBrowser';
+import UsageDashboard from './components/UsageDashboard';
+import ModelSettings from './components/ModelSettings';
+import QueuePanel, { QueueButton } from './components/QueuePanel';
+import ExportDialog from './components/ExportDialog';
 import { translations, Language } from './translations';
+import { getActiveProviderId, setActiveProviderId, PROVIDER_IDS, ProviderId } from './services/aiProvider';
+import { setBudgetPrompt } from './services/usage';
+import { formatUsd } from './services/pricing';
+import { getProxyToken, isProxyMode, setProxyToken } from './services/proxyClient';
 
-type Tab = 'imageEditor' | 'tts' | 'transcriber' | 'upscaler' | 'conversation' | 'imageSizer' | 'imageEffects' | 'imageReference' | 'virtualTryOn' | 'faceSwap' | 'promptExtractor';
+type Tab = 'imageEditor' | 'tts' | 'transcriber' | 'upscaler' | 'conversation' | 'imageSizer' | 'imageEffects' | 'backgroundRemover' | 'textOverlay' | 'imageReference' | 'virtualTryOn' | 'faceSwap' | 'promptExtractor' | 'usage';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('faceSwap');
   const [lang, setLang] = useState<Language>('fa');
+  const [providerId, setProviderId] = useState<ProviderId>(getActiveProviderId());
+  const [proxyToken, setProxyTokenState] = useState(getProxyToken);
+  const [showCache, setShowCache] = useState(false);
+  const [showModels, setShowModels] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
 
   const t = translations[lang];
 
@@ -26,23 +42,48 @@ const App: React.FC = () => {
     document.documentElement.lang = lang;
   }, [lang, t.dir]);
 
+  // Requests over a soft budget limit ask before spending more.
+  useEffect(() => {
+    setBudgetPrompt(warnings => window.confirm(warnings.map(w =>
+      (w.spentUsd >= w.limitUsd ? t.usage.confirmOver : t.usage.confirmNear)
+        .replace('{cost}', formatUsd(w.requestUsd))
+        .replace('{spent}', formatUsd(w.spentUsd))
+        .replace('{period}', t.usage[w.period])
+        .replace('{limit}', formatUsd(w.limitUsd))
+    ).join('\n')));
+    return () => setBudgetPrompt(null);
+  }, [t]);
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'tts': return <TTS />;
       case 'transcriber': return <AudioTranscriber />;
-      case 'upscaler': return <ImageUpscaler />;
+      case 'upscaler': return <ImageUpscaler lang={lang} />;
       case 'imageSizer': return <ImageSizer lang={lang} />;
       case 'promptExtractor': return <PromptExtractor lang={lang} />;
       case 'conversation': return <Conversation />;
-      case 'imageEffects': return <ImageEffects />;
-      case 'imageReference': return <ImageReferenceGenerator />;
-      case 'virtualTryOn': return <VirtualTryOn />;
+      case 'imageEffects': return <ImageEffects lang={lang} />;
+      case 'backgroundRemover': return <BackgroundRemover lang={lang} />;
+      case 'textOverlay': return <TextOverlay lang={lang} />;
+      case 'imageReference': return <ImageReferenceGenerator lang={lang} />;
+      case 'virtualTryOn': return <VirtualTryOn lang={lang} />;
       case 'faceSwap': return <FaceSwap lang={lang} />;
+      case 'usage': return <UsageDashboard lang={lang} />;
       case 'imageEditor':
-      default: return <ImageEditor />;
+      default: return <ImageEditor lang={lang} />;
     }
   };
 
+  const handleProviderChange = (id: ProviderId) => {
+    setActiveProviderId(id);
+    setProviderId(id);
+  };
+
+  const handleProxyTokenChange = (token: string) => {
+    setProxyToken(token);
+    setProxyTokenState(token);
+  };
+
   const getTabClass = (tab: Tab) => {
     return activeTab === tab
       ? 'bg-blue-600 text-white shadow-lg scale-105'
@@ -66,12 +107,65 @@ const App: React.FC = () => {
              ))}
           </div>
 
+          {/* AI Backend Switcher */}
+          <div className="absolute top-0 left-0 flex items-center gap-2">
+            <label htmlFor="provider-select" className="text-xs font-bold text-gray-500">{t.provider.label}</label>
+            {isProxyMode() ? (
+              <>
+                <span className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs font-bold text-gray-300">{t.provider.proxy}</span>
+                <input
+                  id="provider-select"
+                  type="password"
+                  value={proxyToken}
+                  onChange={(e) => handleProxyTokenChange(e.target.value)}
+                  placeholder={t.provider.tokenPlaceholder}
+                  dir="ltr"
+                  className="w-36 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-gray-300"
+                />
+              </>
+            ) : (
+              <select
+                id="provider-select"
+                value={providerId}
+                onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs font-bold text-gray-300"
+              >
+                {PROVIDER_IDS.map((id) => (
+                  <option key={id} value={id}>{t.provider[id]}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => setShowCache(true)}
+              className="px-3 py-1 bg-gray-800 border border-gray-700 rounded text-xs font-bold text-gray-300 hover:bg-gray-700"
+            >
+              {t.cache.button}
+            </button>
+            <button
+              onClick={() => setShowModels(true)}
+              className="px-3 py-1 bg-gray-800 border border-gray-700 rounded text-xs font-bold text-gray-300 hover:bg-gray-700"
+            >
+              {t.models.button}
+            </button>
+            <QueueButton label={t.queue.button} onClick={() => setShowQueue(true)} />
+          </div>
+
           <h1 className="text-5xl sm:text-6xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-lime-400">
             {t.title}
           </h1>
           <p className="mt-4 max-w-2xl text-center text-lg text-gray-400 leading-relaxed">
             {t.subtitle}
           </p>
+          {isProxyMode() && !proxyToken.trim() && (
+            <p className="mt-4 px-4 py-2 text-sm text-amber-300 bg-amber-900/30 border border-amber-500/30 rounded-full">
+              {t.provider.tokenMissing}
+            </p>
+          )}
+          {!isProxyMode() && providerId === 'mock' && (
+            <p className="mt-4 px-4 py-2 text-sm text-amber-300 bg-amber-900/30 border border-amber-500/30 rounded-full">
+              {t.provider.mockNotice}
+            </p>
+          )}
         </header>
 
         <nav className="mb-12 flex justify-center flex-wrap gap-3 sm:gap-4 border-b border-gray-800 pb-6">
@@ -96,6 +190,12 @@ const App: React.FC = () => {
           <button onClick={() => setActiveTab('imageEffects')} className={`px-5 py-2.5 text-sm font-semibold rounded-full transition-all duration-300 ${getTabClass('imageEffects')}`}>
             {t.tabs.effects}
           </button>
+          <button onClick={() => setActiveTab('backgroundRemover')} className={`px-5 py-2.5 text-sm font-semibold rounded-full transition-all duration-300 ${getTabClass('backgroundRemover')}`}>
+            {t.tabs.background}
+          </button>
+          <button onClick={() => setActiveTab('textOverlay')} className={`px-5 py-2.5 text-sm font-semibold rounded-full transition-all duration-300 ${getTabClass('textOverlay')}`}>
+            {t.tabs.overlay}
+          </button>
           <button onClick={() => setActiveTab('upscaler')} className={`px-5 py-2.5 text-sm font-semibold rounded-full transition-all duration-300 ${getTabClass('upscaler')}`}>
             {t.tabs.upscaler}
           </button>
@@ -108,12 +208,19 @@ const App: React.FC = () => {
           <button onClick={() => setActiveTab('transcriber')} className={`px-5 py-2.5 text-sm font-semibold rounded-full transition-all duration-300 ${getTabClass('transcriber')}`}>
             {t.tabs.transcriber}
           </button>
+          <button onClick={() => setActiveTab('usage')} className={`px-5 py-2.5 text-sm font-semibold rounded-full transition-all duration-300 ${getTabClass('usage')}`}>
+            {t.tabs.usage}
+          </button>
         </nav>
 
         <section className="bg-gray-800/20 backdrop-blur-sm rounded-3xl p-2 sm:p-6 border border-gray-800 shadow-2xl">
           {renderTabContent()}
         </section>
       </main>
+      {showCache && <CacheBrowser lang={lang} onClose={() => setShowCache(false)} />}
+      {showModels && <ModelSettings lang={lang} onClose={() => setShowModels(false)} />}
+      {showQueue && <QueuePanel lang={lang} onClose={() => setShowQueue(false)} />}
+      <ExportDialog lang={lang} />
     </div>
   );
 };
@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Installed as `hazhar` by `npm link`; run `npm run build:cli` first.
+import '../dist-cli/index.js';
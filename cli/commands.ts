@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import type { ImageFile } from '../types';
+import { editImage, extractPromptFromImage, generateSpeech, RequestOptions, upscaleImage } from '../services/geminiService';
+import { getDataUrlMimeType } from '../utils/imageFile';
+import { pcmToWav } from '../utils/wav';
+
+// The batch commands. Each takes one input file and returns the bytes to write; the runner
+// in cli/index.ts handles file discovery, concurrency, the manifest and resume.
+
+export interface CommandFlags {
+  prompt?: string;
+  voice?: string;
+  language?: string;
+}
+
+export interface CommandOutput {
+  data: Uint8Array | string;
+  extension: string;
+}
+
+export interface CommandSpec {
+  summary: string;
+  usage: string;
+  // Input files picked up from directories, lower case with the dot.
+  extensions: string[];
+  // The flags that change the result; recorded in the manifest fingerprint.
+  params: (flags: CommandFlags) => Record<string, unknown>;
+  // Returns an error message when a required flag is missing.
+  validate?: (flags: CommandFlags) => string | null;
+  run: (file: string, flags: CommandFlags, options: RequestOptions) => Promise<CommandOutput>;
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+};
+
+const readImage = (file: string): ImageFile => {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(file).toLowerCase()];
+  return {
+    base64: `data:${mimeType};base64,${fs.readFileSync(file).toString('base64')}`,
+    mimeType,
+    name: path.basename(file),
+  };
+};
+
+const imageOutput = (dataUrl: string): CommandOutput => ({
+  data: Buffer.from(dataUrl.split(',')[1], 'base64'),
+  extension: EXTENSION_BY_MIME[getDataUrlMimeType(dataUrl)] || '.png',
+});
+
+export const COMMANDS: Record<string, CommandSpec> = {
+  edit: {
+    summary: 'Apply the same edit prompt to every image',
+    usage: 'edit --prompt "make it a watercolor" <images or dirs...>',
+    extensions: Object.keys(IMAGE_MIME_TYPES),
+    params: ({ prompt }) => ({ prompt }),
+    validate: ({ prompt }) => (prompt?.trim() ? null : '--prompt is required.'),
+    run: async (file, { prompt }, options) => imageOutput(await editImage(readImage(file), prompt!, options)),
+  },
+  upscale: {
+    summary: 'Upscale every image',
+    usage: 'upscale <images or dirs...>',
+    extensions: Object.keys(IMAGE_MIME_TYPES),
+    params: () => ({}),
+    run: async (file, _flags, options) => imageOutput(await upscaleImage(readImage(file), options)),
+  },
+  tts: {
+    summary: 'Read every text file aloud into a WAV file',
+    usage: 'tts --voice Kore [--language English] <text files or dirs...>',
+    extensions: ['.txt', '.md'],
+    params: ({ voice = 'Kore', language = 'Auto' }) => ({ voice, language }),
+    run: async (file, { voice = 'Kore', language }, options) => {
+      const text = fs.readFileSync(file, 'utf8').trim();
+      if (!text) throw new Error('The file is empty.');
+      const audio = await generateSpeech(text, voice, language, options);
+      return { data: new Uint8Array(pcmToWav(Buffer.from(audio, 'base64'))), extension: '.wav' };
+    },
+  },
+  extract: {
+    summary: 'Write a detailed generation prompt for every image',
+    usage: 'extract <images or dirs...>',
+    extensions: Object.keys(IMAGE_MIME_TYPES),
+    params: () => ({}),
+    run: async (file, _flags, options) => ({ data: await extractPromptFromImage(readImage(file), options), extension: '.txt' }),
+  },
+};
@@ -0,0 +1,215 @@
+import '../server/env';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { PROVIDER_IDS, ProviderId, getActiveProviderId, setActiveProviderId } from '../services/aiProvider';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { DEFAULT_QUEUE_LIMITS, setQueueLimits } from '../services/requestQueue';
+import { getUsage, sumUsage } from '../services/usage';
+import { formatUsd } from '../services/pricing';
+import { stripExtension } from '../utils/imageFile';
+import { COMMANDS, CommandFlags } from './commands';
+import { fingerprintOf, isComplete, loadManifest, MANIFEST_NAME, saveManifest } from './manifest';
+
+// Headless batch runner over the geminiService functions, e.g.
+//   hazhar edit --prompt "make it a watercolor" photos/
+// Results go to --out (default ./hazhar-<command>) with a manifest; running the same
+// command again skips finished files and retries the failed ones.
+
+interface InputFile {
+  file: string;
+  // Path under the output directory, keeping the layout of input directories.
+  relative: string;
+  // Output path without the extension, unique within the run.
+  stem: string;
+}
+
+const HELP = `Usage: hazhar <command> [options] <files or directories...>
+
+Commands:
+${Object.entries(COMMANDS).map(([name, spec]) => `  ${name.padEnd(9)}${spec.summary}\n             hazhar ${spec.usage}`).join('\n')}
+
+Options:
+  -o, --out <dir>        Output directory (default: ./hazhar-<command>)
+  -p, --prompt <text>    Edit instruction (edit)
+      --voice <name>     TTS voice, e.g. Kore, Puck, Charon, Zephyr, Fenrir (tts)
+      --language <name>  Spoken language, e.g. English, Persian (tts)
+  -r, --recursive        Include files in subdirectories
+      --concurrency <n>  Requests in flight per model (default: ${DEFAULT_QUEUE_LIMITS.concurrency})
+      --rpm <n>          Requests per minute per model (default: ${DEFAULT_QUEUE_LIMITS.requestsPerMinute})
+      --provider <id>    ${PROVIDER_IDS.join(' or ')} (default: AI_PROVIDER or gemini)
+      --force            Redo files the manifest already lists as done
+      --dry-run          List the files that would be processed
+  -h, --help             Show this help
+`;
+
+const fail = (message: string): never => {
+  console.error(`hazhar: ${message}\nRun "hazhar --help" for usage.`);
+  process.exit(2);
+};
+
+// Inputs that would write the same result (x.png and x.jpg, or a/x.png and b/x.png given as
+// files) get the source extension and then a number appended, in input order so a resumed run
+// picks the same names. Compared case-insensitively for macOS and Windows file systems.
+const assignStems = (inputs: Omit<InputFile, 'stem'>[]): InputFile[] => {
+  const taken = new Set<string>();
+  return inputs.map(input => {
+    const base = stripExtension(input.relative);
+    let stem = [base, `${base}-${path.extname(input.file).slice(1).toLowerCase()}`].find(name => !taken.has(name.toLowerCase()));
+    for (let n = 2; !stem; n++) {
+      if (!taken.has(`${base}-${n}`.toLowerCase())) stem = `${base}-${n}`;
+    }
+    if (stem !== base) console.warn(`${input.file} has the same output name as another input; writing it as ${stem}.`);
+    taken.add(stem.toLowerCase());
+    return { ...input, stem };
+  });
+};
+
+// outDir is never walked, so results written next to the inputs are not picked up as inputs.
+const collectInputs = (paths: string[], extensions: string[], recursive: boolean, outDir: string): InputFile[] => {
+  const inputs: Omit<InputFile, 'stem'>[] = [];
+  const seen = new Set<string>();
+  const matches = (file: string) => extensions.includes(path.extname(file).toLowerCase());
+  // A file named twice (e.g. as an argument and inside a directory argument) is processed once.
+  const add = (file: string, relative: string) => {
+    if (seen.has(path.resolve(file))) return;
+    seen.add(path.resolve(file));
+    inputs.push({ file, relative });
+  };
+
+  const walk = (dir: string, root: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory() && recursive && path.resolve(full) !== outDir) walk(full, root);
+      else if (entry.isFile() && matches(entry.name)) add(full, path.relative(root, full));
+    }
+  };
+
+  for (const input of paths) {
+    if (!fs.existsSync(input)) fail(`${input} does not exist.`);
+    if (fs.statSync(input).isDirectory()) walk(input, input);
+    else if (matches(input)) add(input, path.basename(input));
+    else console.warn(`Skipping ${input}: expected ${extensions.join(', ')}`);
+  }
+  return assignStems(inputs);
+};
+
+const parsePositiveInt = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : fail(`--${name} must be a positive number.`);
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const main = async () => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        prompt: { type: 'string', short: 'p' },
+        voice: { type: 'string' },
+        language: { type: 'string' },
+        recursive: { type: 'boolean', short: 'r' },
+        concurrency: { type: 'string' },
+        rpm: { type: 'string' },
+        provider: { type: 'string' },
+        force: { type: 'boolean' },
+        'dry-run': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (e) {
+    return fail(getErrorMessage(e));
+  }
+  const { values, positionals } = parsed;
+  const [commandName, ...paths] = positionals;
+
+  if (values.help || !commandName) {
+    console.log(HELP);
+    return;
+  }
+  const command = COMMANDS[commandName];
+  if (!command) return fail(`unknown command "${commandName}".`);
+  if (paths.length === 0) return fail('no input files or directories given.');
+
+  const flags: CommandFlags = { prompt: values.prompt, voice: values.voice, language: values.language };
+  const invalid = command.validate?.(flags);
+  if (invalid) return fail(invalid);
+
+  if (values.provider) {
+    if (!PROVIDER_IDS.includes(values.provider as ProviderId)) return fail(`unknown provider "${values.provider}".`);
+    setActiveProviderId(values.provider as ProviderId);
+  }
+  const concurrency = parsePositiveInt(values.concurrency, 'concurrency', DEFAULT_QUEUE_LIMITS.concurrency);
+  setQueueLimits({ concurrency, requestsPerMinute: parsePositiveInt(values.rpm, 'rpm', DEFAULT_QUEUE_LIMITS.requestsPerMinute) });
+
+  const outDir = path.resolve(values.out || `hazhar-${commandName}`);
+  const inputs = collectInputs(paths, command.extensions, !!values.recursive, outDir);
+  const manifest = loadManifest(outDir);
+  const fingerprint = fingerprintOf(commandName, command.params(flags));
+  const keyOf = (input: InputFile) => path.relative(outDir, path.resolve(input.file));
+  const todo = inputs.filter(input => values.force || !isComplete(outDir, manifest.items[keyOf(input)], fingerprint, input.stem));
+  const skipped = inputs.length - todo.length;
+
+  console.log(`${commandName}: ${inputs.length} file(s), ${skipped} already done, ${todo.length} to process → ${outDir}`);
+  if (values['dry-run']) {
+    todo.forEach(input => console.log(`  ${input.file}`));
+    return;
+  }
+  if (todo.length === 0) return;
+  fs.mkdirSync(outDir, { recursive: true });
+
+  // First Ctrl+C cancels the requests in flight and keeps the manifest; a second one quits at once.
+  const controller = new AbortController();
+  process.on('SIGINT', () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.log('\nStopping; run the same command again to resume.');
+    controller.abort();
+  });
+
+  let done = 0;
+  let failed = 0;
+  let started = 0;
+  const processInput = async (input: InputFile) => {
+    const position = `[${++started}/${todo.length}]`;
+    const key = keyOf(input);
+    const startedAt = Date.now();
+    try {
+      const { data, extension } = await command.run(input.file, flags, { signal: controller.signal, tool: `cli:${commandName}` });
+      const output = `${input.stem}${extension}`;
+      fs.mkdirSync(path.dirname(path.join(outDir, output)), { recursive: true });
+      fs.writeFileSync(path.join(outDir, output), data);
+      manifest.items[key] = { input: key, output, status: 'done', fingerprint, durationMs: Date.now() - startedAt, finishedAt: new Date().toISOString() };
+      done++;
+      console.log(`${position} ${input.file} → ${output} (${formatSeconds(Date.now() - startedAt)})`);
+    } catch (e) {
+      if (controller.signal.aborted && isCancelled(e)) return;
+      const error = getErrorMessage(e);
+      manifest.items[key] = { input: key, status: 'failed', fingerprint, error, durationMs: Date.now() - startedAt, finishedAt: new Date().toISOString() };
+      failed++;
+      console.error(`${position} ${input.file} failed: ${error}`);
+    }
+    saveManifest(outDir, manifest);
+  };
+
+  // The request queue enforces the real limits; the pool only keeps a bounded number of files in memory.
+  let next = 0;
+  const worker = async () => {
+    while (next < todo.length && !controller.signal.aborted) await processInput(todo[next++]);
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  const usage = sumUsage(getUsage());
+  console.log(`\nDone: ${done}, failed: ${failed}, skipped: ${skipped}, remaining: ${todo.length - done - failed}`);
+  console.log(`Requests: ${usage.requests}, tokens: ${usage.inputTokens} in / ${usage.outputTokens} out, est. cost: ${usage.costUsd === null ? 'unknown' : formatUsd(usage.costUsd)} (${getActiveProviderId()})`);
+  if (failed > 0) console.log(`Failures are listed in ${path.join(outDir, MANIFEST_NAME)}; run the same command again to retry them.`);
+  process.exitCode = controller.signal.aborted ? 130 : failed > 0 ? 1 : 0;
+};
+
+main().catch(e => {
+  console.error(`hazhar: ${getErrorMessage(e)}`);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { stripExtension } from '../utils/imageFile';
+
+// manifest.json in the output directory records every input the CLI has processed, so an
+// interrupted or partly failed run can be started again with the same arguments and
+// only redoes what is missing. It is rewritten after each file.
+
+export type ItemStatus = 'done' | 'failed';
+
+export interface ManifestItem {
+  input: string;
+  output?: string;
+  status: ItemStatus;
+  // Hash of the command and the options that shape the output; a changed prompt redoes the file.
+  fingerprint: string;
+  error?: string;
+  durationMs: number;
+  finishedAt: string;
+}
+
+export interface Manifest {
+  version: 1;
+  items: Record<string, ManifestItem>;
+}
+
+export const MANIFEST_NAME = 'manifest.json';
+
+export const fingerprintOf = (command: string, params: Record<string, unknown>): string =>
+  createHash('sha256').update(JSON.stringify([command, params])).digest('hex').slice(0, 16);
+
+export const loadManifest = (outDir: string): Manifest => {
+  const file = path.join(outDir, MANIFEST_NAME);
+  if (!fs.existsSync(file)) return { version: 1, items: {} };
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return { version: 1, items: parsed.items || {} };
+  } catch {
+    throw new Error(`${file} is not valid JSON; fix or delete it to start over.`);
+  }
+};
+
+// Written to a temporary file first so a crash mid-write never leaves a truncated manifest.
+export const saveManifest = (outDir: string, manifest: Manifest) => {
+  const file = path.join(outDir, MANIFEST_NAME);
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(manifest, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+};
+
+// Done with the same options, under the output name this run gives the input, and the output
+// is still on disk. A result another input has since claimed the name of is redone.
+export const isComplete = (outDir: string, item: ManifestItem | undefined, fingerprint: string, stem: string): boolean =>
+  !!item && item.status === 'done' && item.fingerprint === fingerprint &&
+  !!item.output && stripExtension(item.output) === stem && fs.existsSync(path.join(outDir, item.output));
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageFile } from '../types';
+import {
+  applyAdjustments,
+  DEFAULT_ADJUSTMENTS,
+  describeAdjustments,
+  IDENTITY_CURVE,
+  renderAdjusted,
+  type Adjustments,
+  type CropRect,
+} from '../utils/adjustments';
+import { loadImage } from '../utils/mask';
+import CurveEditor from './CurveEditor';
+
+interface AdjustmentPanelProps {
+  image: ImageFile;
+  // Receives the adjusted image and a short description of what was changed.
+  onApply: (image: ImageFile, summary: string) => void;
+  disabled?: boolean;
+}
+
+type SliderKey = 'exposure' | 'contrast' | 'saturation' | 'temperature' | 'tint' | 'sharpen';
+
+const SLIDERS: { key: SliderKey; label: string; min: number; max: number; step: number }[] = [
+  { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.05 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1 },
+];
+
+// The preview is rendered small so sliders stay responsive; Apply renders at full size.
+const PREVIEW_SIZE = 640;
+
+// Crops smaller than this fraction of a side are treated as a click and ignored.
+const MIN_CROP = 0.02;
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ image, onApply, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const cropStart = useRef<{ x: number; y: number } | null>(null);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [adj, setAdj] = useState<Adjustments>(DEFAULT_ADJUSTMENTS);
+  const [draftCrop, setDraftCrop] = useState<CropRect | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadImage(image.base64).then(img => active && setSource(img)).catch(console.error);
+    return () => { active = false; };
+  }, [image.base64]);
+
+  // Re-render at most once per frame while a slider is dragged.
+  useEffect(() => {
+    if (!source) return;
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rendered = renderAdjusted(source, adj, { maxSize: PREVIEW_SIZE, useCrop: false });
+      canvas.width = rendered.width;
+      canvas.height = rendered.height;
+      canvas.getContext('2d')!.drawImage(rendered, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, adj]);
+
+  const update = (changes: Partial<Adjustments>) => setAdj(prev => ({ ...prev, ...changes }));
+
+  // The crop is stored relative to the rotated and flipped image, so changing either clears it.
+  const rotate = (by: 90 | 270) => update({ rotation: ((adj.rotation + by) % 360) as Adjustments['rotation'], crop: null });
+
+  const toFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || isApplying) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    cropStart.current = toFraction(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!cropStart.current) return;
+    const start = cropStart.current;
+    const point = toFraction(e);
+    setDraftCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!cropStart.current) return;
+    cropStart.current = null;
+    if (draftCrop && draftCrop.width >= MIN_CROP && draftCrop.height >= MIN_CROP) update({ crop: draftCrop });
+    setDraftCrop(null);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(await applyAdjustments(image, adj), describeAdjustments(adj));
+    } catch (e) {
+      console.error(e);
+      setError('Could not apply the adjustments to this image.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const summary = describeAdjustments(adj);
+  const crop = draftCrop ?? adj.crop;
+  const isBusy = disabled || isApplying;
+  const buttonClass = (active = false) =>
+    `px-3 py-1.5 text-sm font-semibold rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`relative w-fit mx-auto overflow-hidden rounded-lg bg-gray-900 select-none touch-none ${isBusy ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+      >
+        <canvas ref={canvasRef} className="block max-w-full max-h-96" />
+        {crop && (
+          <div
+            className="absolute border-2 border-white pointer-events-none"
+            style={{
+              left: `${crop.x * 100}%`,
+              top: `${crop.y * 100}%`,
+              width: `${crop.width * 100}%`,
+              height: `${crop.height * 100}%`,
+              boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+            }}
+          />
+        )}
+      </div>
+      <p className="text-xs text-gray-500 text-center">Drag on the preview to crop.</p>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => rotate(270)} disabled={isBusy} className={buttonClass()}>Rotate Left</button>
+        <button onClick={() => rotate(90)} disabled={isBusy} className={buttonClass()}>Rotate Right</button>
+        <button onClick={() => update({ flipH: !adj.flipH, crop: null })} disabled={isBusy} className={buttonClass(adj.flipH)}>Flip H</button>
+        <button onClick={() => update({ flipV: !adj.flipV, crop: null })} disabled={isBusy} className={buttonClass(adj.flipV)}>Flip V</button>
+        <button onClick={() => update({ crop: null })} disabled={isBusy || !adj.crop} className={buttonClass()}>Clear Crop</button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+        {SLIDERS.map(({ key, label, min, max, step }) => (
+          <label key={key} className="block text-sm text-gray-400">
+            <span className="flex justify-between">
+              {label}
+              <span className="text-gray-300 tabular-nums">{adj[key] > 0 && key !== 'sharpen' ? '+' : ''}{adj[key]}</span>
+            </span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={adj[key]}
+              onChange={(e) => update({ [key]: Number(e.target.value) })}
+              onDoubleClick={() => update({ [key]: 0 })}
+              disabled={isBusy}
+              className="w-full"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-sm text-gray-400">Curves</span>
+          <button onClick={() => update({ curve: IDENTITY_CURVE })} disabled={isBusy} className="text-xs text-gray-400 hover:text-white disabled:opacity-40">Reset</button>
+        </div>
+        <CurveEditor points={adj.curve} onChange={curve => update({ curve })} disabled={isBusy} />
+        <p className="mt-1 text-xs text-gray-500">Click to add a point, drag to move it, double-click to remove it.</p>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={() => setAdj(DEFAULT_ADJUSTMENTS)} disabled={isBusy || !summary} className={buttonClass()}>Reset All</button>
+        <button
+          onClick={handleApply}
+          disabled={isBusy || !summary}
+          className="flex-grow px-4 py-1.5 text-sm font-semibold rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          {isApplying ? 'Applying...' : 'Apply Adjustments'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default AdjustmentPanel;
@@ -1,6 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
-// FIX: Removed LiveSession as it is not an exported member of '@google/genai'.
-import { GoogleGenAI, Modality } from '@google/genai';
+import { Modality } from '@google/genai';
+import { connectLiveSession } from '../services/geminiService';
+import { budgetDeclined, getErrorMessage } from '../services/errors';
+import { confirmWithinBudget } from '../services/usage';
+import type { LiveSession } from '../services/aiProvider';
 
 // Helper functions for audio processing
 function encode(bytes: Uint8Array): string {
@@ -24,13 +27,6 @@ function createBlob(data: Float32Array): { data: string; mimeType: string; } {
   };
 }
 
-// FIX: Added a local interface for the live session object for type safety,
-// since LiveSession is not exported from the SDK.
-interface GeminiLiveSession {
-  sendRealtimeInput(input: { media: { data: string; mimeType: string; } }): void;
-  close(): void;
-}
-
 const supportedLanguages = [
   { value: 'English', label: 'English' },
   { value: 'Kurdish (Sorani)', label: 'Kurdish (Sorani) - کوردی (سۆرانی)' },
@@ -75,7 +71,7 @@ const AudioTranscriber: React.FC = () => {
   const [selectedLanguage, setSelectedLanguage] = useState<string>(supportedLanguages[0].value);
   const [error, setError] = useState<string | null>(null);
 
-  const sessionPromiseRef = useRef<Promise<GeminiLiveSession> | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
@@ -115,23 +111,22 @@ const AudioTranscriber: React.FC = () => {
     setInterimTranscript('');
     currentTurnTextRef.current = '';
 
+    if (!(await confirmWithinBudget())) {
+      setIsRecording(false);
+      setError(getErrorMessage(budgetDeclined()));
+      return;
+    }
+
     try {
-      if (!process.env.API_KEY) {
-        throw new Error('API_KEY environment variable not set.');
-      }
-      
       mediaStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
       // FIX: Cast `window` to `any` to access `webkitAudioContext` without a TypeScript error, ensuring compatibility with older browsers.
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
       
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
       // Get the specific instruction for the selected language for better accuracy.
       const languageInstruction = languagePrompts[selectedLanguage] || `The user is speaking ${selectedLanguage}. Transcribe their speech accurately in that language.`;
 
-      sessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
+      sessionPromiseRef.current = connectLiveSession(
+        {
           onopen: () => {
             if (!audioContextRef.current || !mediaStreamRef.current) return;
             const source = audioContextRef.current.createMediaStreamSource(mediaStreamRef.current);
@@ -174,15 +169,16 @@ const AudioTranscriber: React.FC = () => {
             console.log('Live session closed.');
           },
         },
-        config: {
+        {
           responseModalities: [Modality.AUDIO], // Required for Live API
           inputAudioTranscription: {},
           systemInstruction: `You are a world-class, expert audio transcriber. ${languageInstruction}`,
         },
-      });
+        { tool: 'transcriber' }
+      );
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      const errorMessage = getErrorMessage(err);
       setError(`Failed to start recording: ${errorMessage}`);
       setIsRecording(false);
       cleanup();
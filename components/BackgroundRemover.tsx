@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import type { ImageFile } from '../types';
+import { editImage, generateMatte } from '../services/geminiService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { stripExtension } from '../utils/imageFile';
+import { Background, composeCutout, DEFAULT_REFINEMENT, MatteRefinement, refineMatte } from '../utils/matte';
+import { downloadImage } from '../utils/download';
+import ImageUploader from './ImageUploader';
+import ResultDisplay from './ResultDisplay';
+import CancelButton from './CancelButton';
+import BypassCacheToggle from './BypassCacheToggle';
+import { DownloadIcon } from './icons/DownloadIcon';
+import type { Language } from '../translations';
+
+type BackgroundKind = Background['kind'];
+
+const BACKGROUND_OPTIONS: { id: BackgroundKind; label: string }[] = [
+  { id: 'transparent', label: 'Transparent' },
+  { id: 'color', label: 'Solid Color' },
+  { id: 'blur', label: 'Blur' },
+  { id: 'image', label: 'Generated Scene' },
+];
+
+const REFINEMENT_SLIDERS: { key: keyof MatteRefinement; label: string; min: number; max: number }[] = [
+  { key: 'feather', label: 'Feather', min: 0, max: 20 },
+  { key: 'shift', label: 'Shift Edge', min: -50, max: 50 },
+  { key: 'hardness', label: 'Hardness', min: 0, max: 100 },
+];
+
+// Local recomposition waits for slider movement to settle.
+const RECOMPOSE_DELAY_MS = 150;
+
+interface BackgroundRemoverProps {
+  lang: Language;
+}
+
+const BackgroundRemover: React.FC<BackgroundRemoverProps> = ({ lang }) => {
+  const [originalImage, setOriginalImage] = useState<ImageFile | null>(null);
+  const [matte, setMatte] = useState<string | null>(null);
+  const [refinement, setRefinement] = useState<MatteRefinement>(DEFAULT_REFINEMENT);
+  const [backgroundKind, setBackgroundKind] = useState<BackgroundKind>('transparent');
+  const [color, setColor] = useState('#ffffff');
+  const [blurRadius, setBlurRadius] = useState(12);
+  const [scenePrompt, setScenePrompt] = useState('');
+  const [sceneImage, setSceneImage] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [loadingText, setLoadingText] = useState('');
+  const [bypassCache, setBypassCache] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { begin, cancel } = useCancellableRequest();
+
+  const handleImageUpload = (imageFile: ImageFile) => {
+    setOriginalImage(imageFile);
+    setMatte(null);
+    setSceneImage(null);
+    setResult(null);
+    setError(null);
+  };
+
+  // Everything after the matte is local, so refinement and background changes cost no requests.
+  useEffect(() => {
+    if (!originalImage || !matte) return;
+    const background: Background | null =
+      backgroundKind === 'color' ? { kind: 'color', color }
+      : backgroundKind === 'blur' ? { kind: 'blur', radius: blurRadius }
+      : backgroundKind === 'image' ? (sceneImage ? { kind: 'image', src: sceneImage } : null)
+      : { kind: 'transparent' };
+    // Until a scene is generated there is nothing to show under the scene label.
+    if (!background) {
+      setResult(null);
+      return;
+    }
+
+    let active = true;
+    const timer = setTimeout(async () => {
+      try {
+        const refined = await refineMatte(originalImage.base64, matte, refinement);
+        const composed = await composeCutout(originalImage.base64, refined, background);
+        if (!active) return;
+        setResult(composed);
+        setError(null);
+      } catch (e) {
+        console.error(e);
+        if (active) setError('Could not cut out the subject from this image.');
+      }
+    }, RECOMPOSE_DELAY_MS);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [originalImage, matte, refinement, backgroundKind, color, blurRadius, sceneImage]);
+
+  const runRequest = async (text: string, request: (signal: AbortSignal) => Promise<void>) => {
+    const signal = begin();
+    setIsLoading(true);
+    setLoadingText(text);
+    setError(null);
+
+    try {
+      await request(signal);
+    } catch (e) {
+      if (isCancelled(e)) return;
+      const errorMessage = getErrorMessage(e);
+      setError(`Generation failed: ${errorMessage}`);
+      console.error(e);
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
+    }
+  };
+
+  const handleRemoveClick = () => {
+    if (!originalImage) {
+      setError('Please upload an image first.');
+      return;
+    }
+    setResult(null);
+    runRequest('Finding the subject...', async signal => {
+      setMatte(await generateMatte(originalImage, { signal, bypassCache, tool: 'backgroundRemover' }));
+    });
+  };
+
+  // The model repaints the whole picture; only its background is kept, under the cut-out subject.
+  const handleSceneClick = () => {
+    if (!originalImage || !scenePrompt.trim()) return;
+    runRequest('Generating the new scene...', async signal => {
+      const prompt = `Replace the background of this image with: ${scenePrompt.trim()}. Keep the subject exactly as it is, in the same position, pose, size and framing, with lighting that matches the new scene.`;
+      setSceneImage(await editImage(originalImage, prompt, { signal, bypassCache, tool: 'backgroundRemover' }));
+    });
+  };
+
+  const handleCancel = () => {
+    cancel();
+    setIsLoading(false);
+  };
+
+  const handleSaveImage = () => {
+    if (!result || !originalImage) return;
+    downloadImage(result, `${stripExtension(originalImage.name)}-${backgroundKind === 'transparent' ? 'cutout' : 'background'}.png`, { source: originalImage }).catch(e => setError(getErrorMessage(e)));
+  };
+
+  const optionClass = (id: BackgroundKind) =>
+    backgroundKind === id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-12">
+      {/* Controls Column */}
+      <div className="flex flex-col space-y-8">
+        <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+          <h2 className="text-xl font-semibold text-white mb-4">1. Upload Image</h2>
+          <ImageUploader lang={lang} onImageUpload={handleImageUpload} image={originalImage} />
+        </div>
+
+        <button
+          onClick={handleRemoveClick}
+          disabled={!originalImage || isLoading}
+          className="w-full flex justify-center items-center px-6 py-4 border border-transparent text-lg font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {matte ? 'Detect Subject Again' : 'Remove Background'}
+        </button>
+        <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} disabled={isLoading} />
+        {isLoading && <CancelButton onClick={handleCancel} className="w-full" />}
+        {error && <div className="text-center text-red-400 bg-red-900/50 p-3 rounded-lg" role="alert">{error}</div>}
+
+        {matte && (
+          <>
+            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+              <h2 className="text-xl font-semibold text-white mb-4">2. Refine Edges</h2>
+              <div className="space-y-3">
+                {REFINEMENT_SLIDERS.map(({ key, label, min, max }) => (
+                  <label key={key} className="block text-sm text-gray-400">
+                    <span className="flex justify-between">
+                      {label}
+                      <span className="text-gray-300 tabular-nums">{refinement[key]}</span>
+                    </span>
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      value={refinement[key]}
+                      onChange={(e) => setRefinement(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                      disabled={isLoading}
+                      className="w-full"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+              <h2 className="text-xl font-semibold text-white mb-4">3. Background</h2>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {BACKGROUND_OPTIONS.map(({ id, label }) => (
+                  <button key={id} onClick={() => setBackgroundKind(id)} disabled={isLoading} className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${optionClass(id)}`}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {backgroundKind === 'color' && (
+                <label className="flex items-center gap-3 text-sm text-gray-400">
+                  Color
+                  <input type="color" value={color} onChange={(e) => setColor(e.target.value)} className="w-12 h-8 bg-transparent" />
+                </label>
+              )}
+              {backgroundKind === 'blur' && (
+                <label className="block text-sm text-gray-400">
+                  Blur Radius
+                  <input type="range" min="2" max="40" value={blurRadius} onChange={(e) => setBlurRadius(Number(e.target.value))} className="w-full" />
+                </label>
+              )}
+              {backgroundKind === 'image' && (
+                <div className="space-y-3">
+                  <textarea
+                    value={scenePrompt}
+                    onChange={(e) => setScenePrompt(e.target.value)}
+                    placeholder="e.g., 'a white marble countertop in soft daylight', 'a busy Erbil street at dusk'"
+                    className="w-full h-24 p-3 bg-gray-700 border-2 border-gray-600 rounded-lg text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    disabled={isLoading}
+                    aria-label="Scene description"
+                  />
+                  <button
+                    onClick={handleSceneClick}
+                    disabled={!scenePrompt.trim() || isLoading}
+                    className="w-full px-4 py-2 text-sm font-semibold rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {sceneImage ? 'Generate Another Scene' : 'Generate Scene'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Result Column */}
+      <div className="flex flex-col">
+        <div className="bg-gray-800 rounded-xl p-6 shadow-lg flex-grow">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-white">Result</h2>
+            {result && !isLoading && (
+              <button
+                onClick={handleSaveImage}
+                className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition-colors flex items-center space-x-2"
+                aria-label="Save PNG"
+              >
+                <DownloadIcon className="h-5 w-5" />
+                <span>Save PNG</span>
+              </button>
+            )}
+          </div>
+          <ResultDisplay
+            imageSrc={result}
+            originalSrc={originalImage?.base64}
+            isLoading={isLoading}
+            placeholderText={matte && backgroundKind === 'image' && !sceneImage ? 'Describe a scene and generate it to see it here' : 'Your cut-out will appear here'}
+            loadingText={loadingText}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundRemover;
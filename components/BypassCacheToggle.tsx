@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface BypassCacheToggleProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  label?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Forces the next request to hit the API even if an identical one is cached.
+const BypassCacheToggle: React.FC<BypassCacheToggleProps> = ({ checked, onChange, label, disabled, className = '' }) => (
+  <label className={`inline-flex items-center gap-2 text-sm text-gray-400 select-none cursor-pointer ${className}`}>
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      disabled={disabled}
+      className="w-4 h-4 bg-gray-800 border-gray-600 rounded text-blue-500 focus:ring-blue-500"
+    />
+    {label || 'Skip cache'}
+  </label>
+);
+
+export default BypassCacheToggle;
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { CacheEntry, clearCache, deleteCacheEntry, getEntryMedia, getEntryText, isCacheAvailable, listCacheEntries } from '../services/responseCache';
+import { translations, Language } from '../translations';
+
+interface CacheBrowserProps {
+  lang: Language;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const EntryPreview: React.FC<{ entry: CacheEntry }> = ({ entry }) => {
+  const media = getEntryMedia(entry);
+  if (media?.mimeType.startsWith('image/')) {
+    return <img src={`data:${media.mimeType};base64,${media.data}`} alt="" className="w-16 h-16 object-cover rounded-md flex-shrink-0" />;
+  }
+  return (
+    <div className="w-16 h-16 rounded-md bg-gray-700 flex items-center justify-center text-xs text-gray-400 flex-shrink-0">
+      {media ? 'Audio' : 'Text'}
+    </div>
+  );
+};
+
+const CacheBrowser: React.FC<CacheBrowserProps> = ({ lang, onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const t = translations[lang].cache;
+  const available = isCacheAvailable();
+
+  const refresh = async () => {
+    try {
+      setEntries(await listCacheEntries());
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError(t.unavailable);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (available) refresh();
+    else setIsLoading(false);
+  }, []);
+
+  const handleDelete = async (key: string) => {
+    await deleteCacheEntry(key);
+    setEntries(prev => prev.filter(entry => entry.key !== key));
+  };
+
+  const handleClear = async () => {
+    await clearCache();
+    setEntries([]);
+  };
+
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start p-6 border-b border-gray-800">
+          <div>
+            <h2 className="text-xl font-bold text-white">{t.title}</h2>
+            <p className="mt-1 text-sm text-gray-400">{t.desc}</p>
+          </div>
+          <button onClick={onClose} className="px-3 py-1 text-sm text-gray-400 hover:text-white">{t.close}</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-6 space-y-3">
+          {!available || error ? (
+            <p className="text-center text-gray-500">{error || t.unavailable}</p>
+          ) : !isLoading && entries.length === 0 ? (
+            <p className="text-center text-gray-500">{t.empty}</p>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.key} className="flex items-center gap-4 bg-gray-800 rounded-lg p-3">
+                <EntryPreview entry={entry} />
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm text-gray-200 truncate" dir="auto">{entry.prompt || getEntryText(entry) || entry.key}</p>
+                  <p className="mt-1 text-xs text-gray-500 font-mono truncate">
+                    {entry.model} · {entry.provider} · {formatBytes(entry.sizeBytes)} · {entry.hits} {t.hits}
+                  </p>
+                  <p className="text-xs text-gray-500">{new Date(entry.lastUsedAt).toLocaleString(lang)}</p>
+                </div>
+                <button onClick={() => handleDelete(entry.key)} className="px-3 py-1 text-xs bg-gray-700 text-gray-300 rounded-md hover:bg-red-700 hover:text-white transition-colors">
+                  {t.delete}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {entries.length > 0 && (
+          <div className="flex justify-between items-center p-4 border-t border-gray-800">
+            <span className="text-sm text-gray-400">{entries.length} · {formatBytes(totalBytes)}</span>
+            <button onClick={handleClear} className="px-4 py-2 text-sm font-semibold bg-red-700 text-white rounded-lg hover:bg-red-600 transition-colors">
+              {t.clearAll}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CacheBrowser;
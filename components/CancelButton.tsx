@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface CancelButtonProps {
+  onClick: () => void;
+  label?: string;
+  className?: string;
+}
+
+const CancelButton: React.FC<CancelButtonProps> = ({ onClick, label, className = '' }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-6 py-3 bg-gray-700 text-gray-200 font-semibold rounded-lg border border-gray-600 hover:bg-red-700 hover:border-red-600 hover:text-white transition-colors ${className}`}
+  >
+    {label || 'Cancel'}
+  </button>
+);
+
+export default CancelButton;
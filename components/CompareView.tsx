@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface CompareViewProps {
+  before: string;
+  after: string;
+}
+
+type CompareMode = 'result' | 'slider' | 'sideBySide';
+type Side = 'before' | 'after';
+
+interface ViewState {
+  zoom: number;
+  // Pan offset in screen pixels from the pane centre.
+  x: number;
+  y: number;
+}
+
+interface LoupeState {
+  side: Side;
+  // Cursor position inside the viewport, for placing the loupe.
+  left: number;
+  top: number;
+  // Image pixel under the cursor.
+  pixelX: number;
+  pixelY: number;
+}
+
+const MODES: { id: CompareMode; label: string }[] = [
+  { id: 'result', label: 'Result' },
+  { id: 'slider', label: 'Slider' },
+  { id: 'sideBySide', label: 'Side by Side' },
+];
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+const LOUPE_SIZE = 144;
+// Image pixels shown across the loupe.
+const LOUPE_PIXELS = 16;
+const FIT: ViewState = { zoom: 1, x: 0, y: 0 };
+
+// Keeps the zoomed image covering its pane instead of drifting off screen.
+const clampView = (view: ViewState, width: number, height: number): ViewState => {
+  const maxX = ((view.zoom - 1) * width) / 2;
+  const maxY = ((view.zoom - 1) * height) / 2;
+  return { zoom: view.zoom, x: Math.max(-maxX, Math.min(maxX, view.x)), y: Math.max(-maxY, Math.min(maxY, view.y)) };
+};
+
+// Before/after viewer with a split slider, side-by-side panes and one shared zoom/pan,
+// so the same detail is always under the cursor in both images. The loupe shows the
+// actual pixels at the cursor, unsmoothed.
+const CompareView: React.FC<CompareViewProps> = ({ before, after }) => {
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [split, setSplit] = useState(0.5);
+  const [view, setView] = useState<ViewState>(FIT);
+  const [loupeOn, setLoupeOn] = useState(false);
+  const [loupe, setLoupe] = useState<LoupeState | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const loupeRef = useRef<HTMLCanvasElement>(null);
+  const images = useRef<Partial<Record<Side, HTMLImageElement>>>({});
+  const drag = useRef<{ kind: 'pan' | 'split'; startX: number; startY: number; origin: ViewState } | null>(null);
+
+  useEffect(() => setView(FIT), [before, after]);
+
+  const paneAt = (target: EventTarget | null): HTMLElement | null =>
+    (target as HTMLElement | null)?.closest<HTMLElement>('[data-pane]') ?? null;
+
+  // Zoom and pan are shared, so any pane's size is the reference for clamping.
+  const paneRect = (): DOMRect | undefined => viewportRef.current?.querySelector('[data-pane]')?.getBoundingClientRect();
+
+  const sideAt = (pane: HTMLElement, clientX: number): Side => {
+    if (pane.dataset.pane === 'before' || pane.dataset.pane === 'after') return pane.dataset.pane;
+    if (mode === 'result') return 'after';
+    const rect = pane.getBoundingClientRect();
+    return clientX - rect.left < rect.width * split ? 'before' : 'after';
+  };
+
+  // Maps a screen point to image pixel coordinates, undoing object-contain fitting and the zoom/pan transform.
+  const toImagePixel = (img: HTMLImageElement, pane: DOMRect, clientX: number, clientY: number) => {
+    const fit = Math.min(pane.width / img.naturalWidth, pane.height / img.naturalHeight);
+    const contentX = (clientX - pane.left - pane.width / 2 - view.x) / view.zoom;
+    const contentY = (clientY - pane.top - pane.height / 2 - view.y) / view.zoom;
+    return { x: contentX / fit + img.naturalWidth / 2, y: contentY / fit + img.naturalHeight / 2 };
+  };
+
+  // Zooms around the cursor; wheel events need a non-passive listener to stop the page scrolling.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      const pane = paneAt(e.target);
+      if (!pane) return;
+      e.preventDefault();
+      const rect = pane.getBoundingClientRect();
+      const cx = e.clientX - rect.left - rect.width / 2;
+      const cy = e.clientY - rect.top - rect.height / 2;
+      setView(prev => {
+        const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.zoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2)));
+        const ratio = zoom / prev.zoom;
+        return clampView({ zoom, x: cx - (cx - prev.x) * ratio, y: cy - (cy - prev.y) * ratio }, rect.width, rect.height);
+      });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  });
+
+  const zoomBy = (factor: number) => {
+    const rect = paneRect();
+    if (!rect) return;
+    setView(prev => {
+      const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.zoom * factor));
+      const ratio = zoom / prev.zoom;
+      return clampView({ zoom, x: prev.x * ratio, y: prev.y * ratio }, rect.width, rect.height);
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const isHandle = !!(e.target as HTMLElement).closest('[data-split-handle]');
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { kind: isHandle ? 'split' : 'pan', startX: e.clientX, startY: e.clientY, origin: view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const viewport = viewportRef.current!.getBoundingClientRect();
+    if (drag.current?.kind === 'split') {
+      setSplit(Math.max(0, Math.min(1, (e.clientX - viewport.left) / viewport.width)));
+    } else if (drag.current) {
+      const pane = paneRect() ?? viewport;
+      const { origin, startX, startY } = drag.current;
+      setView(clampView({ zoom: origin.zoom, x: origin.x + e.clientX - startX, y: origin.y + e.clientY - startY }, pane.width, pane.height));
+    }
+
+    if (!loupeOn) return;
+    const pane = paneAt(document.elementFromPoint(e.clientX, e.clientY));
+    const side = pane && sideAt(pane, e.clientX);
+    const img = side && images.current[side];
+    if (!pane || !side || !img) return setLoupe(null);
+    const pixel = toImagePixel(img, pane.getBoundingClientRect(), e.clientX, e.clientY);
+    const inside = pixel.x >= 0 && pixel.y >= 0 && pixel.x < img.naturalWidth && pixel.y < img.naturalHeight;
+    setLoupe(inside ? { side, left: e.clientX - viewport.left, top: e.clientY - viewport.top, pixelX: Math.floor(pixel.x), pixelY: Math.floor(pixel.y) } : null);
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  useEffect(() => {
+    const canvas = loupeRef.current;
+    const img = loupe && images.current[loupe.side];
+    if (!canvas || !loupe || !img) return;
+    const ctx = canvas.getContext('2d')!;
+    const cell = LOUPE_SIZE / LOUPE_PIXELS;
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, LOUPE_SIZE, LOUPE_SIZE);
+    ctx.drawImage(img, loupe.pixelX - LOUPE_PIXELS / 2, loupe.pixelY - LOUPE_PIXELS / 2, LOUPE_PIXELS, LOUPE_PIXELS, 0, 0, LOUPE_SIZE, LOUPE_SIZE);
+    ctx.strokeStyle = '#a3e635';
+    ctx.strokeRect(LOUPE_SIZE / 2, LOUPE_SIZE / 2, cell, cell);
+  }, [loupe]);
+
+  const renderImage = (src: string, side: Side) => (
+    <img
+      src={src}
+      alt={side === 'before' ? 'Original' : 'Result'}
+      draggable={false}
+      onLoad={(e) => { images.current[side] = e.currentTarget; }}
+      className="absolute inset-0 w-full h-full object-contain pointer-events-none select-none"
+      style={{
+        transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+        imageRendering: view.zoom >= 4 ? 'pixelated' : 'auto',
+      }}
+    />
+  );
+
+  const label = (text: string, className = '') => (
+    <span className={`absolute top-2 z-10 px-2 py-0.5 rounded bg-black/60 text-xs font-semibold text-white pointer-events-none ${className}`}>{text}</span>
+  );
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1 text-xs font-semibold rounded-md transition-colors ${active ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        {MODES.map(({ id, label: text }) => (
+          <button key={id} onClick={() => setMode(id)} className={buttonClass(mode === id)}>{text}</button>
+        ))}
+        <div className="flex-grow" />
+        <button onClick={() => zoomBy(1 / 1.5)} disabled={view.zoom <= MIN_ZOOM} className={`${buttonClass(false)} disabled:opacity-40`} aria-label="Zoom out">−</button>
+        <button onClick={() => setView(FIT)} className={buttonClass(false)} title="Fit">{Math.round(view.zoom * 100)}%</button>
+        <button onClick={() => zoomBy(1.5)} disabled={view.zoom >= MAX_ZOOM} className={`${buttonClass(false)} disabled:opacity-40`} aria-label="Zoom in">+</button>
+        <button onClick={() => { setLoupeOn(on => !on); setLoupe(null); }} className={buttonClass(loupeOn)}>Loupe</button>
+      </div>
+
+      <div
+        ref={viewportRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setLoupe(null)}
+        className={`w-full aspect-video bg-gray-700/50 rounded-lg relative overflow-hidden touch-none select-none ${
+          loupeOn ? 'cursor-crosshair' : view.zoom > 1 ? 'cursor-grab' : ''
+        }`}
+      >
+        {mode === 'sideBySide' ? (
+          <div className="absolute inset-0 grid grid-cols-2 gap-1">
+            <div data-pane="before" className="relative overflow-hidden">{label('Before', 'left-2')}{renderImage(before, 'before')}</div>
+            <div data-pane="after" className="relative overflow-hidden">{label('After', 'left-2')}{renderImage(after, 'after')}</div>
+          </div>
+        ) : (
+          <div data-pane="compare" className="absolute inset-0">
+            {mode === 'slider' && renderImage(before, 'before')}
+            <div className="absolute inset-0" style={mode === 'slider' ? { clipPath: `inset(0 0 0 ${split * 100}%)` } : undefined}>
+              {renderImage(after, 'after')}
+            </div>
+            {mode === 'slider' && (
+              <>
+                {label('Before', 'left-2')}
+                {label('After', 'right-2')}
+                <div data-split-handle className="absolute top-0 bottom-0 z-10 w-6 -ml-3 flex justify-center cursor-ew-resize" style={{ left: `${split * 100}%` }}>
+                  <div className="w-0.5 h-full bg-white/80" />
+                  <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow flex items-center justify-center text-gray-800 text-xs">⇔</div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {loupe && (
+          <div
+            className="absolute z-20 pointer-events-none"
+            style={{
+              // Flips to the other side of the cursor near the right and bottom edges.
+              left: loupe.left + 16 + LOUPE_SIZE > (viewportRef.current?.clientWidth ?? 0) ? loupe.left - 16 - LOUPE_SIZE : loupe.left + 16,
+              top: loupe.top + 16 + LOUPE_SIZE + 20 > (viewportRef.current?.clientHeight ?? 0) ? loupe.top - 36 - LOUPE_SIZE : loupe.top + 16,
+            }}
+          >
+            <canvas ref={loupeRef} width={LOUPE_SIZE} height={LOUPE_SIZE} className="rounded-full border-2 border-white shadow-lg" />
+            <p className="mt-1 text-center text-xs font-mono text-white bg-black/60 rounded">{loupe.pixelX}, {loupe.pixelY}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -1,5 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import { Modality, LiveServerMessage } from '@google/genai';
+import { connectLiveSession } from '../services/geminiService';
+import { budgetDeclined, getErrorMessage } from '../services/errors';
+import { confirmWithinBudget } from '../services/usage';
+import type { LiveSession } from '../services/aiProvider';
 
 // --- Audio Utility Functions ---
 
@@ -59,12 +63,6 @@ async function decodeAudioData(
 }
 
 
-// A local interface for the live session object for type safety.
-interface GeminiLiveSession {
-  sendRealtimeInput(input: { media: { data: string; mimeType: string; } }): void;
-  close(): void;
-}
-
 type ConversationEntry = {
   role: 'user' | 'model';
   text: string;
@@ -103,7 +101,7 @@ const Conversation: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedLanguage, setSelectedLanguage] = useState<string>(supportedLanguages[0].value);
 
-  const sessionPromiseRef = useRef<Promise<GeminiLiveSession> | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
@@ -142,24 +140,23 @@ const Conversation: React.FC = () => {
     currentOutputTextRef.current = '';
     nextStartTimeRef.current = 0;
 
+    if (!(await confirmWithinBudget())) {
+      setStatus('idle');
+      setError(getErrorMessage(budgetDeclined()));
+      return;
+    }
+
     try {
-      if (!process.env.API_KEY) {
-        throw new Error('API_KEY environment variable not set.');
-      }
-      
       mediaStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
       
       // FIX: Cast `window` to `any` to access `webkitAudioContext` without a TypeScript error.
       inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
       outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
       const languageInstruction = conversationLanguagePrompts[selectedLanguage] || `You are a friendly and helpful AI assistant.`;
 
-      sessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
+      sessionPromiseRef.current = connectLiveSession(
+        {
           onopen: () => {
             setStatus('listening');
             if (!inputAudioContextRef.current || !mediaStreamRef.current) return;
@@ -252,15 +249,16 @@ const Conversation: React.FC = () => {
             setStatus('idle');
           },
         },
-        config: {
+        {
           responseModalities: [Modality.AUDIO],
           inputAudioTranscription: {},
           outputAudioTranscription: {},
           systemInstruction: languageInstruction,
         },
-      });
+        { tool: 'conversation' }
+      );
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      const errorMessage = getErrorMessage(err);
       setError(`Failed to start conversation: ${errorMessage}`);
       setStatus('idle');
       cleanup();
@@ -0,0 +1,45 @@
+import React from 'react';
+import { coverCrop, FocalPoint } from '../utils/resize';
+
+interface CropPreviewsProps {
+  image: string;
+  imageSize: { width: number; height: number };
+  focus: FocalPoint;
+  targets: { name: string; width: number; height: number }[];
+}
+
+// Long side of each thumbnail, in CSS pixels.
+const THUMB_SIZE = 120;
+
+// Thumbnails of what each target size keeps, drawn with CSS backgrounds so they follow the
+// focal point live. The background position is the crop offset as a fraction of the overflow.
+const CropPreviews: React.FC<CropPreviewsProps> = ({ image, imageSize, focus, targets }) => (
+  <div className="flex flex-wrap gap-4">
+    {targets.map(target => {
+      const crop = coverCrop(imageSize.width, imageSize.height, target.width, target.height, focus);
+      const overflowX = imageSize.width - crop.width;
+      const overflowY = imageSize.height - crop.height;
+      const scale = THUMB_SIZE / Math.max(target.width, target.height);
+      return (
+        <figure key={target.name} className="text-center">
+          <div
+            className="rounded-lg border border-gray-600 bg-no-repeat"
+            style={{
+              width: `${Math.round(target.width * scale)}px`,
+              height: `${Math.round(target.height * scale)}px`,
+              backgroundImage: `url(${image})`,
+              backgroundSize: 'cover',
+              backgroundPosition: `${overflowX > 0 ? (crop.x / overflowX) * 100 : 50}% ${overflowY > 0 ? (crop.y / overflowY) * 100 : 50}%`,
+            }}
+          />
+          <figcaption className="mt-1 text-xs text-gray-400">
+            {target.name}
+            <span className="block text-[10px] text-gray-500" dir="ltr">{target.width}×{target.height}</span>
+          </figcaption>
+        </figure>
+      );
+    })}
+  </div>
+);
+
+export default CropPreviews;
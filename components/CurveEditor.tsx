@@ -0,0 +1,104 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { curveToLut, type CurvePoint } from '../utils/adjustments';
+
+interface CurveEditorProps {
+  points: CurvePoint[];
+  onChange: (points: CurvePoint[]) => void;
+  disabled?: boolean;
+}
+
+// Points closer than this (in levels) to an existing one grab it instead of adding a new one.
+const HIT_RADIUS = 10;
+// Smallest x distance between points: a click closer than this to a point moves that point
+// instead of adding one, and drags stop this far from the neighbours. Points at almost the same
+// x would make the curve spike between them.
+const MIN_POINT_GAP = 4;
+
+// Tone curve on a 256x256 grid. Click to add a point, drag to move it, double-click to remove it.
+// The end points can only move up and down.
+const CurveEditor: React.FC<CurveEditorProps> = ({ points, onChange, disabled }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const path = useMemo(() => {
+    const lut = curveToLut(points);
+    return Array.from(lut, (y, x) => `${x},${255 - Math.min(255, Math.max(0, y))}`).join(' ');
+  }, [points]);
+
+  const toLevels = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.round(Math.min(255, Math.max(0, v)));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 255),
+      y: clamp(255 - ((e.clientY - rect.top) / rect.height) * 255),
+    };
+  };
+
+  const nearestIndex = (x: number, y: number) =>
+    points.findIndex(point => Math.hypot(point.x - x, point.y - y) <= HIT_RADIUS);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toLevels(e);
+    const hit = nearestIndex(x, y);
+    if (hit !== -1) {
+      setDragIndex(hit);
+      return;
+    }
+    const sameX = points.findIndex(point => Math.abs(point.x - x) < MIN_POINT_GAP);
+    if (sameX !== -1) {
+      onChange(points.map((point, i) => (i === sameX ? { ...point, y } : point)));
+      setDragIndex(sameX);
+      return;
+    }
+    const insertAt = points.findIndex(point => point.x > x);
+    if (insertAt <= 0) return;
+    onChange([...points.slice(0, insertAt), { x, y }, ...points.slice(insertAt)]);
+    setDragIndex(insertAt);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const { x, y } = toLevels(e);
+    const last = points.length - 1;
+    // Keep the points in order so the curve stays a function of the input level.
+    const nextX =
+      dragIndex === 0 ? 0 : dragIndex === last ? 255 : Math.min(points[dragIndex + 1].x - MIN_POINT_GAP, Math.max(points[dragIndex - 1].x + MIN_POINT_GAP, x));
+    onChange(points.map((point, i) => (i === dragIndex ? { x: nextX, y } : point)));
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const { x, y } = toLevels(e);
+    const hit = nearestIndex(x, y);
+    if (hit > 0 && hit < points.length - 1) onChange(points.filter((_, i) => i !== hit));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="0 0 255 255"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragIndex(null)}
+      onPointerCancel={() => setDragIndex(null)}
+      onDoubleClick={handleDoubleClick}
+      className={`w-full max-w-[220px] aspect-square bg-gray-900 rounded-md touch-none ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-crosshair'}`}
+    >
+      {[64, 128, 192].map(v => (
+        <g key={v} stroke="#374151" strokeWidth={1}>
+          <line x1={v} y1={0} x2={v} y2={255} />
+          <line x1={0} y1={v} x2={255} y2={v} />
+        </g>
+      ))}
+      <line x1={0} y1={255} x2={255} y2={0} stroke="#4b5563" strokeDasharray="4 4" />
+      <polyline points={path} fill="none" stroke="#60a5fa" strokeWidth={2} />
+      {points.map((point, i) => (
+        <circle key={i} cx={point.x} cy={255 - point.y} r={5} fill={i === dragIndex ? '#60a5fa' : '#e5e7eb'} stroke="#1f2937" strokeWidth={1.5} />
+      ))}
+    </svg>
+  );
+};
+
+export default CurveEditor;
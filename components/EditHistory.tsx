@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import type { EditStep } from '../hooks/useEditHistory';
+
+interface EditHistoryProps {
+  steps: EditStep[];
+  currentId: number | null;
+  onSelect: (id: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  disabled?: boolean;
+}
+
+// Flattens the step tree depth-first. A chain of edits stays at one level; every later
+// branch from a step is indented one level below it.
+const flatten = (steps: EditStep[]): { step: EditStep; depth: number }[] => {
+  const rows: { step: EditStep; depth: number }[] = [];
+  const visit = (parentId: number | null, depth: number) => {
+    steps.filter(step => step.parentId === parentId).forEach((step, i) => {
+      rows.push({ step, depth: i === 0 ? depth : depth + 1 });
+      visit(step.id, i === 0 ? depth : depth + 1);
+    });
+  };
+  visit(null, 0);
+  return rows;
+};
+
+const EditHistory: React.FC<EditHistoryProps> = ({ steps, currentId, onSelect, onUndo, onRedo, canUndo, canRedo, disabled }) => {
+  const rows = useMemo(() => flatten(steps), [steps]);
+  // Steps the current image was built from, highlighted so the active branch is easy to follow.
+  const activePath = useMemo(() => {
+    const ids = new Set<number>();
+    let id = currentId;
+    while (id !== null) {
+      ids.add(id);
+      id = steps.find(step => step.id === id)?.parentId ?? null;
+    }
+    return ids;
+  }, [steps, currentId]);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-white">History</h3>
+        <div className="flex gap-2">
+          <button onClick={onUndo} disabled={!canUndo || disabled} className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed" title="Undo (Ctrl+Z)">
+            Undo
+          </button>
+          <button onClick={onRedo} disabled={!canRedo || disabled} className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed" title="Redo (Ctrl+Shift+Z)">
+            Redo
+          </button>
+        </div>
+      </div>
+      <ol className="space-y-1 max-h-80 overflow-y-auto">
+        {rows.map(({ step, depth }) => (
+          <li key={step.id} style={{ paddingInlineStart: `${depth * 12}px` }}>
+            <button
+              onClick={() => onSelect(step.id)}
+              disabled={disabled}
+              className={`w-full flex items-center gap-3 p-1.5 rounded-md text-left transition-colors ${
+                step.id === currentId
+                  ? 'bg-blue-600/30 ring-1 ring-blue-500'
+                  : activePath.has(step.id) ? 'bg-gray-700/60 hover:bg-gray-700' : 'hover:bg-gray-700/60 opacity-70'
+              }`}
+            >
+              <img src={step.image.base64} alt="" className="w-12 h-12 object-cover rounded flex-shrink-0" />
+              <span className="text-sm text-gray-200 line-clamp-2">{step.prompt ?? 'Original upload'}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+      <p className="mt-2 text-xs text-gray-500">Click any step to continue editing from it; a new edit there starts a branch.</p>
+    </div>
+  );
+};
+
+export default EditHistory;
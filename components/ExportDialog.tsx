@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  closeExport,
+  ExportRequest,
+  ExportSettings,
+  getExportRequest,
+  getExportSettings,
+  saveExportSettings,
+  subscribeExport,
+} from '../services/exportDialog';
+import {
+  canEncode,
+  encodeCanvas,
+  encodeToSize,
+  EXPORT_FORMATS,
+  ExportFormat,
+  formatBytes,
+  formatExtension,
+  isLossy,
+  loadCanvas,
+  SizedEncoding,
+} from '../utils/encode';
+import { downloadBlob } from '../utils/download';
+import { canStoreDpi, withDpi } from '../utils/dpi';
+import { canStoreExif, insertExif, MetadataMode, prepareExif } from '../utils/exif';
+import { getDataUrlMimeType, stripExtension } from '../utils/imageFile';
+import MetadataSummary from './MetadataSummary';
+import { translations, Language } from '../translations';
+
+interface ExportDialogProps {
+  lang: Language;
+}
+
+const METADATA_MODES: MetadataMode[] = ['strip', 'noGps', 'keep'];
+
+// Settings changes re-encode after this pause, so dragging the quality slider stays smooth.
+const ENCODE_DELAY_MS = 200;
+
+const resolveFormat = (settings: ExportSettings, image: string): ExportFormat => {
+  const own = getDataUrlMimeType(image) as ExportFormat;
+  const format = settings.format ?? (EXPORT_FORMATS.some(f => f.format === own) ? own : 'image/png');
+  return canEncode(format) ? format : 'image/png';
+};
+
+// Mounted once in the app; opens whenever a tab downloads an image.
+const ExportDialog: React.FC<ExportDialogProps> = ({ lang }) => {
+  const [request, setRequest] = useState<ExportRequest | null>(getExportRequest);
+  const [settings, setSettings] = useState<ExportSettings>(getExportSettings);
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [encoded, setEncoded] = useState<SizedEncoding | null>(null);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [metadataMode, setMetadataMode] = useState<MetadataMode>(settings.metadata);
+  // Only the latest encode may update the estimate.
+  const runRef = useRef(0);
+
+  const t = translations[lang].exportDialog;
+
+  useEffect(() => subscribeExport(() => setRequest(getExportRequest())), []);
+
+  useEffect(() => {
+    setCanvas(null);
+    setEncoded(null);
+    setError(null);
+    if (!request) return;
+    setMetadataMode(request.metadataMode ?? getExportSettings().metadata);
+    let active = true;
+    loadCanvas(request.image)
+      .then(loaded => active && setCanvas(loaded))
+      .catch(() => active && setError(t.error));
+    return () => {
+      active = false;
+    };
+  }, [request]);
+
+  const format = request ? resolveFormat(settings, request.image) : 'image/png';
+  const lossy = isLossy(format);
+
+  useEffect(() => {
+    if (!canvas) return;
+    const run = ++runRef.current;
+    setIsEncoding(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = lossy && settings.sizeMode === 'target'
+          ? await encodeToSize(canvas, format, settings.targetKB * 1024)
+          : { blob: await encodeCanvas(canvas, format, settings.quality / 100), quality: settings.quality / 100, fits: true };
+        if (run !== runRef.current) return;
+        setEncoded(result);
+        setError(null);
+      } catch {
+        if (run === runRef.current) setError(t.error);
+      } finally {
+        if (run === runRef.current) setIsEncoding(false);
+      }
+    }, ENCODE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [canvas, format, lossy, settings.sizeMode, settings.quality, settings.targetKB]);
+
+  if (!request) return null;
+
+  const update = (changes: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const metadataLabels: Record<MetadataMode, string> = { strip: t.metadataStrip, noGps: t.metadataNoGps, keep: t.metadataKeep };
+
+  const handleDownload = async () => {
+    if (!encoded) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      let blob = encoded.blob;
+      const dpi = request.dpi && canStoreDpi(format) ? request.dpi : null;
+      const metadata = request.metadata && metadataMode !== 'strip' && canStoreExif(format) ? request.metadata : null;
+      if (dpi || metadata) {
+        let bytes = new Uint8Array(await blob.arrayBuffer());
+        if (dpi) bytes = withDpi(bytes, format, dpi);
+        if (metadata) bytes = insertExif(bytes, format, prepareExif(metadata, metadataMode === 'keep'));
+        blob = new Blob([bytes], { type: format });
+      }
+      // A tab's own default (e.g. no GPS for face swaps) is not remembered as the general choice.
+      saveExportSettings(request.metadataMode ? settings : { ...settings, metadata: metadataMode });
+      downloadBlob(blob, `${stripExtension(request.filename)}.${formatExtension(format)}`);
+      closeExport();
+    } catch {
+      setError(t.saveError);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={closeExport}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start p-6 border-b border-gray-800">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white">{t.title}</h2>
+            <p className="mt-1 text-sm text-gray-400 truncate" dir="ltr">
+              {stripExtension(request.filename)}.{formatExtension(format)}
+              {canvas && <span className="ms-2 text-gray-500">{canvas.width}×{canvas.height}</span>}
+            </p>
+          </div>
+          <button onClick={closeExport} className="px-3 py-1 text-sm text-gray-400 hover:text-white">{t.cancel}</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">{t.format}</label>
+            <div className="grid grid-cols-4 gap-2">
+              {EXPORT_FORMATS.map(option => (
+                <button
+                  key={option.format}
+                  onClick={() => update({ format: option.format })}
+                  disabled={!canEncode(option.format)}
+                  title={canEncode(option.format) ? undefined : t.unsupported}
+                  className={`py-2 text-sm font-bold rounded-lg transition-colors disabled:opacity-30 ${format === option.format ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {lossy ? (
+            <div className="space-y-3">
+              <div className="flex p-1 bg-gray-800 rounded-lg">
+                {(['quality', 'target'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => update({ sizeMode: mode })}
+                    className={`flex-1 py-1.5 text-sm font-semibold rounded-md transition-colors ${settings.sizeMode === mode ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                  >
+                    {mode === 'quality' ? t.qualityMode : t.targetMode}
+                  </button>
+                ))}
+              </div>
+              {settings.sizeMode === 'quality' ? (
+                <div>
+                  <label htmlFor="export-quality" className="flex justify-between text-sm text-gray-300 mb-1">
+                    <span>{t.quality}</span>
+                    <span>{settings.quality}%</span>
+                  </label>
+                  <input
+                    id="export-quality"
+                    type="range"
+                    min={1}
+                    max={100}
+                    value={settings.quality}
+                    onChange={(e) => update({ quality: Number(e.target.value) })}
+                    className="w-full accent-blue-500"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="export-target" className="block text-sm text-gray-300 mb-1">{t.targetSize}</label>
+                  <input
+                    id="export-target"
+                    type="number"
+                    min={1}
+                    value={settings.targetKB}
+                    onChange={(e) => update({ targetKB: Math.max(1, Number(e.target.value) || 1) })}
+                    className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-200"
+                  />
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">{t.losslessNote}</p>
+          )}
+
+          {request.metadata && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">{t.metadata}</label>
+              <MetadataSummary metadata={request.metadata} className="mb-2" />
+              <div className="grid grid-cols-3 gap-2">
+                {METADATA_MODES.map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setMetadataMode(mode)}
+                    className={`py-2 px-1 text-xs font-semibold rounded-lg transition-colors ${metadataMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                  >
+                    {metadataLabels[mode]}
+                  </button>
+                ))}
+              </div>
+              {metadataMode !== 'strip' && !canStoreExif(format) && <p className="mt-2 text-xs text-amber-400">{t.metadataUnsupported}</p>}
+            </div>
+          )}
+
+          <div className="p-3 bg-gray-800/60 rounded-lg text-sm">
+            {error ? (
+              <p className="text-red-400">{error}</p>
+            ) : isEncoding || !encoded ? (
+              <p className="text-gray-400">{t.estimating}</p>
+            ) : (
+              <>
+                <p className="text-gray-200">
+                  {t.estimatedSize}: <span className="font-bold" dir="ltr">{formatBytes(encoded.blob.size)}</span>
+                  {lossy && settings.sizeMode === 'target' && (
+                    <span className="ms-2 text-gray-400">{t.qualityUsed.replace('{quality}', String(Math.round(encoded.quality * 100)))}</span>
+                  )}
+                </p>
+                {!encoded.fits && <p className="mt-1 text-amber-400">{t.targetTooSmall}</p>}
+                {request.dpi && (
+                  <p className="mt-1 text-gray-400">
+                    {canStoreDpi(format) ? t.dpiNote.replace('{dpi}', String(request.dpi)) : t.dpiUnsupported}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-800">
+          <button onClick={closeExport} className="px-4 py-2 text-sm font-semibold bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors">
+            {t.cancel}
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!encoded || isEncoding || isSaving}
+            className="px-4 py-2 text-sm font-bold bg-lime-500 text-gray-900 rounded-lg hover:bg-lime-400 transition-colors disabled:opacity-50"
+          >
+            {t.download}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
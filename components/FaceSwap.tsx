@@ -2,8 +2,14 @@
 import React, { useState, useEffect } from 'react';
 import type { ImageFile } from '../types';
 import { faceSwap } from '../services/geminiService';
+import { isCancelled, toServiceError } from '../services/errors';
+import { isProxyMode } from '../services/proxyClient';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { downloadImage } from '../utils/download';
 import ImageUploader from './ImageUploader';
 import ResultDisplay from './ResultDisplay';
+import CancelButton from './CancelButton';
+import BypassCacheToggle from './BypassCacheToggle';
 import { DownloadIcon } from './icons/DownloadIcon';
 import { PersonIcon } from './icons/PersonIcon';
 import { ImageIcon } from './icons/ImageIcon';
@@ -19,13 +25,16 @@ const FaceSwap: React.FC<FaceSwapProps> = ({ lang }) => {
   const [targetImage, setTargetImage] = useState<ImageFile | null>(null);
   const [resultImage, setResultImage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [bypassCache, setBypassCache] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [hasKey, setHasKey] = useState<boolean>(false);
+  // Behind the team proxy the key lives on the server, so there is nothing to select.
+  const [hasKey, setHasKey] = useState<boolean>(isProxyMode());
+  const { begin, cancel } = useCancellableRequest();
 
   const t = translations[lang].faceSwap;
 
   useEffect(() => {
-    checkKeyStatus();
+    if (!isProxyMode()) checkKeyStatus();
   }, []);
 
   const checkKeyStatus = async () => {
@@ -76,32 +85,34 @@ const FaceSwap: React.FC<FaceSwapProps> = ({ lang }) => {
       return;
     }
 
+    const signal = begin();
     setIsLoading(true);
     setError(null);
     setResultImage(null);
 
     try {
-      const result = await faceSwap(sourceFace, targetImage);
+      const result = await faceSwap(sourceFace, targetImage, { signal, bypassCache, tool: 'faceSwap' });
       setResultImage(result);
     } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
-      setError(`Error: ${errorMessage}`);
-      if (errorMessage.includes("entity was not found")) {
+      if (isCancelled(e)) return;
+      const serviceError = toServiceError(e);
+      setError(`Error: ${serviceError.message}`);
+      if (serviceError.kind === 'invalidKey') {
         setHasKey(false);
       }
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    cancel();
+    setIsLoading(false);
+  };
+
   const handleSaveImage = () => {
     if (!resultImage) return;
-    const link = document.createElement('a');
-    link.href = resultImage;
-    link.download = `face-swap-${Date.now()}.jpg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadImage(resultImage, `face-swap-${Date.now()}.jpg`, { source: targetImage, metadata: 'noGps' }).catch(e => setError(`Error: ${toServiceError(e).message}`));
   };
 
   return (
@@ -124,7 +135,7 @@ const FaceSwap: React.FC<FaceSwapProps> = ({ lang }) => {
             <PersonIcon className="h-6 w-6 text-blue-400" />
             <h2 className="text-xl font-bold text-white">{t.sourceLabel}</h2>
           </div>
-          <ImageUploader onImageUpload={handleSourceUpload} image={sourceFace} />
+          <ImageUploader lang={lang} onImageUpload={handleSourceUpload} image={sourceFace} />
           <p className="text-xs text-gray-500 mt-2 italic px-1">{t.sourceHint}</p>
         </div>
 
@@ -133,7 +144,7 @@ const FaceSwap: React.FC<FaceSwapProps> = ({ lang }) => {
             <ImageIcon className="h-6 w-6 text-lime-400" />
             <h2 className="text-xl font-bold text-white">{t.targetLabel}</h2>
           </div>
-          <ImageUploader onImageUpload={handleTargetUpload} image={targetImage} />
+          <ImageUploader lang={lang} onImageUpload={handleTargetUpload} image={targetImage} />
           <p className="text-xs text-gray-400 mt-2 italic px-1">{t.targetHint}</p>
         </div>
 
@@ -163,6 +174,8 @@ const FaceSwap: React.FC<FaceSwapProps> = ({ lang }) => {
             )}
           </button>
         )}
+        <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} label={t.bypassCache} disabled={isLoading} />
+        {isLoading && <CancelButton onClick={handleCancel} label={t.cancel} className="w-full rounded-2xl" />}
         
         {error && <div className="text-center text-red-400 bg-red-900/40 backdrop-blur-md p-4 rounded-xl border border-red-500/30 animate-shake" role="alert">{error}</div>}
       </div>
@@ -184,6 +197,7 @@ const FaceSwap: React.FC<FaceSwapProps> = ({ lang }) => {
           </div>
           <ResultDisplay
             imageSrc={resultImage}
+            originalSrc={targetImage?.base64}
             isLoading={isLoading}
             placeholderText="..."
             loadingText={t.processing}
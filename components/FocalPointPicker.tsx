@@ -0,0 +1,46 @@
+import React from 'react';
+import type { SubjectBox } from '../types';
+import type { FocalPoint } from '../utils/resize';
+
+interface FocalPointPickerProps {
+  image: string;
+  focus: FocalPoint;
+  onChange: (focus: FocalPoint) => void;
+  // Detected subject, outlined for reference.
+  box?: SubjectBox | null;
+  disabled?: boolean;
+}
+
+// Click or drag on the image to move the point that cropping keeps in frame.
+const FocalPointPicker: React.FC<FocalPointPickerProps> = ({ image, focus, onChange, box, disabled }) => {
+  const handlePointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    onChange({ x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) });
+  };
+
+  return (
+    <div
+      onPointerDown={handlePointer}
+      onPointerMove={handlePointer}
+      className={`relative w-fit mx-auto rounded-xl overflow-hidden select-none touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+    >
+      <img src={image} alt="Focal point" className="block max-w-full max-h-72" draggable={false} />
+      {box && (
+        <div
+          className="absolute border-2 border-dashed border-lime-400 pointer-events-none"
+          style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+        />
+      )}
+      <div
+        className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white bg-blue-500/60 shadow-lg pointer-events-none"
+        style={{ left: `${focus.x * 100}%`, top: `${focus.y * 100}%` }}
+      />
+    </div>
+  );
+};
+
+export default FocalPointPicker;
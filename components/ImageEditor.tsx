@@ -1,64 +1,150 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import type { ImageFile } from '../types';
-import { editImage } from '../services/geminiService';
+import { editImage, generateVariants, inpaintImage } from '../services/geminiService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { useVariants } from '../hooks/useVariants';
+import { useEditHistory } from '../hooks/useEditHistory';
+import { dataUrlToImageFile } from '../utils/imageFile';
+import { compositeWithMask, maskToImageFile } from '../utils/mask';
+import { downloadImage } from '../utils/download';
+import { shareImage } from '../services/sharedImage';
 import ImageUploader from './ImageUploader';
+import MaskEditor from './MaskEditor';
+import AdjustmentPanel from './AdjustmentPanel';
+import EditHistory from './EditHistory';
 import ResultDisplay from './ResultDisplay';
+import CancelButton from './CancelButton';
+import BypassCacheToggle from './BypassCacheToggle';
+import VariantCountSelect from './VariantCountSelect';
 import { DownloadIcon } from './icons/DownloadIcon';
+import type { Language } from '../translations';
 
-const ImageEditor: React.FC = () => {
-  const [originalImage, setOriginalImage] = useState<ImageFile | null>(null);
-  const [editedImage, setEditedImage] = useState<string | null>(null);
+interface ImageEditorProps {
+  lang: Language;
+}
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ lang }) => {
+  // Each edit applies to the current history step and becomes the next one.
+  const history = useEditHistory();
+  const inputImage = history.current?.image ?? null;
+  const results = useVariants();
+  const editedImage = results.selected ?? (history.current?.prompt ? inputImage!.base64 : null);
+  // What the shown result was made from, for the before/after view.
+  const parentImage = history.steps.find(step => step.id === history.current?.parentId)?.image ?? null;
+  const [variantCount, setVariantCount] = useState<number>(1);
   const [prompt, setPrompt] = useState<string>('');
+  const [useMask, setUseMask] = useState(false);
+  const [mask, setMask] = useState<string | null>(null);
+  const [showAdjustments, setShowAdjustments] = useState(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [bypassCache, setBypassCache] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { begin, cancel } = useCancellableRequest();
 
   const handleImageUpload = (imageFile: ImageFile) => {
-    setOriginalImage(imageFile);
-    setEditedImage(null);
+    history.reset(imageFile);
+    setMask(null);
+    results.clear();
     setError(null);
   };
 
   const handleGenerateClick = async () => {
-    if (!originalImage || !prompt) {
+    if (!inputImage || !prompt) {
       setError('Please upload an image and provide an editing prompt.');
       return;
     }
+    if (useMask && !mask) {
+      setError('Paint the area to change, or turn off the mask.');
+      return;
+    }
 
+    const signal = begin();
     setIsLoading(true);
     setError(null);
-    setEditedImage(null);
+    results.clear();
 
     try {
-      const resultImage = await editImage(originalImage, prompt);
-      setEditedImage(resultImage);
+      const requestOptions = { signal, bypassCache, tool: 'imageEditor' };
+      let images: string[];
+      if (useMask && mask) {
+        const maskFile = await maskToImageFile(mask, 'mask.png');
+        images = await generateVariants(variantCount, async options =>
+          compositeWithMask(inputImage.base64, await inpaintImage(inputImage, maskFile, prompt, options), mask),
+          requestOptions
+        );
+      } else {
+        images = await generateVariants(variantCount, options => editImage(inputImage, prompt, options), requestOptions);
+      }
+      results.set(images);
+      history.commit(dataUrlToImageFile(images[0], inputImage.name), prompt);
     } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      if (isCancelled(e)) return;
+      const errorMessage = getErrorMessage(e);
       setError(`Generation failed: ${errorMessage}`);
       console.error(e);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
+    }
+  };
+
+  // Local adjustments become a history step like any AI edit, so the next edit builds on them.
+  // The result is also offered to the uploaders of the other tabs.
+  const handleApplyAdjustments = (image: ImageFile, summary: string) => {
+    history.commit(image, summary);
+    shareImage(image);
+    results.clear();
+    setError(null);
+  };
+
+  const handleCancel = () => {
+    cancel();
+    setIsLoading(false);
+  };
+
+  // The variants belong to the step just added; picking another one swaps that step's image.
+  const handleSelectVariant = (index: number) => {
+    results.select(index);
+    if (history.current && results.variants[index]) {
+      history.replaceImage(history.current.id, dataUrlToImageFile(results.variants[index], history.current.image.name));
     }
   };
 
+  // Moving through the history leaves the fresh variants behind.
+  const navigate = (move: () => void) => {
+    if (isLoading) return;
+    move();
+    results.clear();
+    setError(null);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Text fields keep their own undo.
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).closest('input, textarea')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && history.canUndo) navigate(history.undo);
+      else if (((key === 'z' && e.shiftKey) || key === 'y') && history.canRedo) navigate(history.redo);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleSaveImage = () => {
-    if (!editedImage || !originalImage) return;
+    if (!editedImage || !inputImage) return;
 
-    const link = document.createElement('a');
-    link.href = editedImage;
-    
     // Extract mime type from data URL to determine file extension
     const mimeType = editedImage.match(/^data:(.*);base64,/)?.[1] || 'image/png';
     const extension = mimeType.split('/')[1] || 'png';
 
-    const originalName = originalImage.name;
+    const originalName = inputImage.name;
     const nameWithoutExtension = originalName.includes('.') 
       ? originalName.substring(0, originalName.lastIndexOf('.'))
       : originalName;
     
-    link.download = `${nameWithoutExtension}-edited.${extension}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadImage(editedImage, `${nameWithoutExtension}-edited.${extension}`, { source: history.steps[0]?.image }).catch(e => setError(getErrorMessage(e)));
   };
 
   return (
@@ -67,9 +153,49 @@ const ImageEditor: React.FC = () => {
       <div className="flex flex-col space-y-8">
         <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
           <h2 className="text-xl font-semibold text-white mb-4">1. Upload Image</h2>
-          <ImageUploader onImageUpload={handleImageUpload} image={originalImage} />
+          <ImageUploader lang={lang} onImageUpload={handleImageUpload} image={inputImage} />
         </div>
 
+        {inputImage && (
+          <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+            <label className="flex items-center gap-3 text-xl font-semibold text-white cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={useMask}
+                onChange={(e) => setUseMask(e.target.checked)}
+                disabled={isLoading}
+                className="w-5 h-5 bg-gray-700 border-gray-600 rounded text-blue-500 focus:ring-blue-500"
+              />
+              Edit Only a Masked Area
+            </label>
+            {useMask && (
+              <div className="mt-4">
+                <MaskEditor image={inputImage} onChange={setMask} disabled={isLoading} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {inputImage && (
+          <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+            <label className="flex items-center gap-3 text-xl font-semibold text-white cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={showAdjustments}
+                onChange={(e) => setShowAdjustments(e.target.checked)}
+                disabled={isLoading}
+                className="w-5 h-5 bg-gray-700 border-gray-600 rounded text-blue-500 focus:ring-blue-500"
+              />
+              Quick Adjustments (No AI)
+            </label>
+            {showAdjustments && (
+              <div className="mt-4">
+                <AdjustmentPanel key={history.current!.id} image={inputImage} onApply={handleApplyAdjustments} disabled={isLoading} />
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
           <h2 className="text-xl font-semibold text-white mb-4">2. Describe Your Edit</h2>
           <textarea
@@ -82,23 +208,28 @@ const ImageEditor: React.FC = () => {
           />
         </div>
         
-        <button
-          onClick={handleGenerateClick}
-          disabled={!originalImage || !prompt || isLoading}
-          className="w-full flex justify-center items-center px-6 py-4 border border-transparent text-lg font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-200"
-        >
-          {isLoading ? (
-            <>
-              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              Generating...
-            </>
-          ) : (
-            'Generate Image'
-          )}
-        </button>
+        <div className="flex gap-4">
+          <VariantCountSelect value={variantCount} onChange={setVariantCount} disabled={isLoading} />
+          <button
+            onClick={handleGenerateClick}
+            disabled={!inputImage || !prompt || (useMask && !mask) || isLoading}
+            className="flex-grow flex justify-center items-center px-6 py-4 border border-transparent text-lg font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {isLoading ? (
+              <>
+                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                Generating...
+              </>
+            ) : (
+              'Generate Image'
+            )}
+          </button>
+        </div>
+        <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} disabled={isLoading} />
+        {isLoading && <CancelButton onClick={handleCancel} className="w-full" />}
         {error && <div className="mt-4 text-center text-red-400 bg-red-900/50 p-3 rounded-lg" role="alert">{error}</div>}
       </div>
 
@@ -108,22 +239,43 @@ const ImageEditor: React.FC = () => {
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold text-white">3. Result</h2>
               {editedImage && !isLoading && (
-                <button
-                  onClick={handleSaveImage}
-                  className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition-colors flex items-center space-x-2"
-                  aria-label="Save edited image"
-                >
-                  <DownloadIcon className="h-5 w-5" />
-                  <span>Save Image</span>
-                </button>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={handleSaveImage}
+                    className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition-colors flex items-center space-x-2"
+                    aria-label="Save edited image"
+                  >
+                    <DownloadIcon className="h-5 w-5" />
+                    <span>Save Image</span>
+                  </button>
+                </div>
               )}
             </div>
             <ResultDisplay
               imageSrc={editedImage}
+              originalSrc={parentImage?.base64}
               isLoading={isLoading}
               placeholderText="Your edited image will appear here"
               loadingText="Generating your image..."
+              variants={results.variants}
+              selectedVariant={results.selectedIndex}
+              onSelectVariant={handleSelectVariant}
+              onKeepVariant={results.keep}
             />
+            {history.steps.length > 1 && (
+              <div className="mt-6 pt-6 border-t border-gray-700">
+                <EditHistory
+                  steps={history.steps}
+                  currentId={history.current?.id ?? null}
+                  onSelect={id => navigate(() => history.goTo(id))}
+                  onUndo={() => navigate(history.undo)}
+                  onRedo={() => navigate(history.redo)}
+                  canUndo={history.canUndo}
+                  canRedo={history.canRedo}
+                  disabled={isLoading}
+                />
+              </div>
+            )}
           </div>
       </div>
     </div>
@@ -1,7 +1,15 @@
-import React, { useState, useMemo, useRef } from 'react';
+import React, { useState, useMemo } from 'react';
 import type { ImageFile } from '../types';
 import { editImage } from '../services/geminiService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { downloadImage } from '../utils/download';
+import MediaIntake from './MediaIntake';
+import ResultDisplay from './ResultDisplay';
+import CancelButton from './CancelButton';
+import BypassCacheToggle from './BypassCacheToggle';
 import { DownloadIcon } from './icons/DownloadIcon';
+import type { Language } from '../translations';
 
 const EFFECTS = [
     { id: 'halloween', name: 'Halloween Look', category: 'Halloween', thumbnail: 'https://placehold.co/400x400/111827/9CA3AF/png?text=Halloween', prompt: 'Transform the person into a spooky character for Halloween, with dramatic makeup, costume, and a haunted background.' },
@@ -14,14 +22,19 @@ const EFFECTS = [
 
 const CATEGORIES = ['All', ...Array.from(new Set(EFFECTS.map(e => e.category)))];
 
-const ImageEffects: React.FC = () => {
+interface ImageEffectsProps {
+  lang: Language;
+}
+
+const ImageEffects: React.FC<ImageEffectsProps> = ({ lang }) => {
     const [originalImage, setOriginalImage] = useState<ImageFile | null>(null);
     const [generatedImage, setGeneratedImage] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [bypassCache, setBypassCache] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [selectedEffect, setSelectedEffect] = useState<(typeof EFFECTS[0]) | null>(EFFECTS[0]);
     const [activeCategory, setActiveCategory] = useState<string>('All');
-    const inputRef = useRef<HTMLInputElement>(null);
+    const { begin, cancel } = useCancellableRequest();
 
     const filteredEffects = useMemo(() => {
         if (activeCategory === 'All') {
@@ -30,53 +43,10 @@ const ImageEffects: React.FC = () => {
         return EFFECTS.filter(effect => effect.category === activeCategory);
     }, [activeCategory]);
     
-    const processFile = (file: File) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const dataUrl = e.target?.result as string;
-            if (!dataUrl) return;
-
-            const img = new Image();
-            img.onload = () => {
-                const MAX_DIMENSION = 1024;
-                let { width, height } = img;
-                if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
-                    if (width > height) {
-                        height = Math.round(height * (MAX_DIMENSION / width));
-                        width = MAX_DIMENSION;
-                    } else {
-                        width = Math.round(width * (MAX_DIMENSION / height));
-                        height = MAX_DIMENSION;
-                    }
-                }
-                const canvas = document.createElement('canvas');
-                canvas.width = width;
-                canvas.height = height;
-                const ctx = canvas.getContext('2d');
-                if (!ctx) {
-                    setOriginalImage({ base64: dataUrl, mimeType: file.type, name: file.name });
-                    return;
-                }
-                ctx.drawImage(img, 0, 0, width, height);
-                const outputMimeType = 'image/jpeg';
-                const resizedDataUrl = canvas.toDataURL(outputMimeType, 0.9);
-                setOriginalImage({ base64: resizedDataUrl, mimeType: outputMimeType, name: file.name });
-            };
-            img.onerror = () => {
-                setOriginalImage({ base64: dataUrl, mimeType: file.type, name: file.name });
-            };
-            img.src = dataUrl;
-        };
-        reader.readAsDataURL(file);
-    };
-
-    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (file) {
-            processFile(file);
-            setGeneratedImage(null);
-            setError(null);
-        }
+    const handleImageUpload = (images: ImageFile[]) => {
+        setOriginalImage(images[0]);
+        setGeneratedImage(null);
+        setError(null);
     };
 
     const handleGenerateClick = async () => {
@@ -84,33 +54,35 @@ const ImageEffects: React.FC = () => {
             setError('Please upload an image and select an effect.');
             return;
         }
+        const signal = begin();
         setIsLoading(true);
         setError(null);
         setGeneratedImage(null);
         try {
-            const resultImage = await editImage(originalImage, selectedEffect.prompt);
+            const resultImage = await editImage(originalImage, selectedEffect.prompt, { signal, bypassCache, tool: 'imageEffects' });
             setGeneratedImage(resultImage);
         } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+            if (isCancelled(e)) return;
+            const errorMessage = getErrorMessage(e);
             setError(`Generation failed: ${errorMessage}`);
             console.error(e);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     };
 
+    const handleCancel = () => {
+        cancel();
+        setIsLoading(false);
+    };
+
     const handleSaveImage = () => {
         if (!generatedImage || !originalImage) return;
-        const link = document.createElement('a');
-        link.href = generatedImage;
         const mimeType = generatedImage.match(/^data:(.*);base64,/)?.[1] || 'image/png';
         const extension = mimeType.split('/')[1] || 'png';
         const originalName = originalImage.name;
         const nameWithoutExtension = originalName.includes('.') ? originalName.substring(0, originalName.lastIndexOf('.')) : originalName;
-        link.download = `${nameWithoutExtension}-${selectedEffect?.id || 'effect'}.${extension}`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        downloadImage(generatedImage, `${nameWithoutExtension}-${selectedEffect?.id || 'effect'}.${extension}`).catch(e => setError(getErrorMessage(e)));
     };
 
     return (
@@ -142,16 +114,7 @@ const ImageEffects: React.FC = () => {
                             <h3 className="font-semibold text-white">Result</h3>
                             <button onClick={handleSaveImage} className="px-3 py-1.5 bg-green-600 text-white text-sm font-semibold rounded-md hover:bg-green-700 transition-colors flex items-center space-x-2"><DownloadIcon className="h-4 w-4" /><span>Save</span></button>
                         </div>
-                        <div className="w-full aspect-square bg-gray-700/50 rounded-lg flex items-center justify-center relative overflow-hidden">
-                            {isLoading ? (
-                                <div className="absolute inset-0 bg-gray-900/50 flex flex-col items-center justify-center z-10">
-                                    <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                                    <p className="mt-3 text-white">Generating...</p>
-                                </div>
-                            ) : (
-                                <img src={generatedImage} alt="Generated result" className="max-w-full max-h-full object-contain" />
-                            )}
-                        </div>
+                        <ResultDisplay imageSrc={generatedImage} originalSrc={originalImage?.base64} isLoading={isLoading} loadingText="Generating..." />
                         <button onClick={() => { setGeneratedImage(null); setOriginalImage(null); }} className="w-full text-center py-2 bg-gray-700 hover:bg-gray-600 rounded-lg">Create New</button>
                     </div>
                 ) : (
@@ -164,8 +127,7 @@ const ImageEffects: React.FC = () => {
                             </div>
                         </div>
                         
-                        <input type="file" ref={inputRef} onChange={handleFileChange} accept="image/png, image/jpeg, image/webp" className="hidden" />
-                        <div onClick={() => inputRef.current?.click()} className="w-full h-40 bg-gray-700/50 border-2 border-dashed border-gray-600 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 hover:border-blue-500 transition-colors">
+                        <MediaIntake lang={lang} onImages={handleImageUpload} className="w-full h-40 bg-gray-700/50 border-2 border-dashed border-gray-600 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 hover:border-blue-500 transition-colors">
                             {originalImage ? (
                                 <img src={originalImage.base64} alt={originalImage.name} className="max-w-full max-h-full object-contain rounded-md p-2" />
                             ) : (
@@ -174,13 +136,15 @@ const ImageEffects: React.FC = () => {
                                     <p className="mt-2 text-sm font-semibold">Click / Drop / Paste</p>
                                 </div>
                             )}
-                        </div>
+                        </MediaIntake>
                     </div>
                 )}
                 
                 <button onClick={handleGenerateClick} disabled={!originalImage || !selectedEffect || isLoading} className="w-full py-3 bg-lime-500 text-gray-900 font-bold rounded-lg hover:bg-lime-400 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors">
                     {isLoading ? 'Generating...' : 'Generate'}
                 </button>
+                <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} disabled={isLoading} />
+                {isLoading && <CancelButton onClick={handleCancel} className="w-full" />}
                 {error && <div className="text-center text-red-400 bg-red-900/50 p-3 rounded-lg" role="alert">{error}</div>}
             </div>
 
@@ -1,27 +1,25 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import type { ImageFile } from '../types';
-import { generateImageFromElements, restyleImage, generateImageFromText } from '../services/geminiService';
+import { generateImageFromElements, restyleImage, generateImageFromText, generateVariants } from '../services/geminiService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { useVariants } from '../hooks/useVariants';
+import { dataUrlToImageFile, getDataUrlMimeType } from '../utils/imageFile';
+import { downloadImage } from '../utils/download';
+import MediaIntake from './MediaIntake';
 import ResultDisplay from './ResultDisplay';
+import CancelButton from './CancelButton';
+import BypassCacheToggle from './BypassCacheToggle';
+import VariantCountSelect from './VariantCountSelect';
+import { DownloadIcon } from './icons/DownloadIcon';
 import { PersonIcon } from './icons/PersonIcon';
 import { LocationIcon } from './icons/LocationIcon';
 import { StarIcon } from './icons/StarIcon';
 import { ImageIcon } from './icons/ImageIcon';
-
-// Helper to process and resize files
-const processFile = (file: File): Promise<ImageFile> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const dataUrl = e.target?.result as string;
-      if (!dataUrl) return reject(new Error('Could not read file.'));
-      resolve({ base64: dataUrl, mimeType: file.type, name: file.name });
-    };
-    reader.onerror = (e) => reject(e);
-    reader.readAsDataURL(file);
-  });
-};
+import type { Language } from '../translations';
 
 interface ElementUploaderProps {
+  lang: Language;
   icon: React.ReactNode;
   title: string;
   description: string;
@@ -31,26 +29,7 @@ interface ElementUploaderProps {
   isDisabled: boolean;
 }
 
-const ElementUploader: React.FC<ElementUploaderProps> = ({ icon, title, description, images, onImagesChange, maxFiles, isDisabled }) => {
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files) return;
-    const newImages: ImageFile[] = [];
-    for (const file of Array.from(files)) {
-      try {
-        if (file instanceof File) {
-          const processed = await processFile(file);
-          newImages.push(processed);
-        }
-      } catch (error) {
-        console.error("Error processing file:", error);
-      }
-    }
-    onImagesChange([...images, ...newImages].slice(0, maxFiles));
-  };
-
+const ElementUploader: React.FC<ElementUploaderProps> = ({ lang, icon, title, description, images, onImagesChange, maxFiles, isDisabled }) => {
   const removeImage = (index: number) => {
     onImagesChange(images.filter((_, i) => i !== index));
   };
@@ -59,19 +38,16 @@ const ElementUploader: React.FC<ElementUploaderProps> = ({ icon, title, descript
     <div className="bg-gray-800 p-3 rounded-lg flex items-center gap-4">
       <div className="text-gray-400">{icon}</div>
       <div className="flex-grow">
-        <input
-            type="file"
-            ref={inputRef}
-            onChange={handleFileChange}
-            accept="image/*"
+        <MediaIntake
+            lang={lang}
+            onImages={(added) => onImagesChange([...images, ...added].slice(0, maxFiles))}
             multiple={maxFiles > 1}
-            className="hidden"
-            disabled={isDisabled}
-        />
-        <button onClick={() => inputRef.current?.click()} className="text-left" disabled={isDisabled || images.length >= maxFiles}>
-            <p className="font-semibold text-white">Click / Drop [{title}]</p>
+            disabled={isDisabled || images.length >= maxFiles}
+            className="text-left cursor-pointer"
+        >
+            <p className="font-semibold text-white">Click / Drop / Paste [{title}]</p>
             <p className="text-sm text-gray-500">{description}</p>
-        </button>
+        </MediaIntake>
       </div>
       <div className="flex gap-2">
         {images.map((image, index) => (
@@ -87,7 +63,11 @@ const ElementUploader: React.FC<ElementUploaderProps> = ({ icon, title, descript
 
 type Mode = 'elements' | 'restyle' | 'text-to-image';
 
-const ImageReferenceGenerator: React.FC = () => {
+interface ImageReferenceGeneratorProps {
+  lang: Language;
+}
+
+const ImageReferenceGenerator: React.FC<ImageReferenceGeneratorProps> = ({ lang }) => {
     const [mode, setMode] = useState<Mode>('elements');
     
     // State for 'elements' mode
@@ -102,9 +82,13 @@ const ImageReferenceGenerator: React.FC = () => {
     // Shared state
     const [prompt, setPrompt] = useState('');
     const [aspectRatio, setAspectRatio] = useState('9:16');
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const results = useVariants();
+    const generatedImage = results.selected;
+    const [variantCount, setVariantCount] = useState(1);
     const [isLoading, setIsLoading] = useState(false);
+    const [bypassCache, setBypassCache] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const { begin, cancel } = useCancellableRequest();
 
     const handleGenerate = async () => {
         if (subjectImages.length === 0 && sceneImages.length === 0 && styleImages.length === 0) {
@@ -112,24 +96,26 @@ const ImageReferenceGenerator: React.FC = () => {
             return;
         }
 
+        const signal = begin();
         setIsLoading(true);
         setError(null);
-        setGeneratedImage(null);
+        results.clear();
 
         try {
-            const result = await generateImageFromElements({
+            const images = await generateVariants(variantCount, options => generateImageFromElements({
                 subject: subjectImages,
                 scene: sceneImages,
                 style: styleImages,
                 prompt: `${prompt} Ensure the final image has a ${aspectRatio} aspect ratio.`
-            });
-            setGeneratedImage(result);
+            }, options), { signal, bypassCache, tool: 'imageReference' });
+            results.set(images);
         } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+            if (isCancelled(e)) return;
+            const errorMessage = getErrorMessage(e);
             setError(`Generation failed: ${errorMessage}`);
             console.error(e);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     };
 
@@ -139,23 +125,26 @@ const ImageReferenceGenerator: React.FC = () => {
             return;
         }
 
+        const signal = begin();
         setIsLoading(true);
         setError(null);
-        setGeneratedImage(null);
+        results.clear();
 
         try {
-            const result = await restyleImage(
+            const images = await generateVariants(variantCount, options => restyleImage(
                 restyleOriginalImage[0],
                 restyleStyleImage[0],
-                `${prompt} Ensure the final image has a ${aspectRatio} aspect ratio.`
-            );
-            setGeneratedImage(result);
+                `${prompt} Ensure the final image has a ${aspectRatio} aspect ratio.`,
+                options
+            ), { signal, bypassCache, tool: 'imageReference' });
+            results.set(images);
         } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+            if (isCancelled(e)) return;
+            const errorMessage = getErrorMessage(e);
             setError(`Generation failed: ${errorMessage}`);
             console.error(e);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     };
 
@@ -165,9 +154,10 @@ const ImageReferenceGenerator: React.FC = () => {
             return;
         }
 
+        const signal = begin();
         setIsLoading(true);
         setError(null);
-        setGeneratedImage(null);
+        results.clear();
 
         // API Key check for high resolution image generation which uses the Pro model
         if (aspectRatio === '4096x832') {
@@ -185,17 +175,37 @@ const ImageReferenceGenerator: React.FC = () => {
         }
 
         try {
-            const result = await generateImageFromText(prompt, aspectRatio);
-            setGeneratedImage(result);
+            const images = await generateVariants(variantCount, options => generateImageFromText(prompt, aspectRatio, options), { signal, bypassCache, tool: 'imageReference' });
+            results.set(images);
         } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+            if (isCancelled(e)) return;
+            const errorMessage = getErrorMessage(e);
             setError(`Generation failed: ${errorMessage}`);
             console.error(e);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     };
 
+    const handleCancel = () => {
+        cancel();
+        setIsLoading(false);
+    };
+
+    // Feeds the chosen result into Restyle as the image to work on next.
+    const handleUseAsInput = () => {
+        if (!generatedImage) return;
+        setRestyleOriginalImage([dataUrlToImageFile(generatedImage, 'generated-image')]);
+        setMode('restyle');
+        results.clear();
+    };
+
+    const handleDownload = () => {
+        if (!generatedImage) return;
+        const extension = getDataUrlMimeType(generatedImage).split('/')[1] || 'png';
+        downloadImage(generatedImage, `generated-image.${extension}`).catch(e => setError(getErrorMessage(e)));
+    };
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
       {/* Controls Column */}
@@ -216,6 +226,7 @@ const ImageReferenceGenerator: React.FC = () => {
                 <p className="text-sm text-gray-400">Please upload at least 1 Element.</p>
                 <div className="space-y-4">
                     <ElementUploader 
+                        lang={lang}
                         icon={<PersonIcon className="w-6 h-6" />}
                         title="Subject"
                         description="Select up to 4"
@@ -225,6 +236,7 @@ const ImageReferenceGenerator: React.FC = () => {
                         isDisabled={isLoading}
                     />
                     <ElementUploader 
+                        lang={lang}
                         icon={<LocationIcon className="w-6 h-6" />}
                         title="Scene"
                         description="Select up to 1"
@@ -234,6 +246,7 @@ const ImageReferenceGenerator: React.FC = () => {
                         isDisabled={isLoading}
                     />
                     <ElementUploader 
+                        lang={lang}
                         icon={<StarIcon className="w-6 h-6" />}
                         title="Style"
                         description="Select up to 1"
@@ -251,6 +264,7 @@ const ImageReferenceGenerator: React.FC = () => {
                 <p className="text-sm text-gray-400">Upload an image and a style reference to combine them.</p>
                 <div className="space-y-4">
                     <ElementUploader 
+                        lang={lang}
                         icon={<ImageIcon className="w-6 h-6" />}
                         title="Original Image"
                         description="Select 1 image to restyle"
@@ -260,6 +274,7 @@ const ImageReferenceGenerator: React.FC = () => {
                         isDisabled={isLoading}
                     />
                     <ElementUploader 
+                        lang={lang}
                         icon={<StarIcon className="w-6 h-6" />}
                         title="Style Image"
                         description="Select 1 style reference"
@@ -311,6 +326,7 @@ const ImageReferenceGenerator: React.FC = () => {
               <option value="4:3">4:3</option>
               <option value="4096x832">Banner (4096x832)</option>
             </select>
+            <VariantCountSelect value={variantCount} onChange={setVariantCount} disabled={isLoading} className="!p-2" />
             <button
                 onClick={
                     mode === 'elements' ? handleGenerate : 
@@ -322,16 +338,40 @@ const ImageReferenceGenerator: React.FC = () => {
             >
                 {isLoading ? 'Generating...' : 'Generate'}
             </button>
+            {isLoading && <CancelButton onClick={handleCancel} />}
         </div>
+        <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} disabled={isLoading} />
         {error && <div className="text-center text-red-400 bg-red-900/50 p-3 rounded-lg" role="alert">{error}</div>}
       </div>
 
       {/* Result Column */}
       <div className="flex flex-col">
           <div className="bg-gray-800 rounded-xl p-6 shadow-lg flex-grow">
-            <h2 className="text-xl font-semibold text-white mb-4">Result</h2>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold text-white">Result</h2>
+              {generatedImage && !isLoading && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={handleUseAsInput}
+                    className="px-4 py-2 bg-gray-700 text-gray-200 font-semibold rounded-md hover:bg-gray-600 transition-colors"
+                    aria-label="Restyle this result"
+                  >
+                    Use as Input
+                  </button>
+                  <button
+                    onClick={handleDownload}
+                    className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition-colors flex items-center space-x-2"
+                    aria-label="Download generated image"
+                  >
+                    <DownloadIcon className="h-5 w-5" />
+                    <span>Download</span>
+                  </button>
+                </div>
+              )}
+            </div>
             <ResultDisplay
               imageSrc={generatedImage}
+              originalSrc={mode === 'restyle' ? restyleOriginalImage[0]?.base64 : null}
               isLoading={isLoading}
               placeholderText="Your generated image will appear here"
               loadingText={
@@ -339,6 +379,10 @@ const ImageReferenceGenerator: React.FC = () => {
                 mode === 'restyle' ? "Restyling image..." :
                 "Generating image..."
               }
+              variants={results.variants}
+              selectedVariant={results.selectedIndex}
+              onSelectVariant={results.select}
+              onKeepVariant={results.keep}
             />
           </div>
       </div>
@@ -1,9 +1,36 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import type { ImageFile } from '../types';
-import { generativeResize } from '../services/geminiService';
+import type { ImageFile, SubjectBox } from '../types';
+import { detectSubject, generativeResize } from '../services/geminiService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { applyWatermark } from '../services/watermark';
+import {
+  BUILT_IN_PACKS,
+  exportPresets,
+  getCustomPresets,
+  parsePresetFile,
+  PresetPackId,
+  removeCustomPreset,
+  saveCustomPresets,
+  SizePreset,
+} from '../services/sizePresets';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { BatchStatus, useBatchResize } from '../hooks/useBatchResize';
+import { applyNamePattern, dataUrlToBytes, getDataUrlMimeType, readImageFile, stripExtension } from '../utils/imageFile';
+import { downloadBlob, downloadImage } from '../utils/download';
+import { CENTER, downscaleImage, FocalPoint, focusFromBox, resizeCover } from '../utils/resize';
+import { DEFAULT_RESAMPLING, ResampleMethod, ResampleOptions } from '../utils/resample';
+import { DEFAULT_DPI, formatLength, fromMillimetres, fromPixels, PAPER_SIZES, toPixels, Unit, UNITS } from '../utils/units';
+import { withDpi } from '../utils/dpi';
+import { getDroppedFiles } from '../utils/fileDrop';
+import { checkFile, describeIntakeError, IMAGE_TYPES } from '../utils/intake';
+import { createZip } from '../utils/zip';
 import ImageUploader from './ImageUploader';
 import ResultDisplay from './ResultDisplay';
+import CancelButton from './CancelButton';
+import FocalPointPicker from './FocalPointPicker';
+import CropPreviews from './CropPreviews';
+import BypassCacheToggle from './BypassCacheToggle';
 import { DownloadIcon } from './icons/DownloadIcon';
 import { LockIcon } from './icons/LockIcon';
 import { UnlockIcon } from './icons/UnlockIcon';
@@ -14,65 +41,154 @@ interface ImageSizerProps {
   lang?: Language;
 }
 
-const PRESETS = [
-  { name: 'Mobile Story', width: 1080, height: 1920 },
-  { name: 'HD', width: 1920, height: 1080 },
-  { name: 'Square', width: 1080, height: 1080 },
-];
+const PACK_IDS: PresetPackId[] = ['general', 'social', 'print', 'custom'];
+
+const RESAMPLE_METHODS: ResampleMethod[] = ['lanczos3', 'bicubic', 'area', 'multistep', 'browser'];
+
+// Batch files are read at full size; AI mode shrinks them to this first, like the uploader.
+const AI_INPUT_MAX_DIMENSION = 1024;
+
+const DEFAULT_NAME_PATTERN = '{name}_{width}x{height}';
+
+const STATUS_CLASSES: Record<BatchStatus, string> = {
+  pending: 'bg-gray-700 text-gray-300',
+  processing: 'bg-blue-600/30 text-blue-300',
+  done: 'bg-lime-500/20 text-lime-300',
+  failed: 'bg-red-900/50 text-red-300',
+};
+
+// Canvas can encode these; anything else is written as JPEG.
+const outputMimeType = (mimeType: string) =>
+  ['image/jpeg', 'image/png', 'image/webp'].includes(mimeType) ? mimeType : 'image/jpeg';
+
+const fileExtension = (dataUrl: string) => getDataUrlMimeType(dataUrl).split('/')[1].replace('jpeg', 'jpg');
+
+// One output of "generate all sizes".
+interface PackResult {
+  preset: SizePreset;
+  result?: string;
+  error?: string;
+}
 
 const ImageSizer: React.FC<ImageSizerProps> = ({ lang = 'en' }) => {
   const [originalImage, setOriginalImage] = useState<ImageFile | null>(null);
   const [resizedImage, setResizedImage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [bypassCache, setBypassCache] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const [width, setWidth] = useState<string>('');
   const [height, setHeight] = useState<string>('');
   const [isAspectRatioLocked, setAspectRatioLocked] = useState<boolean>(true);
   const [mode, setMode] = useState<'ai' | 'standard'>('ai');
+  const [isBatch, setIsBatch] = useState(false);
+  const [namePattern, setNamePattern] = useState(DEFAULT_NAME_PATTERN);
+  // Standard mode crops around this point; a detected subject sets it to the subject's centre.
+  const [focus, setFocus] = useState<FocalPoint>(CENTER);
+  const [subjectBox, setSubjectBox] = useState<SubjectBox | null>(null);
+  const [autoDetect, setAutoDetect] = useState(false);
+  const [pack, setPack] = useState<PresetPackId>('general');
+  const [customPresets, setCustomPresets] = useState<SizePreset[]>(getCustomPresets);
+  const [presetName, setPresetName] = useState('');
+  const [packResults, setPackResults] = useState<PackResult[]>([]);
+  const [resampling, setResampling] = useState<ResampleOptions>(DEFAULT_RESAMPLING);
+  // Width and height are entered in this unit; anything but px goes through the DPI.
+  const [unit, setUnit] = useState<Unit>('px');
+  const [dpi, setDpi] = useState(String(DEFAULT_DPI));
+  // Size of the last batch run, used for the file names even if the inputs change afterwards.
+  const [batchSize, setBatchSize] = useState<{ width: number; height: number } | null>(null);
+  const batch = useBatchResize();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const presetFileInputRef = useRef<HTMLInputElement>(null);
   
   const originalDimensionsRef = useRef<{ width: number; height: number } | null>(null);
   const t = translations[lang].imageSizer;
+  const { begin, cancel } = useCancellableRequest();
+  const isBusy = isLoading || batch.isRunning;
+  const canSetSize = isBatch || !!originalImage;
+  const dpiValue = Math.max(1, parseInt(dpi, 10) || DEFAULT_DPI);
+  const targetWidthPx = toPixels(parseFloat(width), unit, dpiValue);
+  const targetHeightPx = toPixels(parseFloat(height), unit, dpiValue);
+  // The requested size in pixels, or null while the inputs are not a valid size.
+  const targetSize = targetWidthPx > 0 && targetHeightPx > 0 ? { width: targetWidthPx, height: targetHeightPx } : null;
+  // How far the uploaded image must be enlarged to cover the target; above 1 it prints soft.
+  const enlargement = targetSize && originalDimensionsRef.current && !isBatch
+    ? Math.max(targetSize.width / originalDimensionsRef.current.width, targetSize.height / originalDimensionsRef.current.height)
+    : 0;
+  const packPresets = pack === 'custom' ? customPresets : BUILT_IN_PACKS[pack];
+  const packLabels: Record<PresetPackId, string> = { general: t.packGeneral, social: t.packSocial, print: t.packPrint, custom: t.packCustom };
+  const methodLabels: Record<ResampleMethod, string> = {
+    lanczos3: t.resampleLanczos,
+    bicubic: t.resampleBicubic,
+    area: t.resampleArea,
+    multistep: t.resampleMultistep,
+    browser: t.resampleBrowser,
+  };
 
   const handleImageUpload = (imageFile: ImageFile) => {
     setOriginalImage(imageFile);
     setResizedImage(null);
+    setPackResults([]);
     setError(null);
+    setFocus(CENTER);
+    setSubjectBox(null);
     
     const img = new Image();
     img.onload = () => {
       originalDimensionsRef.current = { width: img.width, height: img.height };
-      setWidth(String(img.width));
-      setHeight(String(img.height));
+      setWidth(formatLength(fromPixels(img.width, unit, dpiValue), unit));
+      setHeight(formatLength(fromPixels(img.height, unit, dpiValue), unit));
     };
     img.src = imageFile.base64;
   };
 
   const handleWidthChange = (newWidthStr: string) => {
     setWidth(newWidthStr);
-    if (isAspectRatioLocked && originalDimensionsRef.current?.width) {
-      const newWidth = parseInt(newWidthStr, 10);
+    if (isAspectRatioLocked && !isBatch && originalDimensionsRef.current?.width) {
+      const newWidth = parseFloat(newWidthStr);
       if (!isNaN(newWidth) && newWidth > 0) {
         const aspectRatio = originalDimensionsRef.current.height / originalDimensionsRef.current.width;
-        setHeight(String(Math.round(newWidth * aspectRatio)));
+        setHeight(formatLength(newWidth * aspectRatio, unit));
       }
     }
   };
 
   const handleHeightChange = (newHeightStr: string) => {
     setHeight(newHeightStr);
-    if (isAspectRatioLocked && originalDimensionsRef.current?.height) {
-      const newHeight = parseInt(newHeightStr, 10);
+    if (isAspectRatioLocked && !isBatch && originalDimensionsRef.current?.height) {
+      const newHeight = parseFloat(newHeightStr);
       if (!isNaN(newHeight) && newHeight > 0) {
         const aspectRatio = originalDimensionsRef.current.width / originalDimensionsRef.current.height;
-        setWidth(String(Math.round(newHeight * aspectRatio)));
+        setWidth(formatLength(newHeight * aspectRatio, unit));
       }
     }
   };
 
   const handlePresetClick = (preset: { width: number; height: number }) => {
-    setWidth(String(preset.width));
-    setHeight(String(preset.height));
+    setWidth(formatLength(fromPixels(preset.width, unit, dpiValue), unit));
+    setHeight(formatLength(fromPixels(preset.height, unit, dpiValue), unit));
+    setAspectRatioLocked(false);
+  };
+
+  const handlePaperClick = (paper: { width: number; height: number }) => {
+    setWidth(formatLength(fromMillimetres(paper.width, unit, dpiValue), unit));
+    setHeight(formatLength(fromMillimetres(paper.height, unit, dpiValue), unit));
+    setAspectRatioLocked(false);
+  };
+
+  // Keeps the same pixel size and shows it in the new unit.
+  const handleUnitChange = (next: Unit) => {
+    if (targetSize) {
+      setWidth(formatLength(fromPixels(targetSize.width, next, dpiValue), next));
+      setHeight(formatLength(fromPixels(targetSize.height, next, dpiValue), next));
+    }
+    setUnit(next);
+  };
+
+  const handleSwapOrientation = () => {
+    setWidth(height);
+    setHeight(width);
     setAspectRatioLocked(false);
   };
 
@@ -81,76 +197,205 @@ const ImageSizer: React.FC<ImageSizerProps> = ({ lang = 'en' }) => {
       setError(t.errorUpload);
       return;
     }
-    const targetWidth = parseInt(width, 10);
-    const targetHeight = parseInt(height, 10);
-
-    if (isNaN(targetWidth) || isNaN(targetHeight) || targetWidth <= 0 || targetHeight <= 0) {
+    if (!targetSize) {
       setError(t.errorDimensions);
       return;
     }
+    const { width: targetWidth, height: targetHeight } = targetSize;
 
+    const signal = begin();
     setIsLoading(true);
     setError(null);
     setResizedImage(null);
+    setPackResults([]);
 
     if (mode === 'ai') {
         try {
-            const result = await generativeResize(originalImage, targetWidth, targetHeight);
-            setResizedImage(result);
+            const result = await resizeTo(originalImage, targetWidth, targetHeight, focus, signal);
+            if (!signal.aborted) setResizedImage(result);
         } catch (e) {
-            setError(e instanceof Error ? e.message : 'AI resize failed.');
+            if (isCancelled(e)) return;
+            setError(getErrorMessage(e));
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     } else {
         // Standard Fit (Cover/Crop) - No Stretching
-        const img = new Image();
-        img.onload = () => {
-          try {
-            const canvas = document.createElement('canvas');
-            canvas.width = targetWidth;
-            canvas.height = targetHeight;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) throw new Error('Canvas error.');
-
-            // Draw using "Cover" logic to prevent stretching
-            const imgAspect = img.width / img.height;
-            const targetAspect = targetWidth / targetHeight;
-            let drawWidth, drawHeight, offsetX, offsetY;
-
-            if (imgAspect > targetAspect) {
-                drawHeight = targetHeight;
-                drawWidth = targetHeight * imgAspect;
-                offsetX = -(drawWidth - targetWidth) / 2;
-                offsetY = 0;
-            } else {
-                drawWidth = targetWidth;
-                drawHeight = targetWidth / imgAspect;
-                offsetX = 0;
-                offsetY = -(drawHeight - targetHeight) / 2;
-            }
-
-            ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
-            const resizedDataUrl = canvas.toDataURL(originalImage.mimeType, 0.9);
-            setResizedImage(resizedDataUrl);
-          } catch (e) {
+        try {
+            const resizedDataUrl = await resizeCover(originalImage.base64, targetWidth, targetHeight, originalImage.mimeType, focus, resampling);
+            if (!signal.aborted) setResizedImage(resizedDataUrl);
+        } catch (e) {
             setError(e instanceof Error ? e.message : 'Resize error.');
-          } finally {
-            setIsLoading(false);
-          }
-        };
-        img.src = originalImage.base64;
+        } finally {
+            if (!signal.aborted) setIsLoading(false);
+        }
     }
   };
 
+  const handleSavePreset = () => {
+    if (!targetSize) {
+      setError(t.errorDimensions);
+      return;
+    }
+    setCustomPresets(saveCustomPresets([{ name: presetName.trim(), ...targetSize }]));
+    setPresetName('');
+    setPack('custom');
+  };
+
+  const handleImportPresets = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setCustomPresets(saveCustomPresets(parsePresetFile(await file.text())));
+      setPack('custom');
+      setError(null);
+    } catch {
+      setError(t.errorPresetFile);
+    }
+  };
+
+  // Fits an image to an exact size in the current mode. The AI model answers at its own
+  // resolution, so its output is cropped to the size promised by the preset or file name.
+  const resizeTo = async (image: ImageFile, targetWidth: number, targetHeight: number, subjectFocus: FocalPoint, signal: AbortSignal) => {
+    if (mode === 'standard') return resizeCover(image.base64, targetWidth, targetHeight, outputMimeType(image.mimeType), subjectFocus, resampling);
+    const input = await downscaleImage(image, AI_INPUT_MAX_DIMENSION);
+    const expanded = await generativeResize(input, targetWidth, targetHeight, { signal, bypassCache, tool: 'imageSizer' });
+    return resizeCover(expanded, targetWidth, targetHeight, getDataUrlMimeType(expanded), CENTER, resampling);
+  };
+
+  // Produces every size in the selected pack from the uploaded image, one after another.
+  const handleGenerateAll = async () => {
+    if (!originalImage) return;
+    const presets = packPresets;
+    const signal = begin();
+    setIsLoading(true);
+    setError(null);
+    setResizedImage(null);
+    setPackResults(presets.map(preset => ({ preset })));
+    const update = (index: number, changes: Partial<PackResult>) =>
+      setPackResults(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+    try {
+      for (const [index, preset] of presets.entries()) {
+        try {
+          const result = await resizeTo(originalImage, preset.width, preset.height, focus, signal);
+          if (signal.aborted) return;
+          update(index, { result });
+        } catch (e) {
+          if (isCancelled(e) || signal.aborted) return;
+          update(index, { error: getErrorMessage(e) });
+        }
+      }
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
+    }
+  };
+
+  const handleDetectSubject = async () => {
+    if (!originalImage) return;
+    const signal = begin();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const box = await detectSubject(originalImage, { signal, bypassCache, tool: 'imageSizer' });
+      setSubjectBox(box);
+      setFocus(focusFromBox(box));
+    } catch (e) {
+      if (isCancelled(e)) return;
+      setError(getErrorMessage(e));
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
+    }
+  };
+
+  const addBatchFiles = async (files: File[]) => {
+    // Other files in a dropped folder are skipped quietly; unusable images are reported.
+    const images = files.filter(file => IMAGE_TYPES.includes(file.type)).filter(file => {
+      try {
+        checkFile(file);
+        return true;
+      } catch (e) {
+        setError(describeIntakeError(e, translations[lang].intake));
+        return false;
+      }
+    });
+    try {
+      batch.add(await Promise.all(images.map(readImageFile)));
+    } catch (e) {
+      setError(getErrorMessage(e));
+    }
+  };
+
+  const handleBatchInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    e.target.value = '';
+    addBatchFiles(files);
+  };
+
+  const handleBatchDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    addBatchFiles(await getDroppedFiles(e.dataTransfer));
+  };
+
+  const handleBatchResize = () => {
+    if (batch.items.length === 0) {
+      setError(t.errorNoFiles);
+      return;
+    }
+    if (!targetSize) {
+      setError(t.errorDimensions);
+      return;
+    }
+    const { width: targetWidth, height: targetHeight } = targetSize;
+    setError(null);
+    setBatchSize({ width: targetWidth, height: targetHeight });
+
+    batch.run(async (image, signal) => {
+      const subjectFocus = mode === 'standard' && autoDetect
+        ? focusFromBox(await detectSubject(await downscaleImage(image, AI_INPUT_MAX_DIMENSION), { signal, bypassCache, tool: 'imageSizer' }))
+        : CENTER;
+      return resizeTo(image, targetWidth, targetHeight, subjectFocus, signal);
+    });
+  };
+
+  const handleDownloadZip = async () => {
+    if (!batchSize) return;
+    const used = new Set<string>();
+    const done = batch.items.filter(item => item.status === 'done' && item.result);
+    const results = await Promise.all(done.map(item => applyWatermark(item.result!)));
+    const entries = results.map((result, index) => {
+      const extension = fileExtension(result);
+      const base = applyNamePattern(namePattern, { name: stripExtension(done[index].image.name), width: batchSize.width, height: batchSize.height, index: index + 1 });
+      let name = `${base}.${extension}`;
+      for (let n = 2; used.has(name); n++) name = `${base}-${n}.${extension}`;
+      used.add(name);
+      return { name, data: withDpi(dataUrlToBytes(result), getDataUrlMimeType(result), dpiValue) };
+    });
+    downloadBlob(createZip(entries), `resized-${batchSize.width}x${batchSize.height}.zip`);
+  };
+
+  const handleDownloadPackZip = async () => {
+    if (!originalImage) return;
+    const base = stripExtension(originalImage.name);
+    const done = packResults.filter(item => item.result);
+    const results = await Promise.all(done.map(item => applyWatermark(item.result!)));
+    const entries = results.map((result, index) => {
+      const { name, width, height } = done[index].preset;
+      const presetSlug = name.trim().replace(/[\\/:*?"<>|\s]+/g, '-');
+      return { name: `${base}_${presetSlug}_${width}x${height}.${fileExtension(result)}`, data: withDpi(dataUrlToBytes(result), getDataUrlMimeType(result), dpiValue) };
+    });
+    downloadBlob(createZip(entries), `${base}-sizes.zip`);
+  };
+
+  const handleCancel = () => {
+    cancel();
+    setIsLoading(false);
+  };
+
   const handleSaveImage = () => {
     if (!resizedImage || !originalImage) return;
-    const link = document.createElement('a');
-    link.href = resizedImage;
-    link.download = `resized-${Date.now()}.jpg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadImage(resizedImage, `resized-${Date.now()}.${fileExtension(resizedImage)}`, { dpi: dpiValue, source: originalImage }).catch(e => setError(getErrorMessage(e)));
   };
 
   return (
@@ -162,8 +407,47 @@ const ImageSizer: React.FC<ImageSizerProps> = ({ lang = 'en' }) => {
             <span className="bg-blue-600 text-white w-7 h-7 rounded-full flex items-center justify-center text-sm">1</span>
             {t.uploadTitle}
           </h2>
-          <ImageUploader onImageUpload={handleImageUpload} image={originalImage} />
-          <p className="text-xs text-gray-500 mt-3 italic">{t.uploadHint}</p>
+          <div className="flex p-1 bg-gray-900 rounded-xl mb-4">
+             <button
+                onClick={() => setIsBatch(false)}
+                disabled={isBusy}
+                className={`flex-1 py-2 px-3 text-sm font-bold rounded-lg transition-all ${!isBatch ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+             >
+                {t.singleMode}
+             </button>
+             <button
+                onClick={() => setIsBatch(true)}
+                disabled={isBusy}
+                className={`flex-1 py-2 px-3 text-sm font-bold rounded-lg transition-all ${isBatch ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+             >
+                {t.batchMode}
+             </button>
+          </div>
+          {isBatch ? (
+            <div
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={handleBatchDrop}
+              className="flex flex-col items-center gap-4 p-8 border-2 border-dashed border-gray-600 rounded-2xl text-center hover:border-blue-500 transition-colors"
+            >
+              <p className="text-gray-400">{t.dropHint}</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                <button onClick={() => filesInputRef.current?.click()} disabled={isBusy} className="px-4 py-2 bg-gray-700/50 text-sm font-medium rounded-xl border border-gray-600 hover:border-blue-500 hover:bg-gray-700 transition-all disabled:opacity-30">{t.addFiles}</button>
+                <button onClick={() => folderInputRef.current?.click()} disabled={isBusy} className="px-4 py-2 bg-gray-700/50 text-sm font-medium rounded-xl border border-gray-600 hover:border-blue-500 hover:bg-gray-700 transition-all disabled:opacity-30">{t.addFolder}</button>
+                {batch.items.length > 0 && (
+                  <button onClick={batch.clear} disabled={isBusy} className="px-4 py-2 text-sm font-medium rounded-xl text-gray-400 hover:text-white transition-all disabled:opacity-30">{t.clearAll}</button>
+                )}
+              </div>
+              <input ref={filesInputRef} type="file" accept="image/*" multiple onChange={handleBatchInput} className="hidden" />
+              {/* webkitdirectory is not in React's input props, so it is spread in untyped. */}
+              <input ref={folderInputRef} type="file" multiple onChange={handleBatchInput} className="hidden" {...{ webkitdirectory: '' }} />
+              {batch.items.length > 0 && <p className="text-sm font-bold text-white">{t.fileCount.replace('{count}', String(batch.items.length))}</p>}
+            </div>
+          ) : (
+            <>
+              <ImageUploader lang={lang} onImageUpload={handleImageUpload} image={originalImage} />
+              <p className="text-xs text-gray-500 mt-3 italic">{t.uploadHint}</p>
+            </>
+          )}
         </div>
 
         <div className="bg-gray-800 rounded-2xl p-6 shadow-xl border border-gray-700 space-y-6">
@@ -190,46 +474,210 @@ const ImageSizer: React.FC<ImageSizerProps> = ({ lang = 'en' }) => {
           <div className="space-y-4">
             <div>
               <h3 className="text-sm font-medium text-gray-400 mb-2 uppercase tracking-wider">{t.presets}</h3>
+              <div className="flex flex-wrap gap-1 p-1 bg-gray-900 rounded-xl mb-3">
+                {PACK_IDS.map(id => (
+                  <button
+                    key={id}
+                    onClick={() => setPack(id)}
+                    className={`flex-1 py-1.5 px-3 text-xs font-bold rounded-lg whitespace-nowrap transition-all ${pack === id ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {packLabels[id]}
+                  </button>
+                ))}
+              </div>
               <div className="flex flex-wrap gap-2">
-                {PRESETS.map(p => (
-                  <button key={p.name} onClick={() => handlePresetClick(p)} disabled={!originalImage} className="px-4 py-2 bg-gray-700/50 text-sm font-medium rounded-xl border border-gray-600 hover:border-blue-500 hover:bg-gray-700 transition-all disabled:opacity-30">{p.name}</button>
+                {packPresets.map(p => (
+                  <div key={p.name} className="flex items-center bg-gray-700/50 rounded-xl border border-gray-600 hover:border-blue-500 transition-all">
+                    <button onClick={() => handlePresetClick(p)} disabled={!canSetSize} className="px-4 py-2 text-sm font-medium rounded-xl hover:bg-gray-700 transition-all disabled:opacity-30">
+                      {p.name} <span className="text-xs text-gray-500" dir="ltr">{p.width}×{p.height}</span>
+                    </button>
+                    {pack === 'custom' && (
+                      <button onClick={() => setCustomPresets(removeCustomPreset(p.name))} className="pe-3 text-gray-500 hover:text-red-400" aria-label={t.removePreset}>✕</button>
+                    )}
+                  </div>
                 ))}
+                {pack === 'custom' && customPresets.length === 0 && <p className="text-sm text-gray-500">{t.noCustomPresets}</p>}
               </div>
+              {pack === 'custom' && (
+                <div className="flex gap-2 mt-3">
+                  <button onClick={() => presetFileInputRef.current?.click()} className="px-3 py-1.5 bg-gray-700/50 text-xs font-medium rounded-xl border border-gray-600 hover:bg-gray-700 transition-all">{t.importPresets}</button>
+                  <button onClick={() => downloadBlob(exportPresets(customPresets), 'size-presets.json')} disabled={customPresets.length === 0} className="px-3 py-1.5 bg-gray-700/50 text-xs font-medium rounded-xl border border-gray-600 hover:bg-gray-700 transition-all disabled:opacity-30">{t.exportPresets}</button>
+                  <input ref={presetFileInputRef} type="file" accept="application/json,.json" onChange={handleImportPresets} className="hidden" />
+                </div>
+              )}
+              {!isBatch && (
+                <button
+                  onClick={handleGenerateAll}
+                  disabled={!originalImage || isBusy || packPresets.length === 0}
+                  className="w-full mt-3 py-2.5 bg-blue-600/20 text-blue-300 text-sm font-bold rounded-xl border border-blue-500/40 hover:bg-blue-600/30 transition-all disabled:opacity-30"
+                >
+                  {t.generateAll.replace('{count}', String(packPresets.length))}
+                </button>
+              )}
             </div>
 
             <div>
               <h3 className="text-sm font-medium text-gray-400 mb-3 uppercase tracking-wider">{t.custom}</h3>
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <div className="flex p-1 bg-gray-900 rounded-xl" dir="ltr">
+                  {UNITS.map(u => (
+                    <button
+                      key={u}
+                      onClick={() => handleUnitChange(u)}
+                      className={`py-1.5 px-3 text-xs font-bold rounded-lg transition-all ${unit === u ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                      {u}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-xs font-bold text-gray-500">
+                  {t.dpi}
+                  <input type="number" min={1} value={dpi} onChange={e => setDpi(e.target.value)} className="w-20 bg-gray-900 p-2 rounded-lg border border-gray-700 text-white focus:ring-2 focus:ring-blue-500" />
+                </label>
+                <button onClick={handleSwapOrientation} disabled={!canSetSize} className="px-3 py-1.5 bg-gray-700/50 text-xs font-medium rounded-xl border border-gray-600 hover:bg-gray-700 transition-all disabled:opacity-30">{t.swap}</button>
+              </div>
+              <div className="flex flex-wrap gap-2 mb-3">
+                <span className="text-xs text-gray-500 self-center">{t.paperSizes}</span>
+                {PAPER_SIZES.map(paper => (
+                  <button key={paper.name} onClick={() => handlePaperClick(paper)} disabled={!canSetSize} className="px-3 py-1 bg-gray-700/50 text-xs font-medium rounded-lg border border-gray-600 hover:border-blue-500 hover:bg-gray-700 transition-all disabled:opacity-30" dir="ltr">{paper.name}</button>
+                ))}
+              </div>
               <div className="flex items-center gap-3 bg-gray-900 p-4 rounded-2xl border border-gray-700">
                 <div className="flex-1">
-                  <label htmlFor="width" className="block text-xs font-bold text-gray-500 mb-1">{t.width}</label>
-                  <input id="width" type="number" value={width} onChange={e => handleWidthChange(e.target.value)} disabled={!originalImage} className="w-full bg-transparent border-none text-xl font-black text-white focus:ring-0 p-0" />
+                  <label htmlFor="width" className="block text-xs font-bold text-gray-500 mb-1">{t.width} ({unit})</label>
+                  <input id="width" type="number" step={unit === 'px' ? 1 : 'any'} value={width} onChange={e => handleWidthChange(e.target.value)} disabled={!canSetSize} className="w-full bg-transparent border-none text-xl font-black text-white focus:ring-0 p-0" />
                 </div>
-                <button onClick={() => setAspectRatioLocked(!isAspectRatioLocked)} disabled={!originalImage} className="p-3 rounded-full hover:bg-gray-800 text-blue-400 disabled:opacity-30 transition-all">
+                <button onClick={() => setAspectRatioLocked(!isAspectRatioLocked)} disabled={isBatch || !originalImage} className="p-3 rounded-full hover:bg-gray-800 text-blue-400 disabled:opacity-30 transition-all">
                   {isAspectRatioLocked ? <LockIcon className="h-6 w-6" /> : <UnlockIcon className="h-6 w-6 text-gray-600" />}
                 </button>
                 <div className="flex-1">
-                  <label htmlFor="height" className="block text-xs font-bold text-gray-500 mb-1">{t.height}</label>
-                  <input id="height" type="number" value={height} onChange={e => handleHeightChange(e.target.value)} disabled={!originalImage} className="w-full bg-transparent border-none text-xl font-black text-white focus:ring-0 p-0 text-right" />
+                  <label htmlFor="height" className="block text-xs font-bold text-gray-500 mb-1">{t.height} ({unit})</label>
+                  <input id="height" type="number" step={unit === 'px' ? 1 : 'any'} value={height} onChange={e => handleHeightChange(e.target.value)} disabled={!canSetSize} className="w-full bg-transparent border-none text-xl font-black text-white focus:ring-0 p-0 text-right" />
                 </div>
               </div>
+              <div className="flex gap-2 mt-3">
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={e => setPresetName(e.target.value)}
+                  placeholder={t.presetName}
+                  className="flex-grow min-w-0 bg-gray-900 p-2.5 rounded-xl border border-gray-700 text-white text-sm focus:ring-2 focus:ring-blue-500"
+                />
+                <button onClick={handleSavePreset} disabled={!presetName.trim() || !canSetSize} className="px-4 py-2 bg-gray-700/50 text-sm font-medium rounded-xl border border-gray-600 hover:border-blue-500 hover:bg-gray-700 transition-all disabled:opacity-30 whitespace-nowrap">{t.savePreset}</button>
+              </div>
+              {mode === 'standard' && enlargement > 1 && (
+                <p className="mt-3 p-3 text-xs text-amber-300 bg-amber-900/20 rounded-xl border border-amber-500/30">
+                  {t.enlargeWarning.replace('{dpi}', String(Math.round(dpiValue / enlargement)))}
+                </p>
+              )}
+              {mode === 'ai' && targetSize && Math.max(targetSize.width, targetSize.height) > AI_INPUT_MAX_DIMENSION && (
+                <p className="mt-3 p-3 text-xs text-amber-300 bg-amber-900/20 rounded-xl border border-amber-500/30">
+                  {t.aiResolutionWarning.replace('{dpi}', String(Math.round((dpiValue * AI_INPUT_MAX_DIMENSION) / Math.max(targetSize.width, targetSize.height))))}
+                </p>
+              )}
             </div>
+
+            {mode === 'standard' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="resampling" className="block text-sm font-medium text-gray-400 mb-2 uppercase tracking-wider">{t.resampling}</label>
+                  <select
+                    id="resampling"
+                    value={resampling.method}
+                    onChange={e => setResampling(prev => ({ ...prev, method: e.target.value as ResampleMethod }))}
+                    disabled={isBusy}
+                    className="w-full bg-gray-900 p-3 rounded-xl border border-gray-700 text-white focus:ring-2 focus:ring-blue-500"
+                  >
+                    {RESAMPLE_METHODS.map(method => <option key={method} value={method}>{methodLabels[method]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="sharpen" className="flex justify-between text-sm font-medium text-gray-400 mb-2 uppercase tracking-wider">
+                    <span>{t.sharpenAfter}</span>
+                    <span>{resampling.sharpen}</span>
+                  </label>
+                  <input
+                    id="sharpen"
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={resampling.sharpen}
+                    onChange={e => setResampling(prev => ({ ...prev, sharpen: Number(e.target.value) }))}
+                    disabled={isBusy}
+                    className="w-full mt-3 accent-blue-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            {isBatch && (
+              <div>
+                <label htmlFor="name-pattern" className="block text-sm font-medium text-gray-400 mb-2 uppercase tracking-wider">{t.namePattern}</label>
+                <input id="name-pattern" type="text" dir="ltr" value={namePattern} onChange={e => setNamePattern(e.target.value)} className="w-full bg-gray-900 p-3 rounded-xl border border-gray-700 text-white font-mono focus:ring-2 focus:ring-blue-500" />
+                <p className="text-xs text-gray-500 mt-2" dir="ltr">{t.namePatternHint}</p>
+              </div>
+            )}
           </div>
         </div>
 
+        {mode === 'standard' && !isBatch && originalImage && originalDimensionsRef.current && (
+          <div className="bg-gray-800 rounded-2xl p-6 shadow-xl border border-gray-700 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                <span className="bg-blue-600 text-white w-7 h-7 rounded-full flex items-center justify-center text-sm">3</span>
+                {t.focalTitle}
+              </h2>
+              <div className="flex gap-2">
+                <button onClick={() => { setFocus(CENTER); setSubjectBox(null); }} disabled={isBusy} className="px-3 py-1.5 bg-gray-700/50 text-sm font-medium rounded-xl border border-gray-600 hover:bg-gray-700 transition-all disabled:opacity-30">{t.centerFocus}</button>
+                <button onClick={handleDetectSubject} disabled={isBusy} className="px-3 py-1.5 bg-blue-600/80 text-white text-sm font-bold rounded-xl hover:bg-blue-600 transition-all disabled:opacity-30">{t.detectSubject}</button>
+              </div>
+            </div>
+            <FocalPointPicker image={originalImage.base64} focus={focus} onChange={setFocus} box={subjectBox} disabled={isBusy} />
+            <p className="text-xs text-gray-500">{t.focalHint}</p>
+            <div>
+              <h3 className="text-sm font-medium text-gray-400 mb-3 uppercase tracking-wider">{t.cropPreview}</h3>
+              <CropPreviews
+                image={originalImage.base64}
+                imageSize={originalDimensionsRef.current}
+                focus={focus}
+                targets={[
+                  ...packPresets,
+                  ...(targetSize ? [{ name: t.customSize, ...targetSize }] : []),
+                ]}
+              />
+            </div>
+          </div>
+        )}
+
+        {mode === 'standard' && isBatch && (
+          <label className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={autoDetect}
+              onChange={(e) => setAutoDetect(e.target.checked)}
+              disabled={isBusy}
+              className="w-4 h-4 bg-gray-700 border-gray-600 rounded text-blue-500 focus:ring-blue-500"
+            />
+            {t.autoDetect}
+          </label>
+        )}
+
         <button 
-          onClick={handleResize} 
-          disabled={!originalImage || isLoading} 
+          onClick={isBatch ? handleBatchResize : handleResize}
+          disabled={isBatch ? batch.items.length === 0 || isBusy : !originalImage || isBusy}
           className="w-full py-5 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-xl font-black rounded-2xl shadow-xl shadow-blue-500/20 hover:scale-[1.02] active:scale-95 disabled:grayscale disabled:opacity-50 transition-all"
         >
-          {isLoading ? (
+          {isBusy ? (
              <div className="flex items-center justify-center gap-3">
                 <svg className="animate-spin h-6 w-6 text-white" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
                 <span>{t.processing}</span>
              </div>
           ) : (
-            mode === 'ai' ? t.aiButtonLabel : t.buttonLabel
+            isBatch ? t.batchButtonLabel.replace('{count}', String(batch.items.length)) : mode === 'ai' ? t.aiButtonLabel : t.buttonLabel
           )}
         </button>
+        <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} label={t.bypassCache} disabled={isBusy} />
+        {isBusy && <CancelButton onClick={isBatch ? batch.cancel : handleCancel} label={t.cancel} className="w-full rounded-2xl" />}
 
         {error && <div className="text-center text-red-400 bg-red-900/30 p-4 rounded-2xl border border-red-500/30 animate-pulse">{error}</div>}
       </div>
@@ -239,20 +687,93 @@ const ImageSizer: React.FC<ImageSizerProps> = ({ lang = 'en' }) => {
         <div className="bg-gray-800 rounded-3xl p-6 shadow-2xl border border-gray-700 flex-grow backdrop-blur-sm">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-black text-white">{t.resultTitle}</h2>
-            {resizedImage && !isLoading && (
+            {isBatch && batch.doneCount > 0 && !batch.isRunning && (
+              <button onClick={handleDownloadZip} className="px-5 py-2.5 bg-lime-500 text-gray-900 font-black rounded-xl hover:bg-lime-400 shadow-lg shadow-lime-500/20 transition-all flex items-center gap-2 active:scale-95">
+                <DownloadIcon className="h-5 w-5" />
+                <span>{t.downloadZip}</span>
+              </button>
+            )}
+            {!isBatch && packResults.some(item => item.result) && !isLoading && (
+              <button onClick={handleDownloadPackZip} className="px-5 py-2.5 bg-lime-500 text-gray-900 font-black rounded-xl hover:bg-lime-400 shadow-lg shadow-lime-500/20 transition-all flex items-center gap-2 active:scale-95">
+                <DownloadIcon className="h-5 w-5" />
+                <span>{t.downloadZip}</span>
+              </button>
+            )}
+            {!isBatch && resizedImage && !isLoading && (
               <button onClick={handleSaveImage} className="px-5 py-2.5 bg-lime-500 text-gray-900 font-black rounded-xl hover:bg-lime-400 shadow-lg shadow-lime-500/20 transition-all flex items-center gap-2 active:scale-95">
                 <DownloadIcon className="h-5 w-5" />
                 <span>{t.save}</span>
               </button>
             )}
           </div>
-          <ResultDisplay 
-            imageSrc={resizedImage} 
-            isLoading={isLoading} 
-            placeholderText={t.uploadHint}
-            loadingText={t.processing} 
-          />
-          {mode === 'ai' && !resizedImage && !isLoading && (
+          {isBatch ? (
+            batch.items.length === 0 ? (
+              <p className="py-16 text-center text-gray-500">{t.dropHint}</p>
+            ) : (
+              <>
+                <div className="mb-4">
+                  <p className="text-sm text-gray-400 mb-2">
+                    {t.batchProgress.replace('{done}', String(batch.doneCount)).replace('{total}', String(batch.items.length))}
+                  </p>
+                  <div className="h-2 bg-gray-900 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${(batch.doneCount / batch.items.length) * 100}%` }} />
+                  </div>
+                </div>
+                <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+                  {batch.items.map(item => (
+                    <li key={item.id} className="flex items-center gap-3 p-2 bg-gray-900/60 rounded-xl">
+                      <img src={item.result ?? item.image.base64} alt="" className="w-12 h-12 object-cover rounded-lg flex-shrink-0" />
+                      <div className="flex-grow min-w-0">
+                        <p className="text-sm text-gray-200 truncate" dir="ltr">{item.image.name}</p>
+                        {item.error && <p className="text-xs text-red-400 truncate" title={item.error}>{item.error}</p>}
+                      </div>
+                      <span className={`px-2 py-1 text-xs font-bold rounded-lg flex-shrink-0 ${STATUS_CLASSES[item.status]}`}>
+                        {{ pending: t.statusPending, processing: t.statusProcessing, done: t.statusDone, failed: t.statusFailed }[item.status]}
+                      </span>
+                      {!batch.isRunning && (
+                        <button onClick={() => batch.remove(item.id)} className="px-2 text-gray-500 hover:text-red-400" aria-label="Remove">✕</button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )
+) : packResults.length > 0 ? (
+            <>
+              <p className="text-sm text-gray-400 mb-4">
+                {t.batchProgress
+                  .replace('{done}', String(packResults.filter(item => item.result).length))
+                  .replace('{total}', String(packResults.length))}
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {packResults.map(item => (
+                  <figure key={item.preset.name} className="bg-gray-900/60 rounded-xl p-2">
+                    <div className="aspect-square flex items-center justify-center bg-gray-900 rounded-lg overflow-hidden">
+                      {item.result ? (
+                        <img src={item.result} alt={item.preset.name} className="max-w-full max-h-full object-contain" />
+                      ) : item.error ? (
+                        <p className="p-2 text-xs text-red-400 text-center" title={item.error}>{t.statusFailed}</p>
+                      ) : (
+                        <p className="text-xs text-gray-500">{isLoading ? t.statusProcessing : t.statusPending}</p>
+                      )}
+                    </div>
+                    <figcaption className="mt-2 text-xs text-gray-300 truncate">
+                      {item.preset.name} <span className="text-gray-500" dir="ltr">{item.preset.width}×{item.preset.height}</span>
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            </>
+          ) : (
+            <ResultDisplay 
+              imageSrc={resizedImage} 
+              originalSrc={originalImage?.base64}
+              isLoading={isLoading} 
+              placeholderText={t.uploadHint}
+              loadingText={t.processing} 
+            />
+          )}
+          {mode === 'ai' && !isBatch && !resizedImage && packResults.length === 0 && !isLoading && (
               <div className="mt-4 flex gap-3 p-4 bg-blue-900/20 rounded-2xl border border-blue-500/30">
                  <InfoIcon className="h-5 w-5 text-blue-400 shrink-0" />
                  <p className="text-xs text-blue-200 leading-relaxed">
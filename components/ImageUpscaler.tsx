@@ -1,16 +1,28 @@
 import React, { useState } from 'react';
 import type { ImageFile } from '../types';
 import { upscaleImage } from '../services/geminiService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { downloadImage } from '../utils/download';
 import ImageUploader from './ImageUploader';
 import ResultDisplay from './ResultDisplay';
+import CancelButton from './CancelButton';
+import BypassCacheToggle from './BypassCacheToggle';
 import { ImageIcon } from './icons/ImageIcon';
 import { DownloadIcon } from './icons/DownloadIcon';
+import type { Language } from '../translations';
 
-const ImageUpscaler: React.FC = () => {
+interface ImageUpscalerProps {
+  lang: Language;
+}
+
+const ImageUpscaler: React.FC<ImageUpscalerProps> = ({ lang }) => {
   const [originalImage, setOriginalImage] = useState<ImageFile | null>(null);
   const [upscaledImage, setUpscaledImage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [bypassCache, setBypassCache] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { begin, cancel } = useCancellableRequest();
 
   const handleImageUpload = (imageFile: ImageFile) => {
     setOriginalImage(imageFile);
@@ -24,28 +36,32 @@ const ImageUpscaler: React.FC = () => {
       return;
     }
 
+    const signal = begin();
     setIsLoading(true);
     setError(null);
     setUpscaledImage(null);
 
     try {
-      const resultImage = await upscaleImage(originalImage);
+      const resultImage = await upscaleImage(originalImage, { signal, bypassCache, tool: 'upscaler' });
       setUpscaledImage(resultImage);
     } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      if (isCancelled(e)) return;
+      const errorMessage = getErrorMessage(e);
       setError(`Upscaling failed: ${errorMessage}`);
       console.error(e);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
   };
+
+  const handleCancel = () => {
+    cancel();
+    setIsLoading(false);
+  };
   
   const handleSaveImage = () => {
     if (!upscaledImage || !originalImage) return;
 
-    const link = document.createElement('a');
-    link.href = upscaledImage;
-    
     const mimeType = upscaledImage.match(/^data:(.*);base64,/)?.[1] || 'image/png';
     const extension = mimeType.split('/')[1] || 'png';
 
@@ -54,10 +70,7 @@ const ImageUpscaler: React.FC = () => {
       ? originalName.substring(0, originalName.lastIndexOf('.'))
       : originalName;
       
-    link.download = `${nameWithoutExtension}-upscaled.${extension}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadImage(upscaledImage, `${nameWithoutExtension}-upscaled.${extension}`, { source: originalImage }).catch(e => setError(getErrorMessage(e)));
   };
 
   return (
@@ -65,7 +78,7 @@ const ImageUpscaler: React.FC = () => {
       {/* Top Controls */}
       <div className="w-full max-w-md bg-gray-800 rounded-xl p-6 shadow-lg">
         <h2 className="text-xl font-semibold text-white mb-4">1. Upload Image to Upscale</h2>
-        <ImageUploader onImageUpload={handleImageUpload} image={originalImage} />
+        <ImageUploader lang={lang} onImageUpload={handleImageUpload} image={originalImage} />
       </div>
 
       <button
@@ -85,6 +98,8 @@ const ImageUpscaler: React.FC = () => {
           'Upscale Image'
         )}
       </button>
+      <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} disabled={isLoading} />
+      {isLoading && <CancelButton onClick={handleCancel} className="w-full max-w-md" />}
 
       {error && <div className="w-full max-w-4xl text-center text-red-400 bg-red-900/50 p-3 rounded-lg" role="alert">{error}</div>}
 
@@ -119,6 +134,7 @@ const ImageUpscaler: React.FC = () => {
           </div>
           <ResultDisplay 
             imageSrc={upscaledImage} 
+            originalSrc={originalImage?.base64}
             isLoading={isLoading}
             placeholderText="Your upscaled image will appear here"
             loadingText="Upscaling your image..."
@@ -0,0 +1,177 @@
+import React, { useRef, useState } from 'react';
+import type { ImageFile } from '../types';
+import { isCanvasEmpty } from '../utils/mask';
+
+interface MaskEditorProps {
+  image: ImageFile;
+  // Alpha mask as a PNG data URL, or null when nothing is painted.
+  onChange: (mask: string | null) => void;
+  disabled?: boolean;
+}
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+const TOOLS: { id: MaskTool; label: string }[] = [
+  { id: 'brush', label: 'Brush' },
+  { id: 'eraser', label: 'Eraser' },
+  { id: 'lasso', label: 'Lasso' },
+];
+
+// Painted areas are shown as a translucent red overlay; only the alpha channel matters.
+const MASK_COLOR = '#ef4444';
+
+// The canvas has the image's natural size and is scaled with CSS, so pointer positions
+// and the brush size are converted from screen pixels to image pixels.
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, onChange, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(30);
+  const [lassoPoints, setLassoPoints] = useState<{ x: number; y: number }[]>([]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const getContext = () => canvasRef.current?.getContext('2d') ?? null;
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const emitMask = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    onChange(isCanvasEmpty(canvas) ? null : canvas.toDataURL('image/png'));
+  };
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    setSize({ width: naturalWidth, height: naturalHeight });
+    onChange(null);
+  };
+
+  const strokeTo = (x: number, y: number, scale: number) => {
+    const ctx = getContext();
+    if (!ctx || !lastPoint.current) return;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(lastPoint.current.x, lastPoint.current.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPoint.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y, scale } = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      setLassoPoints([{ x, y }]);
+      return;
+    }
+    lastPoint.current = { x, y };
+    strokeTo(x, y, scale);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    if (tool === 'lasso') setLassoPoints(points => [...points, { x, y }]);
+    else strokeTo(x, y, scale);
+  };
+
+  const handlePointerUp = () => {
+    if (disabled) return;
+    if (tool === 'lasso') {
+      const ctx = getContext();
+      if (ctx && lassoPoints.length > 2) {
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.fillStyle = MASK_COLOR;
+        ctx.beginPath();
+        lassoPoints.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+        ctx.closePath();
+        ctx.fill();
+      }
+      setLassoPoints([]);
+    }
+    lastPoint.current = null;
+    emitMask();
+  };
+
+  const handleClear = () => {
+    const ctx = getContext();
+    if (!ctx) return;
+    ctx.clearRect(0, 0, size.width, size.height);
+    onChange(null);
+  };
+
+  const handleInvert = () => {
+    const ctx = getContext();
+    if (!ctx) return;
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.fillRect(0, 0, size.width, size.height);
+    ctx.globalCompositeOperation = 'source-over';
+    emitMask();
+  };
+
+  const toolClass = (id: MaskTool) =>
+    tool === id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(({ id, label }) => (
+          <button key={id} onClick={() => setTool(id)} disabled={disabled} className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${toolClass(id)}`}>
+            {label}
+          </button>
+        ))}
+        {tool !== 'lasso' && (
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Size
+            <input type="range" min="5" max="120" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} disabled={disabled} className="w-24" />
+          </label>
+        )}
+        <div className="flex-grow" />
+        <button onClick={handleInvert} disabled={disabled} className="px-3 py-1.5 text-sm bg-gray-700 text-gray-300 rounded-md hover:bg-gray-600">Invert</button>
+        <button onClick={handleClear} disabled={disabled} className="px-3 py-1.5 text-sm bg-gray-700 text-gray-300 rounded-md hover:bg-gray-600">Clear</button>
+      </div>
+      <div className="relative rounded-lg overflow-hidden bg-gray-900 select-none">
+        <img src={image.base64} alt="Mask source" onLoad={handleImageLoad} className="block w-full h-auto" draggable={false} />
+        <canvas
+          key={image.base64}
+          ref={canvasRef}
+          width={size.width}
+          height={size.height}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+        />
+        {lassoPoints.length > 1 && (
+          <svg viewBox={`0 0 ${size.width} ${size.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+            <polyline
+              points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="rgba(239, 68, 68, 0.25)"
+              stroke={MASK_COLOR}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">Paint over the area to change. Everything outside the mask stays exactly as in the original.</p>
+    </div>
+  );
+};
+
+export default MaskEditor;
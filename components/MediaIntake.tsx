@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageFile } from '../types';
+import { captureVideoFrame, checkFile, describeIntakeError, fetchImageFile, IMAGE_ACCEPT, isVideoFile, prepareImages, readClipboardImages } from '../utils/intake';
+import { getDroppedFiles } from '../utils/fileDrop';
+import { getSharedImage, subscribeSharedImage } from '../services/sharedImage';
+import { translations, Language } from '../translations';
+
+interface MediaIntakeProps {
+  lang: Language;
+  onImages: (images: ImageFile[]) => void;
+  // When set, videos are accepted as well and handed over as they are.
+  onVideo?: (file: File) => void;
+  multiple?: boolean;
+  disabled?: boolean;
+  // Classes for the clickable drop zone that wraps the children.
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Ctrl+V goes to the intake the pointer or focus was last on, or else the first one on screen.
+const mountedIntakes: number[] = [];
+let lastActiveIntake: number | null = null;
+let nextIntakeId = 0;
+
+const pasteTarget = () =>
+  lastActiveIntake !== null && mountedIntakes.includes(lastActiveIntake) ? lastActiveIntake : mountedIntakes[0];
+
+const actionClass = 'px-2 py-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:hover:bg-transparent';
+
+type IntakeStrings = typeof translations.en.intake;
+
+interface WebcamCaptureProps {
+  t: IntakeStrings;
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+const WebcamCapture: React.FC<WebcamCaptureProps> = ({ t, onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(t.cameraUnsupported);
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let active = true;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'user' } })
+      .then(opened => {
+        if (!active) return opened.getTracks().forEach(track => track.stop());
+        stream = opened;
+        if (videoRef.current) videoRef.current.srcObject = opened;
+      })
+      .catch(() => active && setError(t.cameraFailed));
+    return () => {
+      active = false;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const handleCapture = async () => {
+    if (!videoRef.current) return;
+    try {
+      onCapture(await captureVideoFrame(videoRef.current, `webcam-${Date.now()}.jpg`));
+      onClose();
+    } catch {
+      setError(t.captureFailed);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-lg p-4 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="aspect-video bg-black rounded-lg overflow-hidden flex items-center justify-center">
+          {error ? (
+            <p className="p-4 text-center text-sm text-red-400">{error}</p>
+          ) : (
+            <video ref={videoRef} autoPlay playsInline muted onLoadedMetadata={() => setIsReady(true)} className="w-full h-full object-contain" />
+          )}
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors">{t.cancel}</button>
+          <button
+            onClick={handleCapture}
+            disabled={!isReady || !!error}
+            className="px-4 py-2 text-sm font-bold bg-lime-500 text-gray-900 rounded-lg hover:bg-lime-400 transition-colors disabled:opacity-50"
+          >
+            {t.takePhoto}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// The one way images enter a tab: click to pick, drag and drop, Ctrl+V or the Paste button,
+// import from a URL, a webcam photo, or the image another tool shared. Every file is checked
+// and prepared by utils/intake.
+const MediaIntake: React.FC<MediaIntakeProps> = ({ lang, onImages, onVideo, multiple = false, disabled = false, className = '', children }) => {
+  const [id] = useState(() => ++nextIntakeId);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [showUrl, setShowUrl] = useState(false);
+  const [url, setUrl] = useState('');
+  const [showCamera, setShowCamera] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sharedImage, setSharedImage] = useState(getSharedImage);
+
+  const t = translations[lang].intake;
+  const describe = (err: unknown) => describeIntakeError(err, t);
+
+  useEffect(() => subscribeSharedImage(() => setSharedImage(getSharedImage())), []);
+
+  const handleFiles = async (files: File[]) => {
+    if (disabled || files.length === 0) return;
+    setError(null);
+    const picked = multiple ? files : files.slice(0, 1);
+    if (onVideo && isVideoFile(picked[0])) {
+      try {
+        checkFile(picked[0], true);
+        onVideo(picked[0]);
+      } catch (err) {
+        setError(describe(err));
+      }
+      return;
+    }
+    setIsBusy(true);
+    const images: ImageFile[] = [];
+    const errors: string[] = [];
+    for (const file of picked) {
+      try {
+        images.push(...(await prepareImages(file, multiple)));
+      } catch (err) {
+        errors.push(describe(err));
+      }
+    }
+    setIsBusy(false);
+    if (errors.length > 0) setError(errors.join(' '));
+    if (images.length > 0) onImages(multiple ? images : images.slice(0, 1));
+  };
+
+  // The paste listener lives on the document, so it calls the latest handler through a ref.
+  const handleFilesRef = useRef(handleFiles);
+  handleFilesRef.current = handleFiles;
+
+  useEffect(() => {
+    mountedIntakes.push(id);
+    const handlePaste = (e: ClipboardEvent) => {
+      if (pasteTarget() !== id || (e.target as HTMLElement | null)?.closest?.('input, textarea, [contenteditable="true"]')) return;
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.length === 0) return;
+      e.preventDefault();
+      handleFilesRef.current(files);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('paste', handlePaste);
+      mountedIntakes.splice(mountedIntakes.indexOf(id), 1);
+    };
+  }, [id]);
+
+  const activate = () => {
+    lastActiveIntake = id;
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(event.target.files ?? []));
+    // Allow picking the same file again after removing it.
+    event.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(await getDroppedFiles(e.dataTransfer));
+  };
+
+  const handlePasteClick = async () => {
+    activate();
+    try {
+      handleFiles(await readClipboardImages());
+    } catch (err) {
+      setError(describe(err));
+    }
+  };
+
+  const handleUrlSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const file = await fetchImageFile(url);
+      setUrl('');
+      setShowUrl(false);
+      await handleFiles([file]);
+    } catch (err) {
+      setError(describe(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || (e.key !== 'Enter' && e.key !== ' ')) return;
+    e.preventDefault();
+    inputRef.current?.click();
+  };
+
+  return (
+    <div onPointerEnter={activate} onFocus={activate}>
+      <input
+        type="file"
+        ref={inputRef}
+        onChange={handleInputChange}
+        accept={onVideo ? `${IMAGE_ACCEPT},video/*` : IMAGE_ACCEPT}
+        multiple={multiple}
+        disabled={disabled}
+        className="hidden"
+      />
+      <div
+        role="button"
+        tabIndex={disabled ? -1 : 0}
+        aria-disabled={disabled}
+        onClick={() => !disabled && inputRef.current?.click()}
+        onKeyDown={handleKeyDown}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`${className} ${isDragging ? 'ring-2 ring-blue-500' : ''} ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`}
+      >
+        {children}
+      </div>
+      <div className="mt-2 flex flex-wrap items-center justify-center gap-1 text-xs">
+        <button type="button" onClick={handlePasteClick} disabled={disabled || isBusy} className={actionClass}>{t.paste}</button>
+        <button type="button" onClick={() => setShowUrl(prev => !prev)} disabled={disabled || isBusy} className={actionClass}>{t.fromUrl}</button>
+        <button type="button" onClick={() => setShowCamera(true)} disabled={disabled || isBusy} className={actionClass}>{t.camera}</button>
+        {sharedImage && (
+          <button type="button" onClick={() => { setError(null); onImages([sharedImage]); }} disabled={disabled || isBusy} title={sharedImage.name} className={actionClass}>{t.useShared}</button>
+        )}
+        {isBusy && <span className="text-gray-500">{t.loading}</span>}
+      </div>
+      {showUrl && (
+        <form onSubmit={handleUrlSubmit} className="mt-2 flex gap-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/photo.jpg"
+            dir="ltr"
+            className="flex-grow min-w-0 p-2 text-sm bg-gray-900 border border-gray-700 rounded-lg text-gray-200"
+          />
+          <button type="submit" disabled={disabled || isBusy || !url.trim()} className="px-3 py-2 text-sm font-semibold bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50">
+            {t.import}
+          </button>
+        </form>
+      )}
+      {error && <p className="mt-2 text-xs text-center text-red-400" role="alert">{error}</p>}
+      {showCamera && <WebcamCapture t={t} onCapture={(file) => handleFiles([file])} onClose={() => setShowCamera(false)} />}
+    </div>
+  );
+};
+
+export default MediaIntake;
@@ -0,0 +1,33 @@
+import React from 'react';
+import type { ImageMetadata } from '../types';
+import { LocationIcon } from './icons/LocationIcon';
+
+interface MetadataSummaryProps {
+  metadata?: ImageMetadata;
+  className?: string;
+}
+
+// Camera details and GPS position read from an upload's EXIF. Values only, so it needs no translation.
+const MetadataSummary: React.FC<MetadataSummaryProps> = ({ metadata, className = '' }) => {
+  if (!metadata) return null;
+  const { camera, lens, takenAt, aperture, exposure, iso, focalLength, gps } = metadata;
+  const device = [camera, lens].filter(Boolean).join(' · ');
+  const settings = [aperture, exposure, iso ? `ISO ${iso}` : undefined, focalLength].filter(Boolean).join(' · ');
+  if (!device && !settings && !takenAt && !gps) return null;
+
+  return (
+    <div className={`text-xs text-gray-400 space-y-0.5 ${className}`} dir="ltr">
+      {device && <p className="truncate">{device}</p>}
+      {settings && <p>{settings}</p>}
+      {takenAt && <p>{takenAt}</p>}
+      {gps && (
+        <p className="text-amber-400">
+          <LocationIcon className="inline h-3.5 w-3.5 me-1 align-text-bottom" />
+          {gps.latitude.toFixed(5)}, {gps.longitude.toFixed(5)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MetadataSummary;
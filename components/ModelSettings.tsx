@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Capability, CAPABILITIES, DEFAULT_MODELS, getModelAssignments, getModelInfo, modelsFor, resetModels, setModel } from '../services/modelRegistry';
+import { translations, Language } from '../translations';
+
+interface ModelSettingsProps {
+  lang: Language;
+  onClose: () => void;
+}
+
+const CUSTOM = '__custom__';
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ lang, onClose }) => {
+  const [assignments, setAssignments] = useState(getModelAssignments);
+  // Capabilities whose model is being typed in by hand.
+  const [customDrafts, setCustomDrafts] = useState<Partial<Record<Capability, string>>>(() =>
+    Object.fromEntries(
+      CAPABILITIES.filter(c => !modelsFor(c).some(m => m.id === assignments[c])).map(c => [c, assignments[c]])
+    )
+  );
+
+  const t = translations[lang].models;
+
+  const apply = (capability: Capability, modelId: string) => {
+    setModel(capability, modelId);
+    setAssignments(getModelAssignments());
+  };
+
+  const handleSelect = (capability: Capability, value: string) => {
+    if (value === CUSTOM) {
+      setCustomDrafts(prev => ({ ...prev, [capability]: '' }));
+      return;
+    }
+    setCustomDrafts(({ [capability]: _, ...rest }) => rest);
+    apply(capability, value);
+  };
+
+  const commitCustom = (capability: Capability) => {
+    const draft = customDrafts[capability]?.trim();
+    if (draft) apply(capability, draft);
+  };
+
+  const handleReset = () => {
+    resetModels();
+    setCustomDrafts({});
+    setAssignments(getModelAssignments());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start p-6 border-b border-gray-800">
+          <div>
+            <h2 className="text-xl font-bold text-white">{t.title}</h2>
+            <p className="mt-1 text-sm text-gray-400">{t.desc}</p>
+          </div>
+          <button onClick={onClose} className="px-3 py-1 text-sm text-gray-400 hover:text-white">{t.close}</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-6 space-y-5">
+          {CAPABILITIES.map(capability => {
+            const current = assignments[capability];
+            const isCustom = capability in customDrafts;
+            const info = getModelInfo(current);
+            return (
+              <div key={capability}>
+                <label className="block text-sm font-medium text-gray-300 mb-2">{t[capability]}</label>
+                <select
+                  value={isCustom ? CUSTOM : current}
+                  onChange={(e) => handleSelect(capability, e.target.value)}
+                  className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-200"
+                >
+                  {modelsFor(capability).map(model => (
+                    <option key={model.id} value={model.id}>
+                      {model.label} ({model.id}){model.id === DEFAULT_MODELS[capability] ? ` · ${t.default}` : ''}
+                    </option>
+                  ))}
+                  <option value={CUSTOM}>{t.custom}</option>
+                </select>
+                {isCustom && (
+                  <input
+                    type="text"
+                    value={customDrafts[capability]}
+                    onChange={(e) => setCustomDrafts(prev => ({ ...prev, [capability]: e.target.value }))}
+                    onBlur={() => commitCustom(capability)}
+                    onKeyDown={(e) => e.key === 'Enter' && commitCustom(capability)}
+                    placeholder={t.customPlaceholder}
+                    dir="ltr"
+                    className="mt-2 w-full p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-200 font-mono text-sm"
+                  />
+                )}
+                <p className="mt-1 text-xs text-gray-500 font-mono" dir="ltr">
+                  {info
+                    ? `${info.input.join('+')} → ${info.output.join('+')}${info.supportsImageSize ? ' · 4K' : ''}`
+                    : current}
+                  {info?.preview && <span className="ms-2 px-1.5 py-0.5 rounded bg-amber-900/40 text-amber-300 font-sans">{t.preview}</span>}
+                </p>
+                {!info && <p className="text-xs text-amber-400">{t.unknownModel}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-gray-800">
+          <button onClick={handleReset} className="px-4 py-2 text-sm font-semibold bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors">
+            {t.resetAll}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
@@ -2,7 +2,11 @@
 import React, { useState, useRef } from 'react';
 import type { ImageFile } from '../types';
 import { extractPromptFromImage } from '../services/geminiService';
-import ImageUploader from './ImageUploader';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import MediaIntake from './MediaIntake';
+import CancelButton from './CancelButton';
+import BypassCacheToggle from './BypassCacheToggle';
 import { translations, Language } from '../translations';
 import { InfoIcon } from './icons/InfoIcon';
 
@@ -14,33 +18,24 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ lang }) => {
   const [media, setMedia] = useState<ImageFile | { url: string; type: string; name: string } | null>(null);
   const [extractedText, setExtractedText] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [bypassCache, setBypassCache] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isCopied, setIsCopied] = useState<boolean>(false);
   
   const videoRef = useRef<HTMLVideoElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const t = translations[lang].promptExtractor;
+  const { begin, cancel } = useCancellableRequest();
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
+  const handleImages = (images: ImageFile[]) => {
     setError(null);
     setExtractedText('');
+    setMedia(images[0]);
+  };
 
-    if (file.type.startsWith('video/')) {
-        const url = URL.createObjectURL(file);
-        setMedia({ url, type: 'video', name: file.name });
-    } else if (file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const base64 = e.target?.result as string;
-            setMedia({ base64, mimeType: file.type, name: file.name } as ImageFile);
-        };
-        reader.readAsDataURL(file);
-    } else {
-        setError('Unsupported file type. Please upload an image or video.');
-    }
+  const handleVideo = (file: File) => {
+    setError(null);
+    setExtractedText('');
+    setMedia({ url: URL.createObjectURL(file), type: 'video', name: file.name });
   };
 
   const captureFrame = (): ImageFile | null => {
@@ -83,20 +78,27 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ lang }) => {
         return;
     }
 
+    const signal = begin();
     setIsLoading(true);
     setError(null);
     setExtractedText('');
 
     try {
-      const result = await extractPromptFromImage(imageToProcess);
+      const result = await extractPromptFromImage(imageToProcess, { signal, bypassCache, tool: 'promptExtractor' });
       setExtractedText(result);
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'Analysis failed.');
+      if (isCancelled(e)) return;
+      setError(getErrorMessage(e));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    cancel();
+    setIsLoading(false);
+  };
+
   const handleCopy = () => {
     if (!extractedText) return;
     navigator.clipboard.writeText(extractedText);
@@ -122,8 +124,10 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ lang }) => {
              </div>
           </div>
 
-          <div 
-            onClick={() => fileInputRef.current?.click()}
+          <MediaIntake
+            lang={lang}
+            onImages={handleImages}
+            onVideo={handleVideo}
             className="w-full aspect-video bg-gray-900 border-2 border-dashed border-gray-700 rounded-2xl flex items-center justify-center cursor-pointer hover:bg-gray-800 hover:border-blue-500 transition-all overflow-hidden group"
           >
             {media ? (
@@ -146,14 +150,7 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ lang }) => {
                  <p className="font-bold">{t.uploadLabel}</p>
               </div>
             )}
-          </div>
-          <input 
-            type="file" 
-            ref={fileInputRef} 
-            onChange={handleFileSelect} 
-            accept="image/*,video/*" 
-            className="hidden" 
-          />
+          </MediaIntake>
           
           <div className="mt-4 flex gap-3 p-4 bg-gray-900/50 rounded-2xl border border-gray-700/50">
             <InfoIcon className="h-5 w-5 text-gray-500 shrink-0" />
@@ -177,6 +174,8 @@ const PromptExtractor: React.FC<PromptExtractorProps> = ({ lang }) => {
             media && 'url' in media && media.type === 'video' ? t.captureButton : t.buttonLabel
           )}
         </button>
+        <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} label={t.bypassCache} disabled={isLoading} />
+        {isLoading && <CancelButton onClick={handleCancel} label={t.cancel} className="w-full rounded-3xl" />}
 
         {error && <div className="text-center text-red-400 bg-red-900/30 p-4 rounded-2xl border border-red-500/30">{error}</div>}
       </div>
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { cancelJob, clearFinishedJobs, getQueueLimits, moveJob, QueueJob, setQueueLimits } from '../services/requestQueue';
+import { useRequestQueue } from '../hooks/useRequestQueue';
+import { translations, Language, TOOL_TAB_KEYS } from '../translations';
+
+interface QueuePanelProps {
+  lang: Language;
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<QueueJob['status'], string> = {
+  pending: 'bg-gray-700 text-gray-300',
+  running: 'bg-blue-900/50 text-blue-300',
+  done: 'bg-lime-900/40 text-lime-300',
+  failed: 'bg-red-900/50 text-red-300',
+  cancelled: 'bg-gray-800 text-gray-500',
+};
+
+// Header button; owns the queue subscription so the rest of the app doesn't re-render on every job update.
+export const QueueButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => {
+  const active = useRequestQueue().filter(job => job.status === 'pending' || job.status === 'running').length;
+  return (
+    <button
+      onClick={onClick}
+      className="px-3 py-1 bg-gray-800 border border-gray-700 rounded text-xs font-bold text-gray-300 hover:bg-gray-700"
+    >
+      {label}
+      {active > 0 && <span className="ms-1.5 px-1.5 rounded-full bg-blue-600 text-white">{active}</span>}
+    </button>
+  );
+};
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ lang, onClose }) => {
+  const jobs = useRequestQueue();
+  const [limits, setLimits] = useState(getQueueLimits);
+
+  const t = translations[lang].queue;
+  const tabs = translations[lang].tabs;
+
+  const running = jobs.filter(job => job.status === 'running');
+  const pending = jobs.filter(job => job.status === 'pending');
+  const finished = jobs.filter(job => job.finishedAt).reverse();
+
+  const handleLimitChange = (field: 'concurrency' | 'requestsPerMinute', value: string) => {
+    const next = { ...limits, [field]: parseInt(value, 10) || 1 };
+    setQueueLimits(next);
+    setLimits(getQueueLimits());
+  };
+
+  const statusLabel = (job: QueueJob) => (job.status === 'pending' ? t.pending : job.status === 'running' ? t.running : t[job.status]);
+
+  const renderJob = (job: QueueJob, index?: number) => (
+    <div key={job.id} className="flex items-center gap-3 bg-gray-800 rounded-lg p-3">
+      <span className={`px-2 py-0.5 rounded text-xs font-semibold ${STATUS_CLASSES[job.status]}`}>{statusLabel(job)}</span>
+      <div className="flex-grow min-w-0">
+        <p className="text-sm text-gray-200 truncate">{TOOL_TAB_KEYS[job.tool] ? tabs[TOOL_TAB_KEYS[job.tool]] : job.tool}</p>
+        <p className="text-xs text-gray-500 font-mono truncate" dir="ltr">{job.model}</p>
+        {job.error && <p className="text-xs text-red-400 truncate" title={job.error}>{job.error}</p>}
+      </div>
+      {index !== undefined && (
+        <>
+          <button onClick={() => moveJob(job.id, -1)} disabled={index === 0} className="px-2 py-1 text-xs text-gray-400 hover:text-white disabled:opacity-30" aria-label={t.moveUp} title={t.moveUp}>▲</button>
+          <button onClick={() => moveJob(job.id, 1)} disabled={index === pending.length - 1} className="px-2 py-1 text-xs text-gray-400 hover:text-white disabled:opacity-30" aria-label={t.moveDown} title={t.moveDown}>▼</button>
+        </>
+      )}
+      {(job.status === 'pending' || job.status === 'running') && (
+        <button onClick={() => cancelJob(job.id)} className="px-3 py-1 text-xs bg-gray-700 text-gray-300 rounded-md hover:bg-red-700 hover:text-white transition-colors">
+          {t.cancel}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start p-6 border-b border-gray-800">
+          <div>
+            <h2 className="text-xl font-bold text-white">{t.title}</h2>
+            <p className="mt-1 text-sm text-gray-400">{t.desc}</p>
+          </div>
+          <button onClick={onClose} className="px-3 py-1 text-sm text-gray-400 hover:text-white">{t.close}</button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 px-6 pt-6">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">{t.concurrency}</label>
+            <input type="number" min="1" value={limits.concurrency} onChange={(e) => handleLimitChange('concurrency', e.target.value)} className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-200" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">{t.rpm}</label>
+            <input type="number" min="1" value={limits.requestsPerMinute} onChange={(e) => handleLimitChange('requestsPerMinute', e.target.value)} className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-200" />
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-6 space-y-6">
+          {jobs.length === 0 && <p className="text-center text-gray-500">{t.empty}</p>}
+          {running.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-300">{t.running} ({running.length})</h3>
+              {running.map(job => renderJob(job))}
+            </section>
+          )}
+          {pending.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-300">{t.pending} ({pending.length})</h3>
+              {pending.map((job, index) => renderJob(job, index))}
+            </section>
+          )}
+          {finished.length > 0 && (
+            <section className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-semibold text-gray-300">{t.finished}</h3>
+                <button onClick={clearFinishedJobs} className="text-xs text-gray-400 hover:text-white">{t.clearFinished}</button>
+              </div>
+              {finished.map(job => renderJob(job))}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QueuePanel;
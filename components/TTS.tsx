@@ -1,5 +1,10 @@
 import React, { useState } from 'react';
 import { generateSpeech } from '../services/geminiService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from './CancelButton';
+import BypassCacheToggle from './BypassCacheToggle';
+import { pcmToWav } from '../utils/wav';
 import { PlayIcon } from './icons/PlayIcon';
 
 const voices = ['Kore', 'Puck', 'Charon', 'Zephyr', 'Fenrir'];
@@ -23,9 +28,12 @@ const TTS: React.FC = () => {
   const [selectedVoice, setSelectedVoice] = useState(voices[0]);
   const [selectedLanguage, setSelectedLanguage] = useState(languages[0].value);
   const [isLoading, setIsLoading] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
   const [isPreviewing, setIsPreviewing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const { begin, cancel } = useCancellableRequest();
+  const preview = useCancellableRequest();
 
   const createWavUrl = (base64PcmData: string): string => {
     // Decode base64 string to a Uint8Array
@@ -35,47 +43,7 @@ const TTS: React.FC = () => {
     for (let i = 0; i < len; i++) {
       bytes[i] = binaryString.charCodeAt(i);
     }
-    const pcmData = bytes;
-  
-    // WAV file header parameters
-    const sampleRate = 24000;
-    const numChannels = 1;
-    const bitsPerSample = 16;
-    const dataSize = pcmData.length;
-    const blockAlign = (numChannels * bitsPerSample) / 8;
-    const byteRate = sampleRate * blockAlign;
-  
-    // Create the full WAV file buffer
-    const buffer = new ArrayBuffer(44 + dataSize);
-    const view = new DataView(buffer);
-  
-    const writeString = (view: DataView, offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-  
-    // RIFF header
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + dataSize, true);
-    writeString(view, 8, 'WAVE');
-    // fmt chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true); // PCM format
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitsPerSample, true);
-    // data chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
-  
-    // Write PCM data
-    new Uint8Array(buffer, 44).set(pcmData);
-  
-    const blob = new Blob([view], { type: 'audio/wav' });
+    const blob = new Blob([pcmToWav(bytes)], { type: 'audio/wav' });
     return URL.createObjectURL(blob);
   };
 
@@ -88,7 +56,7 @@ const TTS: React.FC = () => {
     try {
         const previewText = "Hello! I can read any text you want.";
         // Force English for the preview to ensure the text makes sense
-        const base64Audio = await generateSpeech(previewText, selectedVoice, 'English');
+        const base64Audio = await generateSpeech(previewText, selectedVoice, 'English', { signal: preview.begin(), tool: 'tts' });
         const url = createWavUrl(base64Audio);
         
         const audio = new Audio(url);
@@ -107,22 +75,29 @@ const TTS: React.FC = () => {
       setError('Please enter some text to generate speech.');
       return;
     }
+    const signal = begin();
     setIsLoading(true);
     setError(null);
     setAudioUrl(null);
     try {
-      const base64Audio = await generateSpeech(text, selectedVoice, selectedLanguage);
+      const base64Audio = await generateSpeech(text, selectedVoice, selectedLanguage, { signal, bypassCache, tool: 'tts' });
       const url = createWavUrl(base64Audio);
       setAudioUrl(url);
     } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      if (isCancelled(e)) return;
+      const errorMessage = getErrorMessage(e);
       setError(`Speech generation failed: ${errorMessage}`);
       console.error(e);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    cancel();
+    setIsLoading(false);
+  };
+
   return (
     <div className="max-w-2xl mx-auto bg-gray-800 rounded-xl p-6 shadow-lg">
       <h2 className="text-2xl font-bold text-white mb-4">Text-to-Speech</h2>
@@ -211,6 +186,8 @@ const TTS: React.FC = () => {
             'Generate Speech'
           )}
         </button>
+        <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} disabled={isLoading} />
+        {isLoading && <CancelButton onClick={handleCancel} className="w-full" />}
         {error && <div className="text-center text-red-400 bg-red-900/50 p-3 rounded-lg" role="alert">{error}</div>}
         {audioUrl && (
           <div className="mt-6">
@@ -0,0 +1,366 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { ImageFile } from '../types';
+import type { Language } from '../translations';
+import { getWatermark, saveWatermark, setWatermarkEnabled } from '../services/watermark';
+import {
+  createLogoLayer,
+  createTextLayer,
+  CustomFont,
+  FONT_CHOICES,
+  getTextDirection,
+  LogoLayer,
+  OverlayLayer,
+  readFontFile,
+  renderOverlay,
+  TextAlign,
+  TextLayer,
+  withNewIds,
+} from '../utils/overlay';
+import { stripExtension } from '../utils/imageFile';
+import { downloadImage } from '../utils/download';
+import ImageUploader from './ImageUploader';
+import { DownloadIcon } from './icons/DownloadIcon';
+
+interface TextOverlayProps {
+  lang: Language;
+}
+
+const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', fa: 'فارسی', ar: 'العربية', ku: 'کوردی' };
+
+const ALIGN_OPTIONS: { id: TextAlign; label: string }[] = [
+  { id: 'start', label: 'Start' },
+  { id: 'center', label: 'Center' },
+  { id: 'end', label: 'End' },
+];
+
+const RENDER_DELAY_MS = 100;
+
+// Stand-in canvas so a watermark can be designed before any image is uploaded.
+const createPlaceholder = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1200;
+  canvas.height = 800;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, '#4b5563');
+  gradient.addColorStop(1, '#1f2937');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step?: number; onChange: (value: number) => void }> = ({ label, value, min, max, step = 1, onChange }) => (
+  <label className="block text-sm text-gray-400">
+    <span className="flex justify-between">
+      {label}
+      <span className="text-gray-300 tabular-nums">{value}</span>
+    </span>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full" />
+  </label>
+);
+
+const TextOverlay: React.FC<TextOverlayProps> = ({ lang }) => {
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const placeholder = useMemo(createPlaceholder, []);
+  const [image, setImage] = useState<ImageFile | null>(null);
+  const [layers, setLayers] = useState<OverlayLayer[]>(() => [createTextLayer(lang)]);
+  const [selectedId, setSelectedId] = useState<number | null>(() => layers[0]?.id ?? null);
+  const [fonts, setFonts] = useState<CustomFont[]>(() => getWatermark().fonts);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [watermarkEnabled, setWatermarkEnabledState] = useState(() => getWatermark().enabled);
+  const [hasWatermark, setHasWatermark] = useState(() => getWatermark().layers.length > 0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = image?.base64 ?? placeholder;
+  const selected = layers.find(layer => layer.id === selectedId) ?? null;
+
+  useEffect(() => {
+    let active = true;
+    const timer = setTimeout(() => {
+      renderOverlay(base, layers, fonts)
+        .then(result => active && setPreview(result))
+        .catch(e => {
+          console.error(e);
+          if (active) setError('Could not draw the layers.');
+        });
+    }, RENDER_DELAY_MS);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [base, layers, fonts]);
+
+  const updateLayer = (id: number, changes: Partial<TextLayer> | Partial<LogoLayer>) =>
+    setLayers(prev => prev.map(layer => (layer.id === id ? ({ ...layer, ...changes } as OverlayLayer) : layer)));
+
+  const addLayer = (layer: OverlayLayer) => {
+    setLayers(prev => [...prev, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const removeLayer = (id: number) => {
+    setLayers(prev => prev.filter(layer => layer.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  // Layers are drawn in list order, so moving one down the list brings it forward.
+  const moveLayer = (id: number, by: -1 | 1) =>
+    setLayers(prev => {
+      const index = prev.findIndex(layer => layer.id === id);
+      const target = index + by;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      addLayer(createLogoLayer(await readAsDataUrl(file), file.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the logo.');
+    }
+  };
+
+  const handleFontChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const font = await readFontFile(file);
+      setFonts(prev => [...prev.filter(f => f.family !== font.family), font]);
+      if (selected?.kind === 'text') updateLayer(selected.id, { font: font.family });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the font.');
+    }
+  };
+
+  // Dragging on the preview moves the selected layer's anchor point.
+  const handlePointerPosition = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!selected || (e.type === 'pointermove' && !e.currentTarget.hasPointerCapture(e.pointerId))) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    updateLayer(selected.id, { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) });
+  };
+
+  const handleSaveWatermark = () => {
+    const usedFonts = fonts.filter(font => layers.some(layer => layer.kind === 'text' && layer.font === font.family));
+    const saved = saveWatermark({ enabled: watermarkEnabled, layers, fonts: usedFonts });
+    setHasWatermark(layers.length > 0);
+    setError(null);
+    setNotice(saved ? 'Watermark saved.' : 'Watermark set for this session only; it is too large to keep. Try a smaller logo or font.');
+  };
+
+  const handleLoadWatermark = () => {
+    const watermark = getWatermark();
+    const loaded = withNewIds(watermark.layers);
+    setLayers(loaded);
+    setSelectedId(loaded[0]?.id ?? null);
+    setFonts(prev => [...prev.filter(f => !watermark.fonts.some(w => w.family === f.family)), ...watermark.fonts]);
+    setNotice(null);
+  };
+
+  const handleToggleWatermark = (enabled: boolean) => {
+    setWatermarkEnabled(enabled);
+    setWatermarkEnabledState(enabled);
+  };
+
+  const handleSaveImage = () => {
+    if (!image || !preview) return;
+    const extension = image.mimeType.split('/')[1] || 'png';
+    downloadImage(preview, `${stripExtension(image.name)}-text.${extension}`, { source: image }).catch(err => setError(err instanceof Error ? err.message : 'Could not save the image.'));
+  };
+
+  const layerLabel = (layer: OverlayLayer) =>
+    layer.kind === 'logo' ? `Logo: ${layer.name}` : layer.text.trim().split('\n')[0] || 'Empty text';
+
+  const smallButton = 'px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+  const inputClass = 'w-full p-2 bg-gray-700 border-2 border-gray-600 rounded-lg text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-12">
+      {/* Controls Column */}
+      <div className="flex flex-col space-y-8">
+        <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+          <h2 className="text-xl font-semibold text-white mb-4">1. Upload Image</h2>
+          <ImageUploader lang={lang} onImageUpload={setImage} image={image} />
+          {!image && <p className="mt-3 text-xs text-gray-500">You can also design a watermark on the blank canvas without an image.</p>}
+        </div>
+
+        <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+          <h2 className="text-xl font-semibold text-white mb-4">2. Layers</h2>
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button onClick={() => addLayer(createTextLayer(lang))} className={smallButton}>Add Text</button>
+            <button onClick={() => logoInputRef.current?.click()} className={smallButton}>Add Logo</button>
+            <button onClick={() => fontInputRef.current?.click()} className={smallButton}>Upload Font</button>
+            <input ref={logoInputRef} type="file" accept="image/png,image/svg+xml,image/webp,image/jpeg" onChange={handleLogoChange} className="hidden" />
+            <input ref={fontInputRef} type="file" accept=".ttf,.otf,.woff,.woff2" onChange={handleFontChange} className="hidden" />
+          </div>
+          {layers.length === 0 ? (
+            <p className="text-sm text-gray-500">No layers yet.</p>
+          ) : (
+            <ol className="space-y-1">
+              {layers.map((layer, i) => (
+                <li key={layer.id} className={`flex items-center gap-2 p-1.5 rounded-md ${layer.id === selectedId ? 'bg-blue-600/30 ring-1 ring-blue-500' : 'hover:bg-gray-700/60'}`}>
+                  <button
+                    onClick={() => setSelectedId(layer.id)}
+                    dir={layer.kind === 'text' ? getTextDirection(layer.language) : undefined}
+                    className="flex-grow text-sm text-gray-200 truncate text-start"
+                  >
+                    {layerLabel(layer)}
+                  </button>
+                  <button onClick={() => moveLayer(layer.id, -1)} disabled={i === 0} className="px-2 text-gray-400 hover:text-white disabled:opacity-30" title="Move back">↑</button>
+                  <button onClick={() => moveLayer(layer.id, 1)} disabled={i === layers.length - 1} className="px-2 text-gray-400 hover:text-white disabled:opacity-30" title="Bring forward">↓</button>
+                  <button onClick={() => removeLayer(layer.id)} className="px-2 text-gray-400 hover:text-red-400" title="Remove layer">✕</button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {selected?.kind === 'text' && (
+          <div className="bg-gray-800 rounded-xl p-6 shadow-lg space-y-4">
+            <h2 className="text-xl font-semibold text-white">3. Text</h2>
+            <textarea
+              value={selected.text}
+              onChange={(e) => updateLayer(selected.id, { text: e.target.value })}
+              dir={getTextDirection(selected.language)}
+              placeholder="Caption or watermark text"
+              className={`${inputClass} h-24`}
+              aria-label="Overlay text"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm text-gray-400">
+                Language
+                <select value={selected.language} onChange={(e) => updateLayer(selected.id, { language: e.target.value as Language })} className={inputClass}>
+                  {(Object.keys(LANGUAGE_NAMES) as Language[]).map(l => (
+                    <option key={l} value={l}>{LANGUAGE_NAMES[l]} ({getTextDirection(l).toUpperCase()})</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm text-gray-400">
+                Font
+                <select value={selected.font} onChange={(e) => updateLayer(selected.id, { font: e.target.value })} className={inputClass}>
+                  {[...FONT_CHOICES, ...fonts.map(font => font.family)].map(family => (
+                    <option key={family} value={family}>{family}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex gap-1">
+                {ALIGN_OPTIONS.map(({ id, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => updateLayer(selected.id, { align: id })}
+                    className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${selected.align === id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                <input type="checkbox" checked={selected.bold} onChange={(e) => updateLayer(selected.id, { bold: e.target.checked })} className="w-4 h-4 bg-gray-700 border-gray-600 rounded text-blue-500" />
+                Bold
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                Color
+                <input type="color" value={selected.color} onChange={(e) => updateLayer(selected.id, { color: e.target.value })} className="w-10 h-8 bg-transparent" />
+              </label>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+              <Slider label="Size" value={selected.size} min={1} max={25} step={0.5} onChange={size => updateLayer(selected.id, { size })} />
+              <Slider label="Opacity" value={selected.opacity} min={0.1} max={1} step={0.05} onChange={opacity => updateLayer(selected.id, { opacity })} />
+              <div className="flex items-end gap-2">
+                <div className="flex-grow">
+                  <Slider label="Stroke" value={selected.strokeWidth} min={0} max={30} onChange={strokeWidth => updateLayer(selected.id, { strokeWidth })} />
+                </div>
+                <input type="color" value={selected.strokeColor} onChange={(e) => updateLayer(selected.id, { strokeColor: e.target.value })} className="w-10 h-8 bg-transparent" aria-label="Stroke color" />
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="flex-grow">
+                  <Slider label="Shadow" value={selected.shadowBlur} min={0} max={50} onChange={shadowBlur => updateLayer(selected.id, { shadowBlur })} />
+                </div>
+                <input type="color" value={selected.shadowColor} onChange={(e) => updateLayer(selected.id, { shadowColor: e.target.value })} className="w-10 h-8 bg-transparent" aria-label="Shadow color" />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {selected?.kind === 'logo' && (
+          <div className="bg-gray-800 rounded-xl p-6 shadow-lg space-y-4">
+            <h2 className="text-xl font-semibold text-white">3. Logo</h2>
+            <Slider label="Width (%)" value={selected.width} min={2} max={80} onChange={width => updateLayer(selected.id, { width })} />
+            <Slider label="Opacity" value={selected.opacity} min={0.1} max={1} step={0.05} onChange={opacity => updateLayer(selected.id, { opacity })} />
+          </div>
+        )}
+
+        <div className="bg-gray-800 rounded-xl p-6 shadow-lg space-y-4">
+          <h2 className="text-xl font-semibold text-white">Watermark</h2>
+          <p className="text-sm text-gray-400">Save these layers as your watermark to stamp them on every image you download, from any tab.</p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={handleSaveWatermark} disabled={layers.length === 0} className={smallButton}>Save as Watermark</button>
+            <button onClick={handleLoadWatermark} disabled={!hasWatermark} className={smallButton}>Edit Saved Watermark</button>
+          </div>
+          <label className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={watermarkEnabled}
+              onChange={(e) => handleToggleWatermark(e.target.checked)}
+              disabled={!hasWatermark}
+              className="w-4 h-4 bg-gray-700 border-gray-600 rounded text-blue-500 focus:ring-blue-500"
+            />
+            Apply the watermark to all downloads
+          </label>
+          {notice && <p className="text-sm text-gray-400">{notice}</p>}
+        </div>
+        {error && <div className="text-center text-red-400 bg-red-900/50 p-3 rounded-lg" role="alert">{error}</div>}
+      </div>
+
+      {/* Preview Column */}
+      <div className="flex flex-col">
+        <div className="bg-gray-800 rounded-xl p-6 shadow-lg flex-grow">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-white">Preview</h2>
+            {image && preview && (
+              <button
+                onClick={handleSaveImage}
+                className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition-colors flex items-center space-x-2"
+                aria-label="Save image"
+              >
+                <DownloadIcon className="h-5 w-5" />
+                <span>Save Image</span>
+              </button>
+            )}
+          </div>
+          {preview && (
+            <div
+              onPointerDown={handlePointerPosition}
+              onPointerMove={handlePointerPosition}
+              className={`relative select-none touch-none rounded-lg overflow-hidden ${selected ? 'cursor-move' : ''}`}
+            >
+              <img src={preview} alt="Preview" className="block w-full h-auto" draggable={false} />
+            </div>
+          )}
+          <p className="mt-2 text-xs text-gray-500">Drag on the preview to move the selected layer.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextOverlay;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { BudgetLimits, clearUsage, getBudgetLimits, getUsage, setBudgetLimits, sumUsage, toDayKey, UsageBucket, UsageTotals } from '../services/usage';
+import { formatUsd } from '../services/pricing';
+import { translations, Language, TOOL_TAB_KEYS } from '../translations';
+
+interface UsageDashboardProps {
+  lang: Language;
+}
+
+type Range = 'today' | 'last7' | 'last30' | 'all';
+
+const daysAgo = (days: number) => toDayKey(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+const sinceDayFor = (range: Range): string | undefined => {
+  switch (range) {
+    case 'today': return toDayKey();
+    case 'last7': return daysAgo(6);
+    case 'last30': return daysAgo(29);
+    default: return undefined;
+  }
+};
+
+const groupBy = (buckets: UsageBucket[], key: (bucket: UsageBucket) => string): [string, UsageTotals][] => {
+  const groups = new Map<string, UsageBucket[]>();
+  buckets.forEach(bucket => groups.set(key(bucket), [...(groups.get(key(bucket)) || []), bucket]));
+  return Array.from(groups, ([name, list]) => [name, sumUsage(list)] as [string, UsageTotals])
+    .sort((a, b) => (b[1].costUsd ?? Infinity) - (a[1].costUsd ?? Infinity) || b[1].requests - a[1].requests);
+};
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ lang }) => {
+  const [range, setRange] = useState<Range>('today');
+  const [buckets, setBuckets] = useState<UsageBucket[]>(() => getUsage());
+  const [limits, setLimits] = useState<BudgetLimits>(getBudgetLimits);
+  // Raw input text, so partially typed values like "0." are not reformatted away.
+  const [limitInputs, setLimitInputs] = useState(() => ({
+    dailyUsd: limits.dailyUsd?.toString() ?? '',
+    monthlyUsd: limits.monthlyUsd?.toString() ?? '',
+  }));
+
+  const t = translations[lang].usage;
+  const tabs = translations[lang].tabs;
+
+  const sinceDay = sinceDayFor(range);
+  const inRange = buckets.filter(bucket => !sinceDay || bucket.day >= sinceDay);
+  const totals = sumUsage(inRange);
+  const today = sumUsage(buckets.filter(bucket => bucket.day === toDayKey()));
+  const thisMonth = sumUsage(buckets.filter(bucket => bucket.day >= `${toDayKey().slice(0, 7)}-01`));
+
+  const handleLimitChange = (field: keyof BudgetLimits, value: string) => {
+    setLimitInputs(prev => ({ ...prev, [field]: value }));
+    const next = { ...limits, [field]: parseLimit(value) };
+    setLimits(next);
+    setBudgetLimits(next);
+  };
+
+  const handleReset = () => {
+    clearUsage();
+    setBuckets([]);
+  };
+
+  const costLabel = (totals: UsageTotals) => (totals.costUsd === null ? t.unknownPrice : formatUsd(totals.costUsd));
+
+  const renderTable = (title: string, rows: [string, UsageTotals][], label: (name: string) => string) => (
+    <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+      <h3 className="text-lg font-semibold text-white mb-4">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-500 text-start">
+            <th className="py-2 text-start font-medium"></th>
+            <th className="py-2 text-end font-medium">{t.requests}</th>
+            <th className="py-2 text-end font-medium">{t.inputTokens}</th>
+            <th className="py-2 text-end font-medium">{t.outputTokens}</th>
+            <th className="py-2 text-end font-medium">{t.cost}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([name, row]) => (
+            <tr key={name} className="border-t border-gray-700 text-gray-300">
+              <td className="py-2 font-mono text-xs">{label(name)}</td>
+              <td className="py-2 text-end">{row.requests.toLocaleString(lang)}</td>
+              <td className="py-2 text-end">{row.inputTokens.toLocaleString(lang)}</td>
+              <td className="py-2 text-end">{row.outputTokens.toLocaleString(lang)}</td>
+              <td className="py-2 text-end">{costLabel(row)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderBudget = (field: keyof BudgetLimits, label: string, spent: UsageTotals) => {
+    const limit = limits[field];
+    const ratio = limit && spent.costUsd !== null ? Math.min(spent.costUsd / limit, 1) : 0;
+    return (
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">{label}</label>
+        <input
+          type="number"
+          min="0"
+          step="0.5"
+          value={limitInputs[field]}
+          placeholder={t.noLimit}
+          onChange={(e) => handleLimitChange(field, e.target.value)}
+          className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-200"
+        />
+        {limit !== null && (
+          <div className="mt-2">
+            <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+              <div className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-lime-500'}`} style={{ width: `${ratio * 100}%` }} />
+            </div>
+            <p className="mt-1 text-xs text-gray-400">{costLabel(spent)} {t.spent} / {formatUsd(limit)}</p>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-end gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">{t.title}</h2>
+          <p className="mt-1 text-sm text-gray-400">{t.desc}</p>
+        </div>
+        <div className="flex gap-2">
+          {(['today', 'last7', 'last30', 'all'] as Range[]).map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${range === r ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+            >
+              {t[r]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          [t.requests, totals.requests.toLocaleString(lang)],
+          [t.inputTokens, totals.inputTokens.toLocaleString(lang)],
+          [t.outputTokens, totals.outputTokens.toLocaleString(lang)],
+          [t.cost, costLabel(totals)],
+        ].map(([label, value]) => (
+          <div key={label} className="bg-gray-800 rounded-xl p-4 shadow-lg">
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className="mt-1 text-2xl font-bold text-white">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {inRange.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">{t.empty}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {renderTable(t.byTool, groupBy(inRange, b => b.tool), name => (TOOL_TAB_KEYS[name] ? tabs[TOOL_TAB_KEYS[name]] : name))}
+          {renderTable(t.byModel, groupBy(inRange, b => (b.provider === 'mock' ? `${b.model} (mock)` : b.model)), name => name)}
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+        <h3 className="text-lg font-semibold text-white">{t.budgetTitle}</h3>
+        <p className="mt-1 mb-4 text-sm text-gray-400">{t.budgetDesc}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          {renderBudget('dailyUsd', t.dailyLimit, today)}
+          {renderBudget('monthlyUsd', t.monthlyLimit, thisMonth)}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={handleReset} className="px-4 py-2 text-sm font-semibold bg-gray-700 text-gray-300 rounded-lg hover:bg-red-700 hover:text-white transition-colors">
+          {t.reset}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { MAX_VARIANTS } from '../services/geminiService';
+
+interface VariantCountSelectProps {
+  value: number;
+  onChange: (count: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const VariantCountSelect: React.FC<VariantCountSelectProps> = ({ value, onChange, disabled, className = '' }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(Number(e.target.value))}
+    disabled={disabled}
+    className={`p-3 bg-gray-800 border border-gray-700 rounded-lg text-gray-200 ${className}`}
+    aria-label="Number of variants"
+  >
+    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+      <option key={count} value={count}>
+        {count} {count === 1 ? 'Output' : 'Outputs'}
+      </option>
+    ))}
+  </select>
+);
+
+export default VariantCountSelect;
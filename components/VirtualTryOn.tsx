@@ -1,28 +1,26 @@
-import React, { useState, useRef } from 'react';
+import React, { useState } from 'react';
 import type { ImageFile } from '../types';
-import { virtualTryOn, virtualTryOnMultiple } from '../services/geminiService';
+import { virtualTryOn, virtualTryOnMultiple, generateVariants } from '../services/geminiService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { useVariants } from '../hooks/useVariants';
+import { dataUrlToImageFile, getDataUrlMimeType } from '../utils/imageFile';
+import { downloadImage } from '../utils/download';
+import MediaIntake from './MediaIntake';
 import ResultDisplay from './ResultDisplay';
+import CancelButton from './CancelButton';
+import BypassCacheToggle from './BypassCacheToggle';
+import VariantCountSelect from './VariantCountSelect';
+import { DownloadIcon } from './icons/DownloadIcon';
 import { BookOpenIcon } from './icons/BookOpenIcon';
 import { InfoIcon } from './icons/InfoIcon';
 import { GarmentUploadIcon } from './icons/GarmentUploadIcon';
 import { RefreshIcon } from './icons/RefreshIcon';
+import type { Language } from '../translations';
 
 // --- Helper Functions ---
-const processFile = (file: File): Promise<ImageFile> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const dataUrl = e.target?.result as string;
-            if (!dataUrl) return reject(new Error('Could not read file.'));
-            resolve({ base64: dataUrl, mimeType: file.type, name: file.name });
-        };
-        reader.onerror = (e) => reject(e);
-        reader.readAsDataURL(file);
-    });
-};
-
-const urlToImageFile = async (url: string, filename: string): Promise<ImageFile> => {
-    const response = await fetch(url);
+const urlToImageFile = async (url: string, filename: string, signal?: AbortSignal): Promise<ImageFile> => {
+    const response = await fetch(url, { signal });
     if (!response.ok) {
         throw new Error(`Failed to fetch image from ${url}. Status: ${response.status}`);
     }
@@ -75,7 +73,11 @@ const shuffleArray = <T,>(array: T[]): T[] => {
     return newArray;
 };
 
-const VirtualTryOn: React.FC = () => {
+interface VirtualTryOnProps {
+  lang: Language;
+}
+
+const VirtualTryOn: React.FC<VirtualTryOnProps> = ({ lang }) => {
     const [activeVtoTab, setActiveVtoTab] = useState<'virtualModel' | 'tryOn'>('tryOn');
     const [modelMode, setModelMode] = useState<'default' | 'upload'>('default');
     const [garmentMode, setGarmentMode] = useState<'single' | 'multiple'>('single');
@@ -86,8 +88,11 @@ const VirtualTryOn: React.FC = () => {
     const [garmentImage, setGarmentImage] = useState<ImageFile | null>(null);
     const [multipleGarments, setMultipleGarments] = useState<ImageFile[]>([]);
 
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const results = useVariants();
+    const generatedImage = results.selected;
+    const [variantCount, setVariantCount] = useState(1);
     const [isLoading, setIsLoading] = useState(false);
+    const [bypassCache, setBypassCache] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [selectedHintId, setSelectedHintId] = useState<string | null>(null);
 
@@ -96,55 +101,16 @@ const VirtualTryOn: React.FC = () => {
     const [showFavorites, setShowFavorites] = useState(false);
     const [displayHints, setDisplayHints] = useState(() => shuffleArray(DEFAULT_HINTS).slice(0, 4));
 
-    const modelInputRef = useRef<HTMLInputElement>(null);
-    const garmentInputRef = useRef<HTMLInputElement>(null);
-    const multiGarmentInputRef = useRef<HTMLInputElement>(null);
+    const { begin, cancel } = useCancellableRequest();
 
-    const handleModelFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (file) {
-            try {
-                const processed = await processFile(file);
-                setUploadedModel(processed);
-                setSelectedModelUrl(''); // Deselect default model
-            } catch (err) {
-                setError('Failed to process model image.');
-                console.error(err);
-            }
-        }
+    const handleModelUpload = (images: ImageFile[]) => {
+        setUploadedModel(images[0]);
+        setSelectedModelUrl(''); // Deselect default model
     };
 
-    const handleGarmentFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (file) {
-            setSelectedHintId(null);
-            try {
-                const processed = await processFile(file);
-                setGarmentImage(processed);
-            } catch (err) {
-                setError('Failed to process garment image.');
-                console.error(err);
-            }
-        }
-    };
-
-    const handleMultiGarmentFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-        const files = event.target.files;
-        if (files) {
-            const processedFiles: ImageFile[] = [];
-            for (const file of Array.from(files)) {
-                try {
-                    // FIX: Add a type guard to ensure the item from the FileList is a File object.
-                    // This resolves a TypeScript error where `file` was inferred as `unknown`.
-                    if (file instanceof File) {
-                        processedFiles.push(await processFile(file));
-                    }
-                } catch (err) {
-                    console.error('Failed to process one of the garment files:', err);
-                }
-            }
-            setMultipleGarments(prev => [...prev, ...processedFiles]);
-        }
+    const handleGarmentUpload = (images: ImageFile[]) => {
+        setSelectedHintId(null);
+        setGarmentImage(images[0]);
     };
 
     const removeMultiGarment = (index: number) => {
@@ -168,14 +134,15 @@ const VirtualTryOn: React.FC = () => {
     };
     
     const handleGenerateClick = async () => {
+        const signal = begin();
         setIsLoading(true);
         setError(null);
-        setGeneratedImage(null);
+        results.clear();
     
         try {
             const finalModelImageFile = modelMode === 'upload'
                 ? uploadedModel
-                : await urlToImageFile(selectedModelUrl, 'model.jpg');
+                : await urlToImageFile(selectedModelUrl, 'model.jpg', signal);
     
             if (!finalModelImageFile) {
                 setError('A model image is required.');
@@ -183,32 +150,53 @@ const VirtualTryOn: React.FC = () => {
                 return;
             }
     
-            let result: string;
+            let images: string[];
             if (garmentMode === 'single') {
                 if (!garmentImage) {
                     setError('Please upload a garment image.');
                     setIsLoading(false);
                     return;
                 }
-                result = await virtualTryOn(finalModelImageFile, garmentImage);
+                images = await generateVariants(variantCount, options => virtualTryOn(finalModelImageFile, garmentImage, options), { signal, bypassCache, tool: 'virtualTryOn' });
             } else { // multiple garments
                 if (multipleGarments.length === 0) {
                     setError('Please upload at least one garment image for the outfit.');
                     setIsLoading(false);
                     return;
                 }
-                result = await virtualTryOnMultiple(finalModelImageFile, multipleGarments);
+                images = await generateVariants(variantCount, options => virtualTryOnMultiple(finalModelImageFile, multipleGarments, options), { signal, bypassCache, tool: 'virtualTryOn' });
             }
-            setGeneratedImage(result);
+            results.set(images);
         } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+            if (isCancelled(e)) return;
+            const errorMessage = getErrorMessage(e);
             setError(`Generation failed: ${errorMessage}`);
             console.error(e);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     };
 
+    const handleCancel = () => {
+        cancel();
+        setIsLoading(false);
+    };
+
+    // Dress the chosen result again, e.g. to layer another garment on top.
+    const handleUseAsModel = () => {
+        if (!generatedImage) return;
+        setUploadedModel(dataUrlToImageFile(generatedImage, 'try-on-model'));
+        setSelectedModelUrl('');
+        setModelMode('upload');
+        results.clear();
+    };
+
+    const handleDownload = () => {
+        if (!generatedImage) return;
+        const extension = getDataUrlMimeType(generatedImage).split('/')[1] || 'png';
+        downloadImage(generatedImage, `virtual-try-on.${extension}`, { source: modelMode === 'upload' ? uploadedModel : null, metadata: 'noGps' }).catch(e => setError(getErrorMessage(e)));
+    };
+
     const getFilterClass = (filter: typeof activeFilter) => {
         return activeFilter === filter
           ? 'bg-gray-700 text-white'
@@ -267,8 +255,7 @@ const VirtualTryOn: React.FC = () => {
                                 </div>
                             ) : (
                                 <div>
-                                    <input type="file" ref={modelInputRef} onChange={handleModelFileChange} accept="image/*" className="hidden" />
-                                    <div onClick={() => modelInputRef.current?.click()} className="w-full h-64 bg-gray-700 border-2 border-dashed border-gray-600 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 hover:border-lime-500 transition-colors">
+                                    <MediaIntake lang={lang} onImages={handleModelUpload} className="w-full h-64 bg-gray-700 border-2 border-dashed border-gray-600 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 hover:border-lime-500 transition-colors">
                                         {uploadedModel ? (
                                             <img src={uploadedModel.base64} alt="Uploaded model" className="max-w-full max-h-full object-contain p-2" />
                                         ) : (
@@ -277,7 +264,7 @@ const VirtualTryOn: React.FC = () => {
                                                 <p className="mt-2 font-semibold">Upload Model Image</p>
                                             </div>
                                         )}
-                                    </div>
+                                    </MediaIntake>
                                 </div>
                             )}
                         </div>
@@ -296,8 +283,7 @@ const VirtualTryOn: React.FC = () => {
                             </div>
                             {garmentMode === 'single' ? (
                                 <>
-                                    <input type="file" ref={garmentInputRef} onChange={handleGarmentFileChange} accept="image/*" className="hidden" />
-                                    <div onClick={() => garmentInputRef.current?.click()} className="w-full h-40 bg-gray-700 border-2 border-dashed border-gray-600 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 hover:border-lime-500 transition-colors">
+                                    <MediaIntake lang={lang} onImages={handleGarmentUpload} className="w-full h-40 bg-gray-700 border-2 border-dashed border-gray-600 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 hover:border-lime-500 transition-colors">
                                         {garmentImage ? (
                                             <img src={garmentImage.base64} alt="Garment" className="max-w-full max-h-full object-contain p-2" />
                                         ) : (
@@ -306,7 +292,7 @@ const VirtualTryOn: React.FC = () => {
                                                 <p className="mt-2 font-semibold">Upload Single Garment</p>
                                             </div>
                                         )}
-                                    </div>
+                                    </MediaIntake>
                                     <div className="flex items-center gap-2">
                                         <span className="text-sm text-gray-400">Hints:</span>
                                         <div className="flex-grow flex items-center gap-2">
@@ -323,17 +309,18 @@ const VirtualTryOn: React.FC = () => {
                                 </>
                             ) : (
                                 <div>
-                                     <input type="file" ref={multiGarmentInputRef} onChange={handleMultiGarmentFileChange} accept="image/*" className="hidden" multiple />
-                                     <div className="grid grid-cols-4 gap-2 min-h-[120px]">
+                                     <div className="grid grid-cols-4 gap-2">
                                         {multipleGarments.map((garment, index) => (
                                             <div key={index} className="relative w-full aspect-square">
                                                 <img src={garment.base64} alt={`Garment ${index + 1}`} className="w-full h-full object-cover rounded-md" />
                                                 <button onClick={() => removeMultiGarment(index)} className="absolute -top-1 -right-1 bg-red-600 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs font-bold">&times;</button>
                                             </div>
                                         ))}
-                                        <button onClick={() => multiGarmentInputRef.current?.click()} className="w-full aspect-square bg-gray-700 border-2 border-dashed border-gray-600 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 hover:border-lime-500 transition-colors">
+                                     </div>
+                                     <div className="mt-2">
+                                        <MediaIntake lang={lang} onImages={(images) => setMultipleGarments(prev => [...prev, ...images])} multiple className="w-full py-6 bg-gray-700 border-2 border-dashed border-gray-600 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 hover:border-lime-500 transition-colors">
                                             <div className="text-center text-gray-400 text-2xl">+</div>
-                                        </button>
+                                        </MediaIntake>
                                      </div>
                                 </div>
                             )}
@@ -341,9 +328,7 @@ const VirtualTryOn: React.FC = () => {
 
                         {/* Generate Button */}
                         <div className="flex items-center gap-4 pt-4">
-                            <select className="p-3 bg-gray-800 border border-gray-700 rounded-lg text-gray-200" disabled={isLoading}>
-                                <option>4 Outputs</option>
-                            </select>
+                            <VariantCountSelect value={variantCount} onChange={setVariantCount} disabled={isLoading} />
                             <button
                                 onClick={handleGenerateClick}
                                 disabled={isLoading}
@@ -351,7 +336,9 @@ const VirtualTryOn: React.FC = () => {
                             >
                                 {isLoading ? 'Generating...' : 'Generate'}
                             </button>
+                            {isLoading && <CancelButton onClick={handleCancel} />}
                         </div>
+                        <BypassCacheToggle checked={bypassCache} onChange={setBypassCache} disabled={isLoading} />
                         {error && <div className="text-center text-red-400 bg-red-900/ ৫০ p-3 rounded-lg" role="alert">{error}</div>}
                     </>
                 ) : (
@@ -382,12 +369,38 @@ const VirtualTryOn: React.FC = () => {
                     </div>
                 </div>
                  <div className="bg-gray-800 rounded-xl p-6 shadow-lg flex-grow">
-                    <h2 className="text-xl font-semibold text-white mb-4">Result</h2>
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-xl font-semibold text-white">Result</h2>
+                        {generatedImage && !isLoading && (
+                            <div className="flex items-center space-x-2">
+                                <button
+                                    onClick={handleUseAsModel}
+                                    className="px-4 py-2 bg-gray-700 text-gray-200 font-semibold rounded-md hover:bg-gray-600 transition-colors"
+                                    aria-label="Use result as the model image"
+                                >
+                                    Use as Model
+                                </button>
+                                <button
+                                    onClick={handleDownload}
+                                    className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition-colors flex items-center space-x-2"
+                                    aria-label="Download try-on result"
+                                >
+                                    <DownloadIcon className="h-5 w-5" />
+                                    <span>Download</span>
+                                </button>
+                            </div>
+                        )}
+                    </div>
                     <ResultDisplay
                         imageSrc={generatedImage}
+                        originalSrc={uploadedModel ? uploadedModel.base64 : selectedModelUrl}
                         isLoading={isLoading}
                         placeholderText="Your try-on result will appear here"
                         loadingText="Generating your virtual try-on..."
+                        variants={results.variants}
+                        selectedVariant={results.selectedIndex}
+                        onSelectVariant={results.select}
+                        onKeepVariant={results.keep}
                     />
                 </div>
             </div>
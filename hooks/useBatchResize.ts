@@ -0,0 +1,78 @@
+import { useCallback, useState } from 'react';
+import type { ImageFile } from '../types';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { useCancellableRequest } from './useCancellableRequest';
+
+export type BatchStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: number;
+  image: ImageFile;
+  status: BatchStatus;
+  result?: string;
+  error?: string;
+}
+
+let nextItemId = 1;
+
+// A list of images processed one after another with the same settings. A failed file does
+// not stop the run; cancelling leaves the remaining files pending so a new run picks them up.
+export const useBatchResize = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const { begin, cancel: abort } = useCancellableRequest();
+
+  const add = useCallback((images: ImageFile[]) => {
+    setItems(prev => [...prev, ...images.map(image => ({ id: nextItemId++, image, status: 'pending' as const }))]);
+  }, []);
+
+  const remove = useCallback((id: number) => setItems(prev => prev.filter(item => item.id !== id)), []);
+
+  const clear = useCallback(() => setItems([]), []);
+
+  const update = (id: number, changes: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+
+  // Processes every file; earlier results are redone too, since the settings may have changed.
+  const run = async (process: (image: ImageFile, signal: AbortSignal) => Promise<string>) => {
+    const signal = begin();
+    const queue = items;
+    setItems(prev => prev.map(item => ({ ...item, status: 'pending', result: undefined, error: undefined })));
+    setIsRunning(true);
+
+    try {
+      for (const item of queue) {
+        if (signal.aborted) return;
+        update(item.id, { status: 'processing' });
+        try {
+          update(item.id, { status: 'done', result: await process(item.image, signal) });
+        } catch (e) {
+          if (isCancelled(e) || signal.aborted) {
+            update(item.id, { status: 'pending' });
+            return;
+          }
+          console.error(e);
+          update(item.id, { status: 'failed', error: getErrorMessage(e) });
+        }
+      }
+    } finally {
+      if (!signal.aborted) setIsRunning(false);
+    }
+  };
+
+  const cancel = useCallback(() => {
+    abort();
+    setIsRunning(false);
+  }, [abort]);
+
+  return {
+    items,
+    isRunning,
+    doneCount: items.filter(item => item.status === 'done').length,
+    add,
+    remove,
+    clear,
+    run,
+    cancel,
+  };
+};
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Owns the AbortController for a tab's in-flight request.
+// `begin` aborts any previous request and returns a fresh signal; the pending request
+// is also aborted when the tab unmounts, e.g. when the user switches tabs mid-request.
+export const useCancellableRequest = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const begin = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  return { begin, cancel };
+};
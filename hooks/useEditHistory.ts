@@ -0,0 +1,89 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { ImageFile } from '../types';
+
+// A tree of editing steps. Each edit is applied to the current step and becomes its child,
+// so undoing and then editing again starts a new branch instead of discarding the old one.
+
+export interface EditStep {
+  id: number;
+  parentId: number | null;
+  image: ImageFile;
+  // Null for the uploaded image at the root.
+  prompt: string | null;
+  createdAt: number;
+}
+
+interface HistoryState {
+  steps: EditStep[];
+  currentId: number | null;
+  // Child to return to on redo, per step; set by undo so redo retraces the same branch.
+  redoTargets: Record<number, number>;
+}
+
+const EMPTY: HistoryState = { steps: [], currentId: null, redoTargets: {} };
+
+let nextStepId = 1;
+
+export const useEditHistory = () => {
+  const [state, setState] = useState<HistoryState>(EMPTY);
+
+  // Starts a new history from an upload.
+  const reset = useCallback((image: ImageFile) => {
+    const root: EditStep = { id: nextStepId++, parentId: null, image, prompt: null, createdAt: Date.now() };
+    setState({ steps: [root], currentId: root.id, redoTargets: {} });
+  }, []);
+
+  const clear = useCallback(() => setState(EMPTY), []);
+
+  // Adds an edit of the current step and moves to it.
+  const commit = useCallback((image: ImageFile, prompt: string) => {
+    setState(prev => {
+      if (prev.currentId === null) return prev;
+      const step: EditStep = { id: nextStepId++, parentId: prev.currentId, image, prompt, createdAt: Date.now() };
+      return { ...prev, steps: [...prev.steps, step], currentId: step.id };
+    });
+  }, []);
+
+  // Swaps the image of a step, e.g. when another variant of the same edit is picked.
+  const replaceImage = useCallback((id: number, image: ImageFile) => {
+    setState(prev => ({ ...prev, steps: prev.steps.map(step => (step.id === id ? { ...step, image } : step)) }));
+  }, []);
+
+  const goTo = useCallback((id: number) => {
+    setState(prev => (prev.steps.some(step => step.id === id) ? { ...prev, currentId: id } : prev));
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      const current = prev.steps.find(step => step.id === prev.currentId);
+      if (!current || current.parentId === null) return prev;
+      return { ...prev, currentId: current.parentId, redoTargets: { ...prev.redoTargets, [current.parentId]: current.id } };
+    });
+  }, []);
+
+  // Follows the branch we came back from, or else the newest child.
+  const redo = useCallback(() => {
+    setState(prev => {
+      if (prev.currentId === null) return prev;
+      const children = prev.steps.filter(step => step.parentId === prev.currentId);
+      const target = children.find(step => step.id === prev.redoTargets[prev.currentId!]) ?? children[children.length - 1];
+      return target ? { ...prev, currentId: target.id } : prev;
+    });
+  }, []);
+
+  const current = useMemo(() => state.steps.find(step => step.id === state.currentId) ?? null, [state]);
+
+  return {
+    steps: state.steps,
+    current,
+    canUndo: !!current && current.parentId !== null,
+    canRedo: !!current && state.steps.some(step => step.parentId === current.id),
+    reset,
+    clear,
+    commit,
+    replaceImage,
+    goTo,
+    undo,
+    redo,
+  };
+};
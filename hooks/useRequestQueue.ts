@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { getJobs, subscribeQueue, QueueJob } from '../services/requestQueue';
+
+// Live snapshot of the global request queue.
+export const useRequestQueue = (): QueueJob[] => {
+  const [jobs, setJobs] = useState<QueueJob[]>(getJobs);
+
+  useEffect(() => subscribeQueue(() => setJobs(getJobs())), []);
+
+  return jobs;
+};
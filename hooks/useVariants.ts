@@ -0,0 +1,31 @@
+import { useCallback, useState } from 'react';
+
+// Result state for tabs that can generate several candidate images at once.
+// `selected` is what the tab shows, saves and iterates on.
+export const useVariants = () => {
+  const [variants, setVariants] = useState<string[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const set = useCallback((images: string[]) => {
+    setVariants(images);
+    setSelectedIndex(0);
+  }, []);
+
+  const clear = useCallback(() => set([]), [set]);
+
+  // Discards every candidate except the chosen one.
+  const keep = useCallback((index: number) => {
+    setVariants(prev => (prev[index] ? [prev[index]] : prev));
+    setSelectedIndex(0);
+  }, []);
+
+  return {
+    variants,
+    selectedIndex,
+    selected: variants[selectedIndex] ?? null,
+    set,
+    clear,
+    select: setSelectedIndex,
+    keep,
+  };
+};
@@ -0,0 +1,22 @@
+// libheif-js types its Emscripten module in libheif.d.ts, but not the bundle entry point or the
+// HeifDecoder and HeifImage wrappers the bundle adds to that module.
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  import type { MainModule } from 'libheif-js/libheif-wasm/libheif';
+
+  export interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    // Fills `target` with RGBA pixels; the callback gets null when decoding fails.
+    display(target: ImageData, callback: (result: ImageData | null) => void): void;
+    free(): void;
+  }
+
+  export type LibHeif = MainModule & {
+    HeifDecoder: new () => { decode(bytes: Uint8Array): HeifImage[] };
+    HeifImage: new (handle: unknown) => HeifImage;
+  };
+
+  // Builds the module from the inlined .wasm, synchronously.
+  export default function libheif(options?: unknown): LibHeif;
+}
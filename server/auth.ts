@@ -0,0 +1,43 @@
+import fs from 'fs';
+import { timingSafeEqual } from 'crypto';
+
+// Per-user access tokens, from PROXY_TOKENS="alice:token1,bob:token2" or a JSON file
+// ({ "alice": "token1" }) named by PROXY_TOKENS_FILE. The token identifies the user in the
+// server log and usage; revoking someone means removing their line and restarting.
+
+export type TokenTable = Map<string, string>; // token -> user
+
+export const loadTokens = (): TokenTable => {
+  const tokens: TokenTable = new Map();
+  const add = (user: string, token: string) => {
+    if (user.trim() && token.trim()) tokens.set(token.trim(), user.trim());
+  };
+
+  for (const entry of (process.env.PROXY_TOKENS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator > 0) add(entry.slice(0, separator), entry.slice(separator + 1));
+  }
+  if (process.env.PROXY_TOKENS_FILE) {
+    const file = JSON.parse(fs.readFileSync(process.env.PROXY_TOKENS_FILE, 'utf8')) as Record<string, string>;
+    Object.entries(file).forEach(([user, token]) => add(user, token));
+  }
+  return tokens;
+};
+
+const sameToken = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+};
+
+// Returns the user the token belongs to, or null.
+export const authenticate = (tokens: TokenTable, token: string | null | undefined): string | null => {
+  if (!token) return null;
+  for (const [known, user] of tokens) {
+    if (sameToken(known, token)) return user;
+  }
+  return null;
+};
+
+export const bearerToken = (header: string | undefined): string | null =>
+  header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
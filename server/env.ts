@@ -0,0 +1,11 @@
+import fs from 'fs';
+
+// Imported first by the Node entry points (server, CLI): the services read process.env when their modules load.
+// Uses the same .env.local as the Vite build, so one file configures both.
+for (const file of ['.env.local', '.env']) {
+  if (fs.existsSync(file)) process.loadEnvFile(file);
+}
+
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+// PROXY_URL configures the browser build; in Node the services call the provider directly.
+delete process.env.PROXY_URL;
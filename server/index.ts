@@ -0,0 +1,249 @@
+import './env';
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import * as service from '../services/geminiService';
+import { getActiveProviderId } from '../services/aiProvider';
+import { ServiceErrorKind, toServiceError } from '../services/errors';
+import { PROXIED_FUNCTIONS, ProxiedFunction, ProxyUsage } from '../services/proxyClient';
+import { DEFAULT_QUEUE_LIMITS, getQueueLimits, setQueueLimits } from '../services/requestQueue';
+import { authenticate, bearerToken, loadTokens } from './auth';
+import { createLiveRelay } from './liveRelay';
+
+// API proxy: holds the key and exposes the geminiService functions to the browser build
+// (PROXY_URL) as POST /api/<function>, plus the live session at /api/live. Every call needs
+// a per-user token. If dist/ exists it is served too, so one process hosts the whole app.
+
+const PORT = Number(process.env.PROXY_PORT || 8787);
+// Without it no CORS headers are sent, so only pages served from this origin can call the API.
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN || '';
+const MAX_BODY_BYTES = 40 * 1024 * 1024;
+const STATIC_DIR = path.resolve('dist');
+
+const STATUS_BY_KIND: Record<ServiceErrorKind, number> = {
+  quota: 429,
+  safety: 422,
+  noImage: 502,
+  noAudio: 502,
+  network: 502,
+  unavailable: 503,
+  invalidKey: 401,
+  cancelled: 499,
+  budget: 402,
+  unknown: 500,
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+const tokens = loadTokens();
+if (tokens.size === 0) {
+  console.error('No access tokens configured. Set PROXY_TOKENS="name:token,..." or PROXY_TOKENS_FILE.');
+  process.exit(1);
+}
+// One queue is shared by all users. Node has no localStorage, so its limits come from here.
+setQueueLimits({
+  concurrency: Number(process.env.PROXY_CONCURRENCY) || DEFAULT_QUEUE_LIMITS.concurrency,
+  requestsPerMinute: Number(process.env.PROXY_RPM) || DEFAULT_QUEUE_LIMITS.requestsPerMinute,
+});
+if (!process.env.API_KEY && getActiveProviderId() === 'gemini') {
+  console.warn('GEMINI_API_KEY is not set; requests will fail until it is.');
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: http.ServerResponse, status: number, kind: ServiceErrorKind, message: string) =>
+  sendJson(res, status, { error: { kind, message } });
+
+// Resolves null once the body passes MAX_BODY_BYTES; the rest is read and dropped until the
+// caller has sent its reply and closed the connection.
+const readBody = (req: http.IncomingMessage): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off('data', onData);
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const isProxiedFunction = (name: string): name is ProxiedFunction => Object.hasOwn(PROXIED_FUNCTIONS, name);
+
+interface ArgCheck {
+  expected: string;
+  test: (value: unknown) => boolean;
+  // Optional arguments may be left out; JSON turns a skipped one into null.
+  optional?: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isImage = (value: unknown) => isRecord(value) && typeof value.base64 === 'string' && typeof value.mimeType === 'string';
+const isImageList = (value: unknown) => Array.isArray(value) && value.every(isImage);
+
+const IMAGE: ArgCheck = { expected: 'an image ({ base64, mimeType })', test: isImage };
+const IMAGES: ArgCheck = { expected: 'a list of images', test: isImageList };
+const TEXT: ArgCheck = { expected: 'a string', test: value => typeof value === 'string' };
+const OPTIONAL_TEXT: ArgCheck = { ...TEXT, optional: true };
+const SIZE: ArgCheck = { expected: 'a positive number', test: value => typeof value === 'number' && Number.isFinite(value) && value > 0 };
+const ELEMENTS: ArgCheck = {
+  expected: 'an object with subject, scene and style image lists and a prompt',
+  test: value => isRecord(value) && isImageList(value.subject) && isImageList(value.scene) && isImageList(value.style) && typeof value.prompt === 'string',
+};
+
+// The shape of each positional argument in PROXIED_FUNCTIONS, so a malformed call is a 400
+// and not a crash inside the service.
+const ARG_CHECKS: Record<ProxiedFunction, ArgCheck[]> = {
+  extractPromptFromImage: [IMAGE],
+  detectSubject: [IMAGE],
+  generativeResize: [IMAGE, SIZE, SIZE],
+  editImage: [IMAGE, TEXT],
+  inpaintImage: [IMAGE, IMAGE, TEXT],
+  generateMatte: [IMAGE],
+  faceSwap: [IMAGE, IMAGE],
+  generateImageFromText: [TEXT, OPTIONAL_TEXT],
+  generateSpeech: [TEXT, TEXT, OPTIONAL_TEXT],
+  upscaleImage: [IMAGE],
+  generateImageFromElements: [ELEMENTS],
+  restyleImage: [IMAGE, IMAGE, TEXT],
+  virtualTryOn: [IMAGE, IMAGE],
+  virtualTryOnMultiple: [IMAGE, IMAGES],
+};
+
+// Returns the arguments with skipped optional ones as undefined, or a message for the first bad one.
+const checkArgs = (name: ProxiedFunction, args: unknown): { args: unknown[] } | { message: string } => {
+  if (args !== undefined && !Array.isArray(args)) return { message: '`args` must be an array.' };
+  const checked: unknown[] = [];
+  for (const [i, check] of ARG_CHECKS[name].entries()) {
+    const value = args?.[i] ?? undefined;
+    if (value === undefined && check.optional) {
+      checked.push(undefined);
+      continue;
+    }
+    if (!check.test(value)) return { message: `Argument ${i + 1} of ${name} must be ${check.expected}.` };
+    checked.push(value);
+  }
+  return { args: checked };
+};
+
+const handleCall = async (req: http.IncomingMessage, res: http.ServerResponse, name: string) => {
+  const user = authenticate(tokens, bearerToken(req.headers.authorization));
+  if (!user) return sendError(res, 401, 'invalidKey', 'Invalid or missing access token.');
+  if (req.method !== 'POST' || !isProxiedFunction(name)) return sendError(res, 404, 'unknown', `Unknown endpoint: ${name}`);
+
+  let body: { args?: unknown; options?: { seed?: number; tool?: string } };
+  try {
+    const text = await readBody(req);
+    if (text === null) {
+      // The reply goes out before the connection closes, so the client sees the 413 and not a reset.
+      res.setHeader('Connection', 'close');
+      res.once('finish', () => req.destroy());
+      return sendError(res, 413, 'unknown', `Request body too large (limit ${MAX_BODY_BYTES / 1024 / 1024} MB).`);
+    }
+    body = JSON.parse(text);
+  } catch (e) {
+    return sendError(res, 400, 'unknown', e instanceof SyntaxError ? 'Malformed JSON body.' : (e as Error).message);
+  }
+  if (!isRecord(body)) return sendError(res, 400, 'unknown', 'The body must be a JSON object.');
+
+  // Positional arguments are padded so `options` always lands in the right slot.
+  const checked = checkArgs(name, body.args);
+  if ('message' in checked) return sendError(res, 400, 'unknown', checked.message);
+  const { args } = checked;
+  const tool = body.options?.tool || 'other';
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const usage: ProxyUsage[] = [];
+  const started = Date.now();
+  try {
+    const fn = service[name] as (...params: unknown[]) => Promise<string>;
+    const result = await fn(...args, {
+      signal: controller.signal,
+      seed: body.options?.seed,
+      tool: `${user}/${tool}`,
+      onUsage: (entry: ProxyUsage) => usage.push(entry),
+    });
+    console.log(`[api] ${user} ${name} (${tool}) ok in ${Date.now() - started}ms`);
+    sendJson(res, 200, { result, usage });
+  } catch (e) {
+    const error = toServiceError(e);
+    console.log(`[api] ${user} ${name} (${tool}) ${error.kind}: ${error.message}`);
+    if (res.writableEnded || controller.signal.aborted) return;
+    const { finishReason, blockReason, retryAfterMs } = error.details;
+    sendJson(res, STATUS_BY_KIND[error.kind], { error: { kind: error.kind, message: error.message, details: { finishReason, blockReason, retryAfterMs } } });
+  }
+};
+
+const serveStatic = (res: http.ServerResponse, pathname: string) => {
+  // Decoded first, so an encoded `..%2f` is normalised away like a plain one.
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return sendError(res, 400, 'unknown', 'Malformed URL.');
+  }
+  if (decoded.includes('\0')) return sendError(res, 400, 'unknown', 'Malformed URL.');
+  const requested = path.resolve(STATIC_DIR, `.${path.posix.normalize(decoded)}`);
+  const inside = requested === STATIC_DIR || requested.startsWith(STATIC_DIR + path.sep);
+  const file = inside && fs.existsSync(requested) && fs.statSync(requested).isFile()
+    ? requested
+    : path.join(STATIC_DIR, 'index.html');
+  if (!fs.existsSync(file)) return sendError(res, 404, 'unknown', 'Not found.');
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(file)] || 'application/octet-stream' });
+  fs.createReadStream(file).pipe(res);
+};
+
+const server = http.createServer((req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  if (pathname === '/api/health') return sendJson(res, 200, { ok: true, provider: getActiveProviderId() });
+  if (pathname.startsWith('/api/')) {
+    handleCall(req, res, pathname.slice('/api/'.length)).catch(e => {
+      console.error(e);
+      if (!res.headersSent) sendError(res, 500, 'unknown', 'Internal proxy error.');
+    });
+    return;
+  }
+  serveStatic(res, pathname);
+});
+
+const handleLiveUpgrade = createLiveRelay(tokens);
+server.on('upgrade', (req, socket, head) => {
+  if (new URL(req.url || '/', 'http://localhost').pathname === '/api/live') handleLiveUpgrade(req, socket, head);
+  else socket.destroy();
+});
+
+server.listen(PORT, () => {
+  const { concurrency, requestsPerMinute } = getQueueLimits();
+  console.log(`Proxy listening on http://localhost:${PORT} (${getActiveProviderId()} provider, ${tokens.size} user tokens, ${concurrency} concurrent / ${requestsPerMinute} per minute per model)`);
+});
@@ -0,0 +1,72 @@
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { connectLiveSession } from '../services/geminiService';
+import type { LiveSession } from '../services/aiProvider';
+import { toServiceError } from '../services/errors';
+import type { LiveRelayClientMessage, LiveRelayServerMessage } from '../services/proxyClient';
+import { authenticate, TokenTable } from './auth';
+
+// Relays a live session between a browser websocket and the provider. The browser sends
+// { type: 'connect' } once, then realtime input; everything the model says is forwarded
+// as { type: 'message' }. Closing either side closes the other.
+
+const send = (socket: WebSocket, message: LiveRelayServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const relay = (socket: WebSocket, user: string) => {
+  let session: LiveSession | null = null;
+  const controller = new AbortController();
+
+  socket.on('close', () => {
+    controller.abort();
+    session?.close();
+  });
+
+  socket.on('message', async (raw: Buffer) => {
+    let data: LiveRelayClientMessage;
+    try {
+      data = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (data.type === 'realtimeInput') {
+      session?.sendRealtimeInput(data.input);
+      return;
+    }
+    if (data.type !== 'connect' || session) return;
+
+    const tool = `${user}/${data.tool || 'other'}`;
+    console.log(`[live] ${user} connect (${data.tool})`);
+    try {
+      session = await connectLiveSession({
+        onmessage: message => send(socket, { type: 'message', message }),
+        onerror: event => send(socket, { type: 'error', error: { kind: 'unknown', message: event.message || 'Live session error.' } }),
+        onclose: event => socket.close(1000, event.reason?.slice(0, 120)),
+      }, data.config || {}, { signal: controller.signal, tool });
+      send(socket, { type: 'open' });
+    } catch (e) {
+      const error = toServiceError(e);
+      send(socket, { type: 'error', error: { kind: error.kind, message: error.message } });
+      socket.close(1011, 'Live session failed.');
+    }
+  });
+};
+
+export const createLiveRelay = (tokens: TokenTable) => {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Browsers cannot set headers on a websocket, so the token comes in the query string.
+  return (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const user = authenticate(tokens, url.searchParams.get('token'));
+    wss.handleUpgrade(req, socket, head, (ws: WebSocket) => {
+      if (!user) {
+        ws.close(4401, 'Invalid or missing access token.');
+        return;
+      }
+      relay(ws, user);
+    });
+  };
+};
@@ -0,0 +1,57 @@
+import type {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  LiveConnectParameters,
+} from '@google/genai';
+import { geminiProvider } from './providers/geminiProvider';
+import { mockProvider } from './providers/mockProvider';
+
+export type ProviderId = 'gemini' | 'mock';
+
+// A local interface for the live session object, since the SDK's Session is
+// tied to a real websocket and the mock provider has none.
+export interface LiveSession {
+  sendRealtimeInput(input: { media: { data: string; mimeType: string; } }): void;
+  close(): void;
+}
+
+// Everything geminiService needs from a backend. Prompt building and response
+// parsing stay in the service so every provider sees identical requests.
+export interface AIProvider {
+  id: ProviderId;
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+  connectLive(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+const STORAGE_KEY = 'hazhar:provider';
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+const readStoredProviderId = (): ProviderId | null => {
+  if (typeof localStorage === 'undefined') return null;
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isProviderId(stored) ? stored : null;
+};
+
+// AI_PROVIDER=mock in .env.local starts the app offline; a choice made in the UI wins over it.
+let activeProviderId: ProviderId =
+  readStoredProviderId() ?? (isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'gemini');
+
+export const getActiveProviderId = (): ProviderId => activeProviderId;
+
+export const setActiveProviderId = (id: ProviderId) => {
+  activeProviderId = id;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, id);
+  }
+};
+
+export const getActiveProvider = (): AIProvider => PROVIDERS[activeProviderId];
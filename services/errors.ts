@@ -0,0 +1,197 @@
+import { ApiError } from '@google/genai';
+import type { GenerateContentResponse, SafetyRating } from '@google/genai';
+
+// --- Service error taxonomy ---
+// Every failure coming out of geminiService is normalised into a ServiceError so the
+// tabs can show one consistent message and decide what to do (e.g. re-select a key).
+
+export type ServiceErrorKind =
+  | 'quota'        // 429 / RESOURCE_EXHAUSTED
+  | 'safety'       // prompt or candidate blocked by safety filters
+  | 'noImage'      // the model answered but returned no image
+  | 'noAudio'      // the model answered but returned no audio
+  | 'network'      // the request never reached the API
+  | 'unavailable'  // 5xx, the service is overloaded or down
+  | 'invalidKey'   // missing, invalid or revoked API key
+  | 'cancelled'    // aborted by the user via an AbortSignal
+  | 'budget'       // not sent: the user declined to go over a budget limit
+  | 'unknown';
+
+export interface ServiceErrorDetails {
+  status?: number;
+  finishReason?: string;
+  blockReason?: string;
+  safetyRatings?: SafetyRating[];
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+const RETRYABLE_KINDS: ServiceErrorKind[] = ['quota', 'network', 'unavailable'];
+
+// Finish reasons that mean a safety/policy filter stopped the output.
+const SAFETY_FINISH_REASONS = [
+  'SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII',
+  'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION',
+];
+
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  readonly details: ServiceErrorDetails;
+
+  constructor(kind: ServiceErrorKind, message: string, details: ServiceErrorDetails = {}) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.details = details;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+interface ApiErrorBody {
+  message?: string;
+  status?: string;
+  details?: ({ retryDelay?: unknown } | null)[];
+}
+
+// The SDK puts the raw JSON error body into the message, e.g. `got status: 429 . {"error":{...}}`.
+const parseApiErrorBody = (message: string): { message?: string; status?: string; retryAfterMs?: number } => {
+  const jsonStart = message.indexOf('{');
+  if (jsonStart === -1) return {};
+  try {
+    const body: ApiErrorBody & { error?: ApiErrorBody } = JSON.parse(message.slice(jsonStart));
+    const error = body.error || body;
+    const retryDelay = (error.details || []).map(d => d?.retryDelay).find((delay): delay is string => typeof delay === 'string');
+    const retrySeconds = retryDelay ? parseFloat(retryDelay) : NaN;
+    return {
+      message: error.message,
+      status: error.status,
+      retryAfterMs: isNaN(retrySeconds) ? undefined : retrySeconds * 1000,
+    };
+  } catch {
+    return {};
+  }
+};
+
+const fromApiError = (e: ApiError): ServiceError => {
+  const body = parseApiErrorBody(e.message);
+  const apiMessage = body.message || e.message;
+  const details: ServiceErrorDetails = { status: e.status, retryAfterMs: body.retryAfterMs, cause: e };
+
+  if (e.status === 429 || body.status === 'RESOURCE_EXHAUSTED') {
+    return new ServiceError('quota', 'Quota exceeded: too many requests or the limit for this API key was reached. Please wait and try again.', details);
+  }
+  if (e.status === 401 || e.status === 403 || /api key|entity was not found/i.test(apiMessage)) {
+    return new ServiceError('invalidKey', 'The API key is missing, invalid or has no access to this model. Please select a valid key.', details);
+  }
+  if (e.status >= 500) {
+    return new ServiceError('unavailable', 'The AI service is temporarily unavailable. Please try again in a moment.', details);
+  }
+  return new ServiceError('unknown', apiMessage, details);
+};
+
+export const toServiceError = (e: unknown): ServiceError => {
+  if (e instanceof ServiceError) return e;
+  if ((e as Error)?.name === 'AbortError') {
+    return new ServiceError('cancelled', 'The request was cancelled.', { cause: e });
+  }
+  if (e instanceof ApiError) return fromApiError(e);
+  if (e instanceof TypeError && /fetch|network|load failed/i.test(e.message)) {
+    return new ServiceError('network', 'Network error: could not reach the AI service. Check your connection and try again.', { cause: e });
+  }
+  if (e instanceof Error) {
+    if (/API_KEY/.test(e.message)) {
+      return new ServiceError('invalidKey', 'No API key is configured. Set GEMINI_API_KEY or select a key.', { cause: e });
+    }
+    return new ServiceError('unknown', e.message, { cause: e });
+  }
+  return new ServiceError('unknown', 'An unknown error occurred.', { cause: e });
+};
+
+export const budgetDeclined = () =>
+  new ServiceError('budget', 'Request not sent: it would go over your budget limit. Raise or remove the limit in the usage dashboard to continue.');
+
+// The user-facing text for any error caught in a tab.
+export const getErrorMessage = (e: unknown): string => toServiceError(e).message;
+
+// Cancellation is user intent, not a failure; tabs use this to skip showing an error.
+export const isCancelled = (e: unknown): boolean => toServiceError(e).kind === 'cancelled';
+
+const describeRatings = (ratings: SafetyRating[] = []): string =>
+  ratings
+    .filter(r => r.blocked || (r.probability && r.probability !== 'NEGLIGIBLE'))
+    .map(r => `${(r.category || 'UNKNOWN').replace('HARM_CATEGORY_', '')}: ${r.probability || 'BLOCKED'}`)
+    .join(', ');
+
+// Throws a 'safety' error when the prompt or the first candidate was blocked.
+export const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    const ratings = response.promptFeedback?.safetyRatings;
+    const summary = describeRatings(ratings);
+    throw new ServiceError('safety', `The request was blocked by safety filters (${blockReason})${summary ? `: ${summary}` : ''}.`, {
+      blockReason,
+      safetyRatings: ratings,
+    });
+  }
+
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    const summary = describeRatings(candidate?.safetyRatings);
+    throw new ServiceError('safety', `The result was blocked by safety filters (${finishReason})${summary ? `: ${summary}` : ''}.`, {
+      finishReason,
+      safetyRatings: candidate?.safetyRatings,
+    });
+  }
+};
+
+// --- Retry with exponential backoff ---
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  // Awaited before each retry, after the backoff, e.g. to wait for a rate limit slot.
+  beforeRetry?: () => Promise<void>;
+}
+
+// Resolves after `ms`, or rejects with the signal's AbortError as soon as it is aborted.
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Retries transient failures (quota, network, 5xx). Honours the server's retryDelay when given.
+export const withRetry = async <T,>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, signal, beforeRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      signal?.throwIfAborted();
+      return await operation();
+    } catch (e) {
+      const error = toServiceError(signal?.aborted ? signal.reason : e);
+      if (!error.retryable || attempt >= retries) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() * 0.5);
+      const wait = Math.min(maxDelayMs, error.details.retryAfterMs ?? backoff);
+      console.warn(`Request failed (${error.kind}), retrying in ${Math.round(wait)}ms: ${error.message}`);
+      await abortableDelay(wait, signal)
+        .then(beforeRetry)
+        .catch(reason => {
+          throw toServiceError(reason);
+        });
+    }
+  }
+};
@@ -0,0 +1,75 @@
+import type { ImageMetadata } from '../types';
+import type { ExportFormat } from '../utils/encode';
+import type { MetadataMode } from '../utils/exif';
+
+// Downloads from every tab go through one export dialog, mounted once in the app. Tabs hand
+// it an image and a file name; the dialog picks the format and size and saves the file.
+
+export interface ExportRequest {
+  image: string;
+  filename: string;
+  // Print resolution written into PNG and JPEG files.
+  dpi?: number;
+  // EXIF of the upload the image was made from, offered for copying into the file.
+  metadata?: ImageMetadata;
+  // The tab's default, used instead of the remembered choice (e.g. no GPS for face swaps).
+  metadataMode?: MetadataMode;
+}
+
+export interface ExportSettings {
+  // null keeps the format of the image being saved.
+  format: ExportFormat | null;
+  sizeMode: 'quality' | 'target';
+  quality: number; // 1–100
+  targetKB: number;
+  metadata: MetadataMode;
+}
+
+const STORAGE_KEY = 'hazhar:export';
+
+const DEFAULT_SETTINGS: ExportSettings = { format: null, sizeMode: 'quality', quality: 90, targetKB: 500, metadata: 'keep' };
+
+const readSettings = (): ExportSettings => {
+  if (typeof localStorage === 'undefined') return DEFAULT_SETTINGS;
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let settings = readSettings();
+let pending: ExportRequest | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeExport = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getExportRequest = (): ExportRequest | null => pending;
+
+// Returns false when no dialog is mounted to take the request.
+export const requestExport = (request: ExportRequest): boolean => {
+  if (listeners.size === 0) return false;
+  pending = request;
+  notify();
+  return true;
+};
+
+export const closeExport = () => {
+  pending = null;
+  notify();
+};
+
+export const getExportSettings = (): ExportSettings => settings;
+
+// The last choices are remembered for the next download.
+export const saveExportSettings = (next: ExportSettings) => {
+  settings = next;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+};
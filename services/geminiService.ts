@@ -1,15 +1,131 @@
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from '@google/genai';
-import type { ImageFile } from '../types';
+import { GenerateContentResponse, Modality, Type } from '@google/genai';
+import type { GenerateContentParameters, LiveCallbacks, LiveConnectConfig } from '@google/genai';
+import type { ImageFile, SubjectBox } from '../types';
+import { getActiveProvider, LiveSession } from './aiProvider';
+import { assertNotBlocked, budgetDeclined, ServiceError, toServiceError, withRetry } from './errors';
+import { cacheKeyFor, getCachedResponse, ignoreCacheError, isCacheable, isCacheAvailable, putCachedResponse } from './responseCache';
+import { confirmWithinBudget, estimateRequestCost, recordUsage } from './usage';
+import { getModel, getModelInfo } from './modelRegistry';
+import { enqueue, waitForStartSlot } from './requestQueue';
+import { callProxy, connectProxyLive, isProxyMode, ProxyUsage } from './proxyClient';
 
-export const extractPromptFromImage = async (image: ImageFile): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error('API_KEY environment variable not set.');
+export interface RequestOptions {
+  // Aborts the request (and any pending retry); the promise rejects with a 'cancelled' ServiceError.
+  signal?: AbortSignal;
+  // Sampling seed; set per variant so parallel generations of the same request differ.
+  seed?: number;
+  // Always call the API, even when an identical request is cached; the fresh response replaces the cached one.
+  bypassCache?: boolean;
+  // Tab the request is billed to in the usage dashboard, e.g. 'imageEditor'.
+  tool?: string;
+  // Called with the metered usage of each API call; the proxy server uses it to report usage back.
+  onUsage?: (usage: ProxyUsage) => void;
+}
+
+export const MAX_VARIANTS = 4;
+
+// All requests go through the active provider (live Gemini or the offline mock).
+// Identical requests are answered from the response cache unless bypassCache is set;
+// everything else is checked against the soft budget, queued per model and metered.
+// Transient failures are retried; everything else surfaces as a ServiceError.
+const generate = async (params: GenerateContentParameters, { signal, seed, bypassCache, tool = 'other', onUsage }: RequestOptions): Promise<GenerateContentResponse> => {
+  const provider = getActiveProvider();
+  const request = { ...params, config: { ...params.config, ...(seed !== undefined && { seed }) } };
+  const cacheKey = isCacheAvailable() ? await cacheKeyFor(provider.id, request).catch(ignoreCacheError) : null;
+
+  if (cacheKey && !bypassCache) {
+    const cached = await getCachedResponse(cacheKey).catch(ignoreCacheError);
+    if (cached) return cached;
+  }
+  if (!(await confirmWithinBudget(estimateRequestCost({ provider: provider.id, model: params.model })))) throw budgetDeclined();
+
+  const response = await enqueue(
+    { model: params.model, tool },
+    jobSignal => withRetry(
+      () => provider.generateContent({ ...request, config: { ...request.config, abortSignal: jobSignal } }),
+      { signal: jobSignal, beforeRetry: () => waitForStartSlot(params.model, jobSignal) }
+    ),
+    signal
+  );
+  // Billed even if the user cancelled meanwhile or the answer turns out to be blocked.
+  recordUsage({ tool, provider: provider.id, model: params.model, usage: response.usageMetadata });
+  onUsage?.({ provider: provider.id, model: params.model, usage: response.usageMetadata });
+  // A provider that ignores the signal must still not deliver a result the user already cancelled.
+  if (signal?.aborted) throw toServiceError(signal.reason);
+
+  if (cacheKey && isCacheable(request, response)) {
+    await putCachedResponse(cacheKey, provider.id, request, response).catch(ignoreCacheError);
   }
+  return response;
+};
+
+const toInlineData = (image: ImageFile) => ({
+  inlineData: { data: image.base64.split(',')[1], mimeType: image.mimeType },
+});
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const base64Data = image.base64.split(',')[1];
+const extractImage = (response: GenerateContentResponse, failureMessage: string): string => {
+  assertNotBlocked(response);
+  const candidate = response.candidates?.[0];
+  const part = candidate?.content?.parts?.find(p => p.inlineData);
+  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+
+  // The model sometimes answers with text only (e.g. a refusal); pass it on so the user sees why.
+  const modelText = candidate?.content?.parts?.map(p => p.text).filter(Boolean).join(' ');
+  throw new ServiceError('noImage', `${failureMessage} The model did not return an image.${modelText ? ` Model response: ${modelText}` : ''}`, {
+    finishReason: candidate?.finishReason,
+  });
+};
+
+// Runs up to MAX_VARIANTS generations in parallel, each with its own seed.
+// Resolves with every image that succeeded and only rejects when all of them failed.
+export const generateVariants = async (
+  count: number,
+  run: (options: RequestOptions) => Promise<string>,
+  options: RequestOptions = {}
+): Promise<string[]> => {
+  if (count <= 1) return [await run(options)];
+  const baseSeed = Math.floor(Math.random() * 1_000_000);
+  const settled = await Promise.allSettled(
+    Array.from({ length: Math.min(count, MAX_VARIANTS) }, (_, i) => run({ ...options, seed: baseSeed + i }))
+  );
+  const images = settled.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+  if (images.length > 0) return images;
+  throw (settled[0] as PromiseRejectedResult).reason;
+};
+
+// Synchronous setup errors (e.g. a missing key) still throw immediately, as the live tabs expect.
+// Callers check the budget themselves (confirmWithinBudget) before opening the microphone.
+export const connectLiveSession = (callbacks: LiveCallbacks, config: LiveConnectConfig, { signal, tool = 'other' }: RequestOptions = {}): Promise<LiveSession> => {
+  signal?.throwIfAborted();
+  // Through the proxy the server picks the model; metering here uses the local assignment.
+  const providerId = isProxyMode() ? 'proxy' : getActiveProvider().id;
+  const model = getModel('live');
+  const meteredCallbacks: LiveCallbacks = {
+    ...callbacks,
+    onmessage: message => {
+      if (message.usageMetadata) {
+        recordUsage({ tool, provider: providerId, model, usage: message.usageMetadata, requests: 0 });
+      }
+      return callbacks.onmessage(message);
+    },
+  };
+  const connect = isProxyMode()
+    ? connectProxyLive({ model, callbacks: meteredCallbacks, config }, tool)
+    : getActiveProvider().connectLive({ model, callbacks: meteredCallbacks, config });
+  return connect.then(session => {
+    if (signal?.aborted) {
+      session.close();
+      throw toServiceError(signal.reason);
+    }
+    signal?.addEventListener('abort', () => session.close(), { once: true });
+    recordUsage({ tool, provider: providerId, model });
+    return session;
+  });
+};
 
+export const extractPromptFromImage = async (image: ImageFile, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('extractPromptFromImage', [image], options);
   const instruction = `CRITICAL VISION ANALYSIS TASK:
 Analyze this image and provide a highly detailed, professional AI generative prompt that would recreate this exact image.
 Your description MUST include:
@@ -20,22 +136,58 @@ Your description MUST include:
 5. BACKGROUND: Environment details, objects, and depth.
 Output the final prompt in a clear, concise paragraph followed by a list of descriptive keywords.`;
 
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
+  const response: GenerateContentResponse = await generate({
+    model: getModel('vision'),
     contents: {
       parts: [
-        { inlineData: { data: base64Data, mimeType: image.mimeType } },
+        toInlineData(image),
         { text: instruction },
       ],
     },
-  });
+  }, options);
 
+  assertNotBlocked(response);
   return response.text || 'Could not extract prompt.';
 };
 
-export const generativeResize = async (image: ImageFile, width: number, height: number): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Bounding box of the main subject, e.g. to keep it in frame when cropping. The model reports
+// box_2d as [ymin, xmin, ymax, xmax] on a 0-1000 grid.
+export const detectSubject = async (image: ImageFile, options: RequestOptions = {}): Promise<SubjectBox> => {
+  if (isProxyMode()) return callProxy('detectSubject', [image], options);
+  const response = await generate({
+    model: getModel('vision'),
+    contents: {
+      parts: [
+        toInlineData(image),
+        { text: "Find the main subject of this image (the person, product or object a viewer looks at first). Return its bounding box as box_2d: [ymin, xmin, ymax, xmax], normalized to 0-1000." },
+      ],
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: { box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } } },
+        required: ['box_2d'],
+      },
+    },
+  }, options);
+
+  assertNotBlocked(response);
+  let box: unknown;
+  try {
+    box = JSON.parse(response.text || '{}').box_2d;
+  } catch {
+    box = null;
+  }
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(v => typeof v === 'number')) {
+    throw new ServiceError('unknown', 'Could not find a subject in this image.');
+  }
+  const [ymin, xmin, ymax, xmax] = box.map(v => Math.min(1000, Math.max(0, v)) / 1000);
+  return { x: Math.min(xmin, xmax), y: Math.min(ymin, ymax), width: Math.abs(xmax - xmin), height: Math.abs(ymax - ymin) };
+};
+
+export const generativeResize = async (image: ImageFile, width: number, height: number, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('generativeResize', [image, width, height], options);
   const ratio = width / height;
   let aspectRatio = "1:1";
   if (ratio > 1.5) aspectRatio = "16:9";
@@ -43,184 +195,202 @@ export const generativeResize = async (image: ImageFile, width: number, height:
   else if (ratio < 0.6) aspectRatio = "9:16";
   else if (ratio < 0.8) aspectRatio = "3:4";
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+  const response = await generate({
+    model: getModel('edit'),
     contents: {
       parts: [
-        { inlineData: { data: image.base64.split(',')[1], mimeType: image.mimeType } },
+        toInlineData(image),
         { text: `Outpaint and expand this image to ${aspectRatio} without stretching objects.` },
       ],
     },
     config: { responseModalities: ['IMAGE'], imageConfig: { aspectRatio: aspectRatio as any } },
-  });
-  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  throw new Error('Resize failed.');
+  }, options);
+  return extractImage(response, 'Resize failed.');
 };
 
-export const editImage = async (image: ImageFile, prompt: string): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+export const editImage = async (image: ImageFile, prompt: string, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('editImage', [image, prompt], options);
+  const response = await generate({
+    model: getModel('edit'),
     contents: {
       parts: [
-        { inlineData: { data: image.base64.split(',')[1], mimeType: image.mimeType } },
+        toInlineData(image),
         { text: prompt },
       ],
     },
     config: { responseModalities: ['IMAGE'] },
-  });
-  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  throw new Error('Edit failed.');
+  }, options);
+  return extractImage(response, 'Edit failed.');
+};
+
+// The mask is white where the edit may happen; callers composite the answer back onto the
+// original (utils/mask.ts), since the model does not reliably leave the rest untouched.
+export const inpaintImage = async (image: ImageFile, mask: ImageFile, prompt: string, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('inpaintImage', [image, mask, prompt], options);
+  const response = await generate({
+    model: getModel('edit'),
+    contents: {
+      parts: [
+        { text: "IMAGE TO EDIT:" },
+        toInlineData(image),
+        { text: "MASK (white = area to change, black = keep exactly as is):" },
+        toInlineData(mask),
+        { text: `Edit only the white area of the mask: ${prompt}. Blend the change naturally with its surroundings and keep the same framing and size.` },
+      ],
+    },
+    config: { responseModalities: ['IMAGE'] },
+  }, options);
+  return extractImage(response, 'Inpainting failed.');
+};
+
+// Black-and-white matte of the main subject. The model's edges are only approximate, so
+// callers refine the matte locally and cut the subject out of the original (utils/matte.ts).
+export const generateMatte = async (image: ImageFile, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('generateMatte', [image], options);
+  const response = await generate({
+    model: getModel('edit'),
+    contents: {
+      parts: [
+        toInlineData(image),
+        { text: "Create an alpha matte of the main subject of this image: pure white for the subject, pure black for the background, and soft grey only along hair and other fine or semi-transparent edges. Keep exactly the same framing and aspect ratio. Output only the matte." },
+      ],
+    },
+    config: { responseModalities: ['IMAGE'] },
+  }, options);
+  return extractImage(response, 'Background removal failed.');
 };
 
-export const faceSwap = async (sourceFace: ImageFile, targetImage: ImageFile): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
+export const faceSwap = async (sourceFace: ImageFile, targetImage: ImageFile, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('faceSwap', [sourceFace, targetImage], options);
+  const response = await generate({
+    model: getModel('faceSwap'),
     contents: {
       parts: [
         { text: "SOURCE IDENTITY (Use this face):" },
-        { inlineData: { data: sourceFace.base64.split(',')[1], mimeType: sourceFace.mimeType } },
+        toInlineData(sourceFace),
         { text: "TARGET BASE (Keep everything else):" },
-        { inlineData: { data: targetImage.base64.split(',')[1], mimeType: targetImage.mimeType } },
+        toInlineData(targetImage),
         { text: "Replace target's face with source's face seamlessly." },
       ],
     },
     config: { responseModalities: ['IMAGE'], imageConfig: { aspectRatio: "1:1" } },
-  });
-  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  throw new Error('Face swap failed.');
+  }, options);
+  return extractImage(response, 'Face swap failed.');
 };
 
-export const generateImageFromText = async (prompt: string, aspectRatio: string = '1:1'): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  let model = 'gemini-2.5-flash-image';
+export const generateImageFromText = async (prompt: string, aspectRatio: string = '1:1', options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('generateImageFromText', [prompt, aspectRatio], options);
+  let model = getModel('edit');
   let imageConfig: any = { aspectRatio };
   if (aspectRatio === '4096x832') {
-    model = 'gemini-3-pro-image-preview';
-    imageConfig = { imageSize: '4K', aspectRatio: '16:9' };
+    model = getModel('highRes');
+    // Custom model ids are unknown to the registry; assume they take imageSize like the default.
+    const info = getModelInfo(model);
+    imageConfig = info && !info.supportsImageSize ? { aspectRatio: '16:9' } : { imageSize: '4K', aspectRatio: '16:9' };
   }
-  const response = await ai.models.generateContent({
+  const response = await generate({
     model,
     contents: { parts: [{ text: prompt }] },
     config: { responseModalities: ['IMAGE'], imageConfig },
-  });
-  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  throw new Error('Generation failed.');
+  }, options);
+  return extractImage(response, 'Generation failed.');
 };
 
 /* Updated generateSpeech to accept a language parameter to fix argument mismatch errors in TTS component */
-export const generateSpeech = async (text: string, voice: string, language?: string): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+export const generateSpeech = async (text: string, voice: string, language?: string, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('generateSpeech', [text, voice, language], options);
   // Use language in the prompt for better results if provided
   const prompt = language && language !== 'Auto' 
     ? `Speak the following text in ${language}: ${text}`
     : text;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
+  const response = await generate({
+    model: getModel('tts'),
     contents: [{ parts: [{ text: prompt }] }],
     config: {
       responseModalities: [Modality.AUDIO],
       speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
     },
-  });
-  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || '';
+  }, options);
+  assertNotBlocked(response);
+  const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!audio) {
+    throw new ServiceError('noAudio', 'Speech generation failed. The model did not return any audio.', {
+      finishReason: response.candidates?.[0]?.finishReason,
+    });
+  }
+  return audio;
 };
 
-export const upscaleImage = async (image: ImageFile): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+export const upscaleImage = async (image: ImageFile, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('upscaleImage', [image], options);
+  const response = await generate({
+    model: getModel('edit'),
     contents: {
       parts: [
-        { inlineData: { data: image.base64.split(',')[1], mimeType: image.mimeType } },
+        toInlineData(image),
         { text: "Upscale this image, enhancing resolution and details." },
       ],
     },
     config: { responseModalities: ['IMAGE'] },
-  });
-  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  throw new Error('Upscaling failed.');
+  }, options);
+  return extractImage(response, 'Upscaling failed.');
 };
 
-export const generateImageFromElements = async (payload: any): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const generateImageFromElements = async (payload: any, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('generateImageFromElements', [payload], options);
   const { subject, scene, style, prompt } = payload;
   const parts: any[] = [{ text: `Generate image combining subject, scene, style. ${prompt}` }];
-  [...subject, ...scene, ...style].forEach(img => parts.push({ inlineData: { data: img.base64.split(',')[1], mimeType: img.mimeType } }));
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+  [...subject, ...scene, ...style].forEach(img => parts.push(toInlineData(img)));
+  const response = await generate({
+    model: getModel('edit'),
     contents: { parts },
     config: { responseModalities: ['IMAGE'] },
-  });
-  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  throw new Error('Generation failed.');
+  }, options);
+  return extractImage(response, 'Generation failed.');
 };
 
-export const restyleImage = async (original: ImageFile, style: ImageFile, prompt: string): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+export const restyleImage = async (original: ImageFile, style: ImageFile, prompt: string, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('restyleImage', [original, style, prompt], options);
+  const response = await generate({
+    model: getModel('edit'),
     contents: {
       parts: [
-        { inlineData: { data: original.base64.split(',')[1], mimeType: original.mimeType } },
-        { inlineData: { data: style.base64.split(',')[1], mimeType: style.mimeType } },
+        toInlineData(original),
+        toInlineData(style),
         { text: `Apply style to original. ${prompt}` },
       ],
     },
     config: { responseModalities: ['IMAGE'] },
-  });
-  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  throw new Error('Restyle failed.');
+  }, options);
+  return extractImage(response, 'Restyle failed.');
 };
 
-export const virtualTryOn = async (model: ImageFile, garment: ImageFile): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+export const virtualTryOn = async (model: ImageFile, garment: ImageFile, options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('virtualTryOn', [model, garment], options);
+  const response = await generate({
+    model: getModel('edit'),
     contents: {
       parts: [
-        { inlineData: { data: model.base64.split(',')[1], mimeType: model.mimeType } },
-        { inlineData: { data: garment.base64.split(',')[1], mimeType: garment.mimeType } },
+        toInlineData(model),
+        toInlineData(garment),
         { text: "Place garment onto person in model image." },
       ],
     },
     config: { responseModalities: ['IMAGE'] },
-  });
-  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  throw new Error('Try-on failed.');
+  }, options);
+  return extractImage(response, 'Try-on failed.');
 };
 
-export const virtualTryOnMultiple = async (model: ImageFile, garments: ImageFile[]): Promise<string> => {
-  if (!process.env.API_KEY) throw new Error('API_KEY not set.');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const parts: any[] = [{ inlineData: { data: model.base64.split(',')[1], mimeType: model.mimeType } }];
-  garments.forEach(g => parts.push({ inlineData: { data: g.base64.split(',')[1], mimeType: g.mimeType } }));
+export const virtualTryOnMultiple = async (model: ImageFile, garments: ImageFile[], options: RequestOptions = {}): Promise<string> => {
+  if (isProxyMode()) return callProxy('virtualTryOnMultiple', [model, garments], options);
+  const parts: any[] = [toInlineData(model)];
+  garments.forEach(g => parts.push(toInlineData(g)));
   parts.push({ text: "Place all garments as an outfit." });
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+  const response = await generate({
+    model: getModel('edit'),
     contents: { parts },
     config: { responseModalities: ['IMAGE'] },
-  });
-  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-  if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-  throw new Error('Multi try-on failed.');
+  }, options);
+  return extractImage(response, 'Multi try-on failed.');
 };
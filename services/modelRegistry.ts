@@ -0,0 +1,129 @@
+// Which model serves each capability. Defaults live here; overrides chosen in the
+// settings panel are persisted, so a retired preview can be swapped without a release.
+
+export type Capability = 'edit' | 'highRes' | 'faceSwap' | 'vision' | 'tts' | 'live';
+
+export type Modality = 'text' | 'image' | 'audio';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  capabilities: Capability[];
+  input: Modality[];
+  output: Modality[];
+  // Accepts imageConfig.imageSize (2K/4K output).
+  supportsImageSize?: boolean;
+  preview?: boolean;
+}
+
+export const CAPABILITIES: Capability[] = ['edit', 'highRes', 'faceSwap', 'vision', 'tts', 'live'];
+
+export const KNOWN_MODELS: ModelInfo[] = [
+  {
+    id: 'gemini-2.5-flash-image',
+    label: 'Gemini 2.5 Flash Image',
+    capabilities: ['edit', 'faceSwap'],
+    input: ['text', 'image'],
+    output: ['image'],
+  },
+  {
+    id: 'gemini-3-pro-image-preview',
+    label: 'Gemini 3 Pro Image',
+    capabilities: ['edit', 'highRes', 'faceSwap'],
+    input: ['text', 'image'],
+    output: ['image'],
+    supportsImageSize: true,
+    preview: true,
+  },
+  {
+    id: 'gemini-3-flash-preview',
+    label: 'Gemini 3 Flash',
+    capabilities: ['vision'],
+    input: ['text', 'image'],
+    output: ['text'],
+    preview: true,
+  },
+  {
+    id: 'gemini-2.5-flash',
+    label: 'Gemini 2.5 Flash',
+    capabilities: ['vision'],
+    input: ['text', 'image'],
+    output: ['text'],
+  },
+  {
+    id: 'gemini-2.5-flash-preview-tts',
+    label: 'Gemini 2.5 Flash TTS',
+    capabilities: ['tts'],
+    input: ['text'],
+    output: ['audio'],
+    preview: true,
+  },
+  {
+    id: 'gemini-2.5-pro-preview-tts',
+    label: 'Gemini 2.5 Pro TTS',
+    capabilities: ['tts'],
+    input: ['text'],
+    output: ['audio'],
+    preview: true,
+  },
+  {
+    id: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    label: 'Gemini 2.5 Flash Native Audio',
+    capabilities: ['live'],
+    input: ['text', 'audio'],
+    output: ['text', 'audio'],
+    preview: true,
+  },
+];
+
+export const DEFAULT_MODELS: Record<Capability, string> = {
+  edit: 'gemini-2.5-flash-image',
+  highRes: 'gemini-3-pro-image-preview',
+  faceSwap: 'gemini-3-pro-image-preview',
+  vision: 'gemini-3-flash-preview',
+  tts: 'gemini-2.5-flash-preview-tts',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+};
+
+const STORAGE_KEY = 'hazhar:models';
+
+const readOverrides = (): Partial<Record<Capability, string>> => {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return typeof parsed === 'object' && parsed ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+let overrides = readOverrides();
+
+const persist = () => {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  }
+};
+
+export const getModel = (capability: Capability): string => overrides[capability] || DEFAULT_MODELS[capability];
+
+export const getModelAssignments = (): Record<Capability, string> =>
+  Object.fromEntries(CAPABILITIES.map(capability => [capability, getModel(capability)])) as Record<Capability, string>;
+
+// Any model id is accepted, including ones not in KNOWN_MODELS, so new releases work right away.
+export const setModel = (capability: Capability, modelId: string) => {
+  const id = modelId.trim();
+  if (!id || id === DEFAULT_MODELS[capability]) delete overrides[capability];
+  else overrides[capability] = id;
+  persist();
+};
+
+export const resetModels = () => {
+  overrides = {};
+  persist();
+};
+
+export const getModelInfo = (modelId: string): ModelInfo | undefined => KNOWN_MODELS.find(model => model.id === modelId);
+
+export const modelsFor = (capability: Capability): ModelInfo[] =>
+  KNOWN_MODELS.filter(model => model.capabilities.includes(capability));
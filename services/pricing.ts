@@ -0,0 +1,25 @@
+// Published list prices in USD per 1M tokens, used for cost estimates only.
+// Output prices are the ones for the modality each model returns here (images, audio or text).
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 120 },
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10 },
+  'gemini-2.5-pro-preview-tts': { inputPerMillion: 1, outputPerMillion: 20 },
+  'gemini-2.5-flash-native-audio-preview-09-2025': { inputPerMillion: 3, outputPerMillion: 12 },
+};
+
+// Returns null for models we have no price for, so the UI can show "unknown" rather than $0.
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number): number | null => {
+  const price = MODEL_PRICES[model];
+  if (!price) return null;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const formatUsd = (value: number): string => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
@@ -0,0 +1,16 @@
+import { GoogleGenAI } from '@google/genai';
+import type { AIProvider } from '../aiProvider';
+
+// A fresh client per call, so a key picked later through the AI Studio selector is used immediately.
+const createClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new Error('API_KEY environment variable not set.');
+  }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  generateContent: (params) => createClient().models.generateContent(params),
+  connectLive: (params) => createClient().live.connect(params),
+};
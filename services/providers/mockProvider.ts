@@ -0,0 +1,315 @@
+import { GenerateContentResponse, LiveServerMessage } from '@google/genai';
+import type { Content, GenerateContentParameters, LiveCallbacks, Part, PartUnion } from '@google/genai';
+import type { AIProvider, LiveSession } from '../aiProvider';
+import { abortableDelay } from '../errors';
+
+// --- Offline stand-in for the Gemini API ---
+// Every response is derived from a hash of the request, so the same input always
+// produces the same synthetic image, audio or text. Nothing leaves the browser.
+
+const LATENCY_MS = 700;
+const IMAGE_LONG_SIDE = 512;
+const PCM_SAMPLE_RATE = 24000;
+// The live input pipeline sends 4096-sample chunks at 16kHz, so ~16 chunks is a 4 second "turn".
+const CHUNKS_PER_TURN = 16;
+const TURN_SECONDS = (CHUNKS_PER_TURN * 4096) / 16000;
+
+const MOCK_USER_LINES = [
+  'Hello, can you hear me?',
+  'What a lovely day it is today.',
+  'Tell me something interesting.',
+  'Thank you, that was helpful.',
+];
+
+const MOCK_MODEL_LINES = [
+  'Hi! This is the offline demo voice. Everything you hear is generated locally.',
+  'Indeed it is. In offline mode I can only reply with canned sentences.',
+  'Switch back to the live Gemini provider to have a real conversation.',
+  'You are welcome. Talk to you soon!',
+];
+
+const SUBJECTS = ['a lone traveler', 'a glass teapot', 'an old lighthouse', 'a red fox', 'a street musician', 'a vintage car'];
+const STYLES = ['photorealistic', 'watercolor painting', 'cinematic 3D render', 'oil on canvas', 'flat vector illustration'];
+const COMPOSITIONS = ['close-up', 'wide establishing shot', 'low-angle shot', 'overhead view', 'centered symmetric framing'];
+const LIGHTING = ['golden hour sunlight', 'soft overcast light', 'neon rim lighting', 'candle-lit warmth', 'harsh midday sun'];
+const BACKGROUNDS = ['a misty forest', 'a busy city street', 'a minimalist studio', 'rolling desert dunes', 'a snowy mountain pass'];
+
+// FNV-1a, good enough to spread similar requests across different outputs.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 PRNG seeded from the request hash.
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+// --- Minimal PNG encoder (uncompressed deflate), so no canvas is needed ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1, b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const encodePng = (width: number, height: number, rgb: Uint8Array): Uint8Array => {
+  // Each scanline is prefixed with filter type 0 (None).
+  const rowLength = width * 3 + 1;
+  const raw = new Uint8Array(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * rowLength + 1);
+  }
+
+  const MAX_BLOCK = 65535;
+  const blockCount = Math.ceil(raw.length / MAX_BLOCK);
+  const zlib = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  const zview = new DataView(zlib.buffer);
+  zlib[0] = 0x78;
+  zlib[1] = 0x01;
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const block = raw.subarray(i * MAX_BLOCK, Math.min(raw.length, (i + 1) * MAX_BLOCK));
+    zlib[offset] = i === blockCount - 1 ? 1 : 0;
+    zview.setUint16(offset + 1, block.length, true);
+    zview.setUint16(offset + 3, ~block.length & 0xffff, true);
+    zlib.set(block, offset + 5);
+    offset += 5 + block.length;
+  }
+  zview.setUint32(offset, adler32(raw));
+
+  const header = new Uint8Array(13);
+  const hview = new DataView(header.buffer);
+  hview.setUint32(0, width);
+  hview.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: truecolor RGB
+
+  const signature = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const parts = [signature, pngChunk('IHDR', header), pngChunk('IDAT', zlib), pngChunk('IEND', new Uint8Array(0))];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    png.set(p, pos);
+    pos += p.length;
+  }
+  return png;
+};
+
+const dimensionsForAspectRatio = (aspectRatio: string | undefined): { width: number; height: number } => {
+  const [w, h] = (aspectRatio || '1:1').split(':').map(Number);
+  if (!w || !h) return { width: IMAGE_LONG_SIDE, height: IMAGE_LONG_SIDE };
+  return w >= h
+    ? { width: IMAGE_LONG_SIDE, height: Math.round(IMAGE_LONG_SIDE * (h / w)) }
+    : { width: Math.round(IMAGE_LONG_SIDE * (w / h)), height: IMAGE_LONG_SIDE };
+};
+
+// A two-colour diagonal gradient with soft bands; the colours and band angle come from the seed.
+const syntheticImage = (seed: number, aspectRatio?: string): string => {
+  const random = createRandom(seed);
+  const { width, height } = dimensionsForAspectRatio(aspectRatio);
+  const from = [random() * 255, random() * 255, random() * 255];
+  const to = [random() * 255, random() * 255, random() * 255];
+  const bands = 3 + Math.floor(random() * 6);
+  const angle = random() * Math.PI;
+  const rgb = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      const band = 0.85 + 0.15 * Math.sin((x * Math.cos(angle) + y * Math.sin(angle)) / Math.max(width, height) * bands * Math.PI * 2);
+      const i = (y * width + x) * 3;
+      for (let c = 0; c < 3; c++) {
+        rgb[i + c] = Math.max(0, Math.min(255, (from[c] + (to[c] - from[c]) * t) * band));
+      }
+    }
+  }
+  return bytesToBase64(encodePng(width, height, rgb));
+};
+
+// 16-bit mono PCM "speech": one short tone per character, pitched by its char code.
+const syntheticPcm = (text: string): string => {
+  const SEGMENT_SECONDS = 0.06;
+  const characters = Array.from(text || ' ').slice(0, 300);
+  const samplesPerSegment = Math.round(PCM_SAMPLE_RATE * SEGMENT_SECONDS);
+  const samples = new Int16Array(characters.length * samplesPerSegment);
+  characters.forEach((char, index) => {
+    const silent = /\s/.test(char);
+    const frequency = 180 + (char.codePointAt(0)! % 24) * 15;
+    for (let i = 0; i < samplesPerSegment; i++) {
+      const envelope = Math.sin((Math.PI * i) / samplesPerSegment);
+      const value = silent ? 0 : Math.sin((2 * Math.PI * frequency * i) / PCM_SAMPLE_RATE) * envelope * 0.3;
+      samples[index * samplesPerSegment + i] = value * 32767;
+    }
+  });
+  return bytesToBase64(new Uint8Array(samples.buffer));
+};
+
+const syntheticPrompt = (seed: number): string => {
+  const random = createRandom(seed);
+  const subject = pick(SUBJECTS, random);
+  const style = pick(STYLES, random);
+  const composition = pick(COMPOSITIONS, random);
+  const lighting = pick(LIGHTING, random);
+  const background = pick(BACKGROUNDS, random);
+  return `[Offline demo] A ${style} of ${subject}, ${composition}, lit by ${lighting}, set against ${background}.
+
+Keywords: ${[subject, style, composition, lighting, background].join(', ')}`;
+};
+
+// [ymin, xmin, ymax, xmax] on the 0-1000 grid the real model uses.
+const syntheticBox = (seed: number): number[] => {
+  const random = createRandom(seed);
+  const width = 300 + Math.round(random() * 400);
+  const height = 300 + Math.round(random() * 400);
+  const x = Math.round(random() * (1000 - width));
+  const y = Math.round(random() * (1000 - height));
+  return [y, x, y + height, x + width];
+};
+
+// Rough token counts in the shape the real API reports, so usage metering works offline.
+const IMAGE_TOKENS = 1290;
+const AUDIO_TOKENS_PER_SECOND = 25;
+
+const countTokens = (parts: Part[]): number =>
+  parts.reduce((sum, part) => {
+    if (part.text) return sum + Math.ceil(part.text.length / 4);
+    if (part.inlineData?.mimeType?.startsWith('audio/')) {
+      const seconds = ((part.inlineData.data?.length || 0) * 3) / 4 / (PCM_SAMPLE_RATE * 2);
+      return sum + Math.ceil(seconds * AUDIO_TOKENS_PER_SECOND);
+    }
+    return part.inlineData ? sum + IMAGE_TOKENS : sum;
+  }, 0);
+
+const isContent = (content: Content | Part): content is Content => 'parts' in content || 'role' in content;
+
+const requestParts = (contents: GenerateContentParameters['contents']): Part[] =>
+  (Array.isArray(contents) ? contents : [contents]).flatMap((content: Content | PartUnion): Part[] =>
+    typeof content === 'string' ? [{ text: content }] : isContent(content) ? content.parts || [] : [content]
+  );
+
+const responseWithParts = (params: GenerateContentParameters, parts: Part[]): GenerateContentResponse => {
+  const promptTokenCount = countTokens(requestParts(params.contents));
+  const candidatesTokenCount = countTokens(parts);
+  return Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP' }],
+    usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount },
+    modelVersion: 'mock',
+  });
+};
+
+const generateContent = async (params: GenerateContentParameters): Promise<GenerateContentResponse> => {
+  await abortableDelay(LATENCY_MS, params.config?.abortSignal);
+  const seed = hashString(params.model + JSON.stringify(params.contents) + (params.config?.seed ?? ''));
+  const modalities = params.config?.responseModalities?.map(m => String(m).toUpperCase()) || [];
+
+  if (modalities.includes('IMAGE')) {
+    const data = syntheticImage(seed, params.config?.imageConfig?.aspectRatio);
+    return responseWithParts(params, [{ inlineData: { data, mimeType: 'image/png' } }]);
+  }
+  if (modalities.includes('AUDIO')) {
+    const text = JSON.stringify(params.contents);
+    return responseWithParts(params, [{ inlineData: { data: syntheticPcm(text), mimeType: `audio/pcm;rate=${PCM_SAMPLE_RATE}` } }]);
+  }
+  // Subject detection is the only structured request; answer with a random box.
+  if (params.config?.responseMimeType === 'application/json') {
+    return responseWithParts(params, [{ text: JSON.stringify({ box_2d: syntheticBox(seed) }) }]);
+  }
+  return responseWithParts(params, [{ text: syntheticPrompt(seed) }]);
+};
+
+const connectLive = async ({ callbacks, config }: { callbacks: LiveCallbacks; config?: { outputAudioTranscription?: object } }): Promise<LiveSession> => {
+  let chunkCount = 0;
+  let turn = 0;
+  let closed = false;
+  // Only the conversation tab asks for output transcription; the transcriber just listens.
+  const replies = !!config?.outputAudioTranscription;
+
+  const emit = (message: Partial<LiveServerMessage>) => {
+    if (!closed) callbacks.onmessage(Object.assign(new LiveServerMessage(), message));
+  };
+
+  setTimeout(() => {
+    if (!closed) callbacks.onopen?.();
+  }, LATENCY_MS);
+
+  return {
+    sendRealtimeInput: () => {
+      if (closed) return;
+      chunkCount++;
+      if (chunkCount % CHUNKS_PER_TURN !== 0) return;
+
+      const line = turn++ % MOCK_USER_LINES.length;
+      emit({ serverContent: { inputTranscription: { text: MOCK_USER_LINES[line] } } });
+      let responseTokenCount = 0;
+      if (replies) {
+        const reply = MOCK_MODEL_LINES[line];
+        const audio: Part = { inlineData: { data: syntheticPcm(reply), mimeType: `audio/pcm;rate=${PCM_SAMPLE_RATE}` } };
+        responseTokenCount = countTokens([audio]);
+        emit({ serverContent: { outputTranscription: { text: reply } } });
+        emit({ serverContent: { modelTurn: { parts: [audio] } } });
+      }
+      emit({ serverContent: { turnComplete: true } });
+      const promptTokenCount = Math.round(TURN_SECONDS * AUDIO_TOKENS_PER_SECOND);
+      emit({ usageMetadata: { promptTokenCount, responseTokenCount, totalTokenCount: promptTokenCount + responseTokenCount } });
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      callbacks.onclose?.({ code: 1000, reason: 'Mock session closed.' } as CloseEvent);
+    },
+  };
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  generateContent,
+  connectLive,
+};
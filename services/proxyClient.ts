@@ -0,0 +1,154 @@
+import { LiveServerMessage } from '@google/genai';
+import type { GenerateContentResponseUsageMetadata, LiveConnectParameters } from '@google/genai';
+import type { LiveSession } from './aiProvider';
+import { budgetDeclined, ServiceError, ServiceErrorKind, toServiceError } from './errors';
+import { getCachedResult, ignoreCacheError, isCacheAvailable, putCachedResult, resultCacheKeyFor } from './responseCache';
+import { confirmWithinBudget, estimateRequestCost, recordUsage } from './usage';
+import type { RequestOptions } from './geminiService';
+
+// Client side of the API proxy (server/index.ts). When the app is built with PROXY_URL the
+// key stays on the server: every geminiService call becomes a POST to the endpoint of the
+// same name and the live session is relayed over a websocket. Each user signs in with
+// their own token, stored locally.
+
+// Positional arguments of each proxied service function, i.e. everything before `options`.
+export const PROXIED_FUNCTIONS = {
+  extractPromptFromImage: 1,
+  detectSubject: 1,
+  generativeResize: 3,
+  editImage: 2,
+  inpaintImage: 3,
+  generateMatte: 1,
+  faceSwap: 2,
+  generateImageFromText: 2,
+  generateSpeech: 3,
+  upscaleImage: 1,
+  generateImageFromElements: 1,
+  restyleImage: 3,
+  virtualTryOn: 2,
+  virtualTryOnMultiple: 2,
+} as const;
+
+export type ProxiedFunction = keyof typeof PROXIED_FUNCTIONS;
+
+// Usage the server recorded for a request, echoed back so the local dashboard stays accurate.
+export interface ProxyUsage {
+  provider: string;
+  model: string;
+  usage?: GenerateContentResponseUsageMetadata;
+}
+
+const TOKEN_KEY = 'hazhar:proxyToken';
+
+export const isProxyMode = (): boolean => !!process.env.PROXY_URL;
+
+export const getProxyToken = (): string =>
+  (typeof localStorage !== 'undefined' && localStorage.getItem(TOKEN_KEY)) || '';
+
+export const setProxyToken = (token: string) => {
+  if (typeof localStorage === 'undefined') return;
+  if (token.trim()) localStorage.setItem(TOKEN_KEY, token.trim());
+  else localStorage.removeItem(TOKEN_KEY);
+};
+
+const proxyUrl = (path: string): string => `${(process.env.PROXY_URL || '').replace(/\/$/, '')}${path}`;
+
+const missingToken = () =>
+  new ServiceError('invalidKey', 'No access token set. Paste the token you were given for the team server.');
+
+const readError = async (response: Response): Promise<ServiceError> => {
+  try {
+    const { error } = await response.json();
+    return new ServiceError(error.kind as ServiceErrorKind, error.message, { ...error.details, status: response.status });
+  } catch {
+    return new ServiceError(response.status === 401 ? 'invalidKey' : 'unknown', `The proxy server answered with status ${response.status}.`, { status: response.status });
+  }
+};
+
+// Results are cached locally like direct responses, so bypassCache works the same in both modes.
+export const callProxy = async <T>(fn: ProxiedFunction, args: unknown[], { signal, seed, bypassCache, tool = 'other' }: RequestOptions = {}): Promise<T> => {
+  const token = getProxyToken();
+  if (!token) throw missingToken();
+  const cacheKey = isCacheAvailable() ? await resultCacheKeyFor(fn, args, seed).catch(ignoreCacheError) : null;
+  if (cacheKey && !bypassCache) {
+    const cached = await getCachedResult<T>(cacheKey).catch(ignoreCacheError);
+    if (cached !== null) return cached;
+  }
+  // The server picks the model, so the estimate goes by what this tool has cost before.
+  if (!(await confirmWithinBudget(estimateRequestCost({ tool })))) throw budgetDeclined();
+
+  let response: Response;
+  try {
+    response = await fetch(proxyUrl(`/${fn}`), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      // Upload EXIF (camera, GPS position) stays in the browser; the server only needs the pixels.
+      body: JSON.stringify({ args, options: { seed, tool } }, (key, value) => (key === 'metadata' ? undefined : value)),
+      signal,
+    });
+  } catch (e) {
+    throw toServiceError(signal?.aborted ? signal.reason : e);
+  }
+  if (!response.ok) throw await readError(response);
+
+  const { result, usage } = (await response.json()) as { result: T; usage: ProxyUsage[] };
+  usage.forEach(entry => recordUsage({ tool, ...entry }));
+  if (cacheKey) await putCachedResult(cacheKey, fn, args, result).catch(ignoreCacheError);
+  return result;
+};
+
+// Messages on the live relay socket.
+export type LiveRelayClientMessage =
+  | { type: 'connect'; config: LiveConnectParameters['config']; tool: string }
+  | { type: 'realtimeInput'; input: Parameters<LiveSession['sendRealtimeInput']>[0] };
+
+export type LiveRelayServerMessage =
+  | { type: 'open' }
+  | { type: 'message'; message: unknown }
+  | { type: 'error'; error: { kind: ServiceErrorKind; message: string } };
+
+const liveRelayUrl = (token: string): string => {
+  const url = new URL(proxyUrl('/live'), typeof location !== 'undefined' ? location.href : undefined);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.searchParams.set('token', token);
+  return url.toString();
+};
+
+// Same contract as AIProvider.connectLive; the server picks the live model itself.
+export const connectProxyLive = ({ callbacks, config }: LiveConnectParameters, tool: string): Promise<LiveSession> => {
+  const token = getProxyToken();
+  if (!token) return Promise.reject(missingToken());
+
+  const socket = new WebSocket(liveRelayUrl(token));
+  const session: LiveSession = {
+    sendRealtimeInput: input => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'realtimeInput', input } satisfies LiveRelayClientMessage));
+    },
+    close: () => socket.close(),
+  };
+
+  return new Promise<LiveSession>((resolve, reject) => {
+    let opened = false;
+    socket.onopen = () => socket.send(JSON.stringify({ type: 'connect', config, tool } satisfies LiveRelayClientMessage));
+    socket.onmessage = (event: MessageEvent) => {
+      const data = JSON.parse(event.data) as LiveRelayServerMessage;
+      if (data.type === 'open') {
+        opened = true;
+        resolve(session);
+        callbacks.onopen?.();
+      } else if (data.type === 'message') {
+        callbacks.onmessage(Object.assign(new LiveServerMessage(), data.message));
+      } else if (data.type === 'error') {
+        if (!opened) reject(new ServiceError(data.error.kind, data.error.message));
+        else callbacks.onerror?.(new ErrorEvent('error', { message: data.error.message }));
+      }
+    };
+    socket.onerror = () => {
+      if (!opened) reject(new ServiceError('network', 'Could not reach the proxy server for the live session.'));
+    };
+    socket.onclose = (event: CloseEvent) => {
+      if (!opened) reject(new ServiceError(event.code === 4401 ? 'invalidKey' : 'network', event.reason || 'The proxy server closed the live session.'));
+      else callbacks.onclose?.(event);
+    };
+  });
+};
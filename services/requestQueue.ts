@@ -0,0 +1,203 @@
+import { ServiceError, abortableDelay, getErrorMessage, toServiceError } from './errors';
+
+// Global queue in front of the provider. Each model gets its own concurrency cap and
+// requests-per-minute window, so a burst of upscales or try-ons waits its turn instead of
+// running into 429s. Jobs can be reordered or cancelled until they start.
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueJob {
+  id: number;
+  model: string;
+  tool: string;
+  status: JobStatus;
+  enqueuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+export interface QueueLimits {
+  // Simultaneous requests per model.
+  concurrency: number;
+  // Requests started per model in any 60 second window.
+  requestsPerMinute: number;
+}
+
+interface InternalJob extends QueueJob {
+  controller: AbortController;
+  start: () => void;
+}
+
+const STORAGE_KEY = 'hazhar:queue';
+const WINDOW_MS = 60_000;
+const MAX_FINISHED = 30;
+export const DEFAULT_QUEUE_LIMITS: QueueLimits = { concurrency: 2, requestsPerMinute: 10 };
+
+const readLimits = (): QueueLimits => {
+  if (typeof localStorage === 'undefined') return DEFAULT_QUEUE_LIMITS;
+  try {
+    return { ...DEFAULT_QUEUE_LIMITS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_QUEUE_LIMITS;
+  }
+};
+
+let limits = readLimits();
+let jobs: InternalJob[] = [];
+let nextId = 1;
+// Start times per model, for the rolling RPM window.
+const starts = new Map<string, number[]>();
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeQueue = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Snapshots without internals, safe to hand to React.
+export const getJobs = (): QueueJob[] =>
+  jobs.map(({ controller, start, ...job }) => ({ ...job }));
+
+export const getQueueLimits = (): QueueLimits => limits;
+
+export const setQueueLimits = (next: QueueLimits) => {
+  limits = {
+    concurrency: Math.max(1, Math.floor(next.concurrency) || 1),
+    requestsPerMinute: Math.max(1, Math.floor(next.requestsPerMinute) || 1),
+  };
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(limits));
+  pump();
+  notify();
+};
+
+const recentStarts = (model: string, now: number): number[] => {
+  const recent = (starts.get(model) || []).filter(time => now - time < WINDOW_MS);
+  starts.set(model, recent);
+  return recent;
+};
+
+const finish = (job: InternalJob, status: JobStatus, error?: unknown) => {
+  job.status = status;
+  job.finishedAt = Date.now();
+  if (error !== undefined && status === 'failed') job.error = getErrorMessage(error);
+  const finished = jobs.filter(j => j.finishedAt);
+  if (finished.length > MAX_FINISHED) {
+    const drop = new Set(finished.slice(0, finished.length - MAX_FINISHED));
+    jobs = jobs.filter(j => !drop.has(j));
+  }
+  pump();
+  notify();
+};
+
+// Starts every pending job its model has room for, in queue order.
+const pump = () => {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+  const now = Date.now();
+  let wakeAt = Infinity;
+  for (const job of jobs) {
+    if (job.status !== 'pending') continue;
+    const running = jobs.filter(j => j.model === job.model && j.status === 'running').length;
+    if (running >= limits.concurrency) continue;
+    const recent = recentStarts(job.model, now);
+    if (recent.length >= limits.requestsPerMinute) {
+      wakeAt = Math.min(wakeAt, recent[0] + WINDOW_MS);
+      continue;
+    }
+    recent.push(now);
+    job.status = 'running';
+    job.startedAt = now;
+    job.start();
+  }
+  if (wakeAt !== Infinity) wakeTimer = setTimeout(pump, Math.max(0, wakeAt - Date.now()));
+};
+
+export const enqueue = <T>(
+  meta: { model: string; tool: string },
+  task: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  signal?.throwIfAborted();
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  return new Promise<T>((resolve, reject) => {
+    const job: InternalJob = {
+      id: nextId++,
+      model: meta.model,
+      tool: meta.tool,
+      status: 'pending',
+      enqueuedAt: Date.now(),
+      controller,
+      start: () => {
+        task(controller.signal).then(
+          value => {
+            finish(job, 'done');
+            resolve(value);
+          },
+          error => {
+            finish(job, toServiceError(error).kind === 'cancelled' ? 'cancelled' : 'failed', error);
+            reject(error);
+          }
+        );
+      },
+    };
+    controller.signal.addEventListener('abort', () => {
+      if (job.status !== 'pending') return;
+      finish(job, 'cancelled');
+      reject(toServiceError(controller.signal.reason));
+    }, { once: true });
+    jobs.push(job);
+    pump();
+    notify();
+  }).finally(() => signal?.removeEventListener('abort', forwardAbort));
+};
+
+// Retries inside a running job count against its model's window like a new start, so a
+// burst of failing requests cannot exceed the requests-per-minute limit.
+export const waitForStartSlot = async (model: string, signal?: AbortSignal): Promise<void> => {
+  for (;;) {
+    const now = Date.now();
+    const recent = recentStarts(model, now);
+    if (recent.length < limits.requestsPerMinute) {
+      recent.push(now);
+      return;
+    }
+    await abortableDelay(recent[0] + WINDOW_MS - now, signal);
+  }
+};
+
+// Cancels a pending job, or aborts a running one.
+export const cancelJob = (id: number) => {
+  const job = jobs.find(j => j.id === id);
+  if (job && (job.status === 'pending' || job.status === 'running')) {
+    job.controller.abort(new ServiceError('cancelled', 'Request cancelled from the queue.'));
+  }
+};
+
+// Moves a pending job one place up or down among the pending jobs.
+export const moveJob = (id: number, direction: -1 | 1) => {
+  const pending = jobs.filter(j => j.status === 'pending');
+  const index = pending.findIndex(j => j.id === id);
+  const other = pending[index + direction];
+  if (index < 0 || !other) return;
+  const a = jobs.indexOf(pending[index]);
+  const b = jobs.indexOf(other);
+  [jobs[a], jobs[b]] = [jobs[b], jobs[a]];
+  pump();
+  notify();
+};
+
+export const clearFinishedJobs = () => {
+  jobs = jobs.filter(j => !j.finishedAt);
+  notify();
+};
@@ -0,0 +1,206 @@
+import { GenerateContentResponse } from '@google/genai';
+import type { Content, GenerateContentParameters, Part, PartUnion } from '@google/genai';
+
+// Content-addressed store for successful generateContent responses.
+// The key is a SHA-256 of provider + model + contents (image base64 and prompt) + config,
+// so re-running an identical request is served locally instead of being billed again.
+// In proxy mode the responses stay on the server; the finished result of each proxied call
+// is stored instead, keyed on function name and arguments.
+
+const DB_NAME = 'hazhar';
+const DB_VERSION = 1;
+const STORE = 'responses';
+const MAX_ENTRIES = 200;
+
+type StoredResponse = Pick<GenerateContentResponse, 'candidates' | 'promptFeedback' | 'usageMetadata' | 'modelVersion'>;
+
+export interface CacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  // First text part of the request, for display in the cache browser.
+  prompt: string;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+  sizeBytes: number;
+  response?: StoredResponse;
+  // Return value of a proxied service function, in place of a response.
+  result?: unknown;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isCacheAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+
+// Cache failures (private mode, quota, no IndexedDB in Node) only cost us the cache, never the request.
+export const ignoreCacheError = (e: unknown) => {
+  console.warn('Response cache unavailable:', e);
+  return null;
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastUsedAt', 'lastUsedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(e => {
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const sha256 = async (material: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The abort signal is per call and must not affect the key.
+export const cacheKeyFor = (providerId: string, params: GenerateContentParameters): Promise<string> => {
+  const { abortSignal, ...config } = params.config || {};
+  return sha256(JSON.stringify({ provider: providerId, model: params.model, contents: params.contents, config }));
+};
+
+// Upload EXIF does not change what the model sees, so it stays out of the key.
+export const resultCacheKeyFor = (fn: string, args: unknown[], seed?: number): Promise<string> =>
+  sha256(JSON.stringify({ provider: 'proxy', fn, args, seed }, (key, value) => (key === 'metadata' ? undefined : value)));
+
+// Refusals and empty answers are not worth keeping: a retry may well succeed.
+export const isCacheable = (params: GenerateContentParameters, response: GenerateContentResponse): boolean => {
+  if (response.promptFeedback?.blockReason) return false;
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const wantsMedia = (params.config?.responseModalities || []).some(m => ['IMAGE', 'AUDIO'].includes(String(m).toUpperCase()));
+  return wantsMedia ? parts.some(p => p.inlineData?.data) : parts.some(p => p.text);
+};
+
+const isContent = (content: Content | Part): content is Content => 'parts' in content || 'role' in content;
+
+const firstPrompt = (contents: GenerateContentParameters['contents']): string => {
+  const list = Array.isArray(contents) ? contents : [contents];
+  for (const content of list as (Content | PartUnion)[]) {
+    if (typeof content === 'string') return content;
+    const parts = isContent(content) ? content.parts || [] : [content];
+    const text = parts.find(p => typeof p.text === 'string')?.text;
+    if (text) return text;
+  }
+  return '';
+};
+
+const getEntry = async (key: string): Promise<CacheEntry | null> => {
+  const entry = await run<CacheEntry | undefined>('readonly', store => store.get(key));
+  if (!entry) return null;
+  await run('readwrite', store => store.put({ ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 }));
+  return entry;
+};
+
+export const getCachedResponse = async (key: string): Promise<GenerateContentResponse | null> => {
+  const entry = await getEntry(key);
+  return entry?.response ? Object.assign(new GenerateContentResponse(), entry.response) : null;
+};
+
+export const getCachedResult = async <T>(key: string): Promise<T | null> => {
+  const entry = await getEntry(key);
+  return entry && entry.result !== undefined ? (entry.result as T) : null;
+};
+
+export const putCachedResponse = async (
+  key: string,
+  providerId: string,
+  params: GenerateContentParameters,
+  response: GenerateContentResponse
+): Promise<void> => {
+  const stored: StoredResponse = {
+    candidates: response.candidates,
+    promptFeedback: response.promptFeedback,
+    usageMetadata: response.usageMetadata,
+    modelVersion: response.modelVersion,
+  };
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key,
+    provider: providerId,
+    model: params.model,
+    prompt: firstPrompt(params.contents).slice(0, 500),
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+    sizeBytes: JSON.stringify(stored).length,
+    response: stored,
+  };
+  await run('readwrite', store => store.put(entry));
+  await evictOverflow();
+};
+
+export const putCachedResult = async (key: string, fn: string, args: unknown[], result: unknown): Promise<void> => {
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key,
+    provider: 'proxy',
+    model: fn,
+    prompt: String(args.find(arg => typeof arg === 'string') ?? '').slice(0, 500),
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+    sizeBytes: JSON.stringify(result).length,
+    result,
+  };
+  await run('readwrite', store => store.put(entry));
+  await evictOverflow();
+};
+
+// Drops least recently used entries beyond MAX_ENTRIES.
+const evictOverflow = async (): Promise<void> => {
+  const count = await run<number>('readonly', store => store.count());
+  if (count <= MAX_ENTRIES) return;
+  const keys = await run<IDBValidKey[]>('readonly', store => store.index('lastUsedAt').getAllKeys(null, count - MAX_ENTRIES));
+  await Promise.all(keys.map(key => run('readwrite', store => store.delete(key))));
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await run<CacheEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+export const deleteCacheEntry = (key: string): Promise<undefined> => run('readwrite', store => store.delete(key));
+
+export const clearCache = (): Promise<undefined> => run('readwrite', store => store.clear());
+
+// Proxied results are data URLs for images and bare base64 PCM for speech.
+const resultMedia = (entry: CacheEntry): { data: string; mimeType: string } | null => {
+  if (typeof entry.result !== 'string') return null;
+  if (entry.model === 'generateSpeech') return { data: entry.result, mimeType: 'audio/pcm' };
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(entry.result);
+  return match ? { data: match[2], mimeType: match[1] } : null;
+};
+
+// Image or audio payload of a cached response, for previews.
+export const getEntryMedia = (entry: CacheEntry): { data: string; mimeType: string } | null => {
+  if (!entry.response) return resultMedia(entry);
+  const part = entry.response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+  return part?.inlineData?.data ? { data: part.inlineData.data, mimeType: part.inlineData.mimeType || '' } : null;
+};
+
+export const getEntryText = (entry: CacheEntry): string => {
+  if (!entry.response) {
+    if (resultMedia(entry)) return '';
+    return typeof entry.result === 'string' ? entry.result : JSON.stringify(entry.result ?? '');
+  }
+  return entry.response.candidates?.[0]?.content?.parts?.map(p => p.text).filter(Boolean).join(' ') || '';
+};
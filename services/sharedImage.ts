@@ -0,0 +1,22 @@
+import type { ImageFile } from '../types';
+
+// The latest image one tool offers to the others, e.g. the image editor's adjusted result.
+// Every uploader offers to take it, so it moves to another tab without a download and
+// re-upload. Kept in memory only.
+
+let shared: ImageFile | null = null;
+const listeners = new Set<() => void>();
+
+export const subscribeSharedImage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getSharedImage = (): ImageFile | null => shared;
+
+export const shareImage = (image: ImageFile | null) => {
+  shared = image;
+  listeners.forEach(listener => listener());
+};
@@ -0,0 +1,100 @@
+// Output sizes for the image sizer: built-in packs plus presets the user saves, kept in
+// local storage and shared between devices as JSON files.
+
+export interface SizePreset {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export type PresetPackId = 'general' | 'social' | 'print' | 'custom';
+
+export const BUILT_IN_PACKS: Record<Exclude<PresetPackId, 'custom'>, SizePreset[]> = {
+  general: [
+    { name: 'Mobile Story', width: 1080, height: 1920 },
+    { name: 'HD', width: 1920, height: 1080 },
+    { name: 'Square', width: 1080, height: 1080 },
+  ],
+  social: [
+    { name: 'Instagram Post', width: 1080, height: 1080 },
+    { name: 'Instagram Portrait', width: 1080, height: 1350 },
+    { name: 'Instagram Story', width: 1080, height: 1920 },
+    { name: 'YouTube Thumbnail', width: 1280, height: 720 },
+    { name: 'X Header', width: 1500, height: 500 },
+    { name: 'LinkedIn Banner', width: 1584, height: 396 },
+  ],
+  // Pixel sizes at 300 DPI.
+  print: [
+    { name: 'A4', width: 2480, height: 3508 },
+    { name: 'A5', width: 1748, height: 2480 },
+    { name: 'US Letter', width: 2550, height: 3300 },
+    { name: '4×6 in', width: 1200, height: 1800 },
+    { name: '5×7 in', width: 1500, height: 2100 },
+    { name: '8×10 in', width: 2400, height: 3000 },
+  ],
+};
+
+const STORAGE_KEY = 'hazhar:size-presets';
+
+// Canvas sizes beyond this fail in some browsers.
+const MAX_DIMENSION = 16384;
+
+const isSizePreset = (value: unknown): value is SizePreset => {
+  const preset = value as SizePreset;
+  return (
+    !!preset &&
+    typeof preset.name === 'string' &&
+    preset.name.trim() !== '' &&
+    [preset.width, preset.height].every(side => Number.isInteger(side) && side > 0 && side <= MAX_DIMENSION)
+  );
+};
+
+const readPresets = (): SizePreset[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(isSizePreset) : [];
+  } catch {
+    return [];
+  }
+};
+
+let customPresets = readPresets();
+
+export const getCustomPresets = (): SizePreset[] => customPresets;
+
+const store = (next: SizePreset[]): SizePreset[] => {
+  customPresets = next;
+  if (typeof localStorage !== 'undefined') {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Storage full or disabled: the presets still last for this session.
+    }
+  }
+  return next;
+};
+
+// Presets are keyed by name; saving or importing one with an existing name replaces it.
+export const saveCustomPresets = (presets: SizePreset[]): SizePreset[] => {
+  const byName = new Map(customPresets.map(preset => [preset.name, preset]));
+  presets.forEach(preset => byName.set(preset.name, preset));
+  return store([...byName.values()]);
+};
+
+export const removeCustomPreset = (name: string): SizePreset[] =>
+  store(customPresets.filter(preset => preset.name !== name));
+
+export const exportPresets = (presets: SizePreset[]): Blob =>
+  new Blob([JSON.stringify({ presets }, null, 2)], { type: 'application/json' });
+
+// Accepts an exported file or a bare array of presets. Throws if nothing valid is in it.
+export const parsePresetFile = (text: string): SizePreset[] => {
+  const parsed = JSON.parse(text);
+  const list: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.presets) ? parsed.presets : [];
+  const presets = list
+    .filter(isSizePreset)
+    .map(({ name, width, height }) => ({ name: name.trim(), width, height }));
+  if (presets.length === 0) throw new Error('No presets found in this file.');
+  return presets;
+};
@@ -0,0 +1,202 @@
+import type { GenerateContentResponseUsageMetadata, UsageMetadata } from '@google/genai';
+import { estimateCost } from './pricing';
+
+// Token usage aggregated per day, tool and model, persisted in localStorage.
+// Costs are derived at read time so a price correction applies to past usage too.
+
+export interface UsageBucket {
+  day: string; // local date, YYYY-MM-DD
+  tool: string;
+  provider: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Null when some of the usage is for a model without a known price.
+  costUsd: number | null;
+}
+
+export interface BudgetLimits {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+}
+
+export interface BudgetWarning {
+  period: 'daily' | 'monthly';
+  limitUsd: number;
+  spentUsd: number;
+  // Expected cost of the request about to be sent; spentUsd may still be under the limit.
+  requestUsd: number;
+}
+
+const USAGE_KEY = 'hazhar:usage';
+const BUDGET_KEY = 'hazhar:budget';
+const RETENTION_DAYS = 400;
+
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  if (!hasStorage()) return fallback;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  if (hasStorage()) localStorage.setItem(key, JSON.stringify(value));
+};
+
+export const toDayKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+let buckets: UsageBucket[] = readJson<UsageBucket[]>(USAGE_KEY, []);
+
+const pruneOld = () => {
+  const cutoff = toDayKey(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  buckets = buckets.filter(bucket => bucket.day >= cutoff);
+};
+
+// generateContent and live responses report usage with slightly different field names.
+const normalize = (usage: GenerateContentResponseUsageMetadata | UsageMetadata) => ({
+  inputTokens: (usage.promptTokenCount || 0) + (usage.toolUsePromptTokenCount || 0),
+  outputTokens:
+    (('candidatesTokenCount' in usage ? usage.candidatesTokenCount : undefined) ??
+      ('responseTokenCount' in usage ? usage.responseTokenCount : undefined) ??
+      0) + (usage.thoughtsTokenCount || 0),
+});
+
+export const recordUsage = (entry: {
+  tool: string;
+  provider: string;
+  model: string;
+  usage?: GenerateContentResponseUsageMetadata | UsageMetadata;
+  requests?: number;
+}) => {
+  const { inputTokens, outputTokens } = entry.usage ? normalize(entry.usage) : { inputTokens: 0, outputTokens: 0 };
+  const requests = entry.requests ?? 1;
+  if (!requests && !inputTokens && !outputTokens) return;
+
+  const day = toDayKey();
+  let bucket = buckets.find(b => b.day === day && b.tool === entry.tool && b.provider === entry.provider && b.model === entry.model);
+  if (!bucket) {
+    bucket = { day, tool: entry.tool, provider: entry.provider, model: entry.model, requests: 0, inputTokens: 0, outputTokens: 0 };
+    buckets.push(bucket);
+  }
+  bucket.requests += requests;
+  bucket.inputTokens += inputTokens;
+  bucket.outputTokens += outputTokens;
+
+  pruneOld();
+  writeJson(USAGE_KEY, buckets);
+};
+
+// Offline demo usage is counted but never costs anything.
+export const bucketCost = (bucket: UsageBucket): number | null =>
+  bucket.provider === 'mock' ? 0 : estimateCost(bucket.model, bucket.inputTokens, bucket.outputTokens);
+
+export const getUsage = (sinceDay?: string): UsageBucket[] =>
+  buckets.filter(bucket => !sinceDay || bucket.day >= sinceDay).map(bucket => ({ ...bucket }));
+
+export const sumUsage = (list: UsageBucket[]): UsageTotals =>
+  list.reduce<UsageTotals>(
+    (totals, bucket) => {
+      const cost = bucketCost(bucket);
+      return {
+        requests: totals.requests + bucket.requests,
+        inputTokens: totals.inputTokens + bucket.inputTokens,
+        outputTokens: totals.outputTokens + bucket.outputTokens,
+        costUsd: totals.costUsd === null || cost === null ? null : totals.costUsd + cost,
+      };
+    },
+    { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+  );
+
+export const clearUsage = () => {
+  buckets = [];
+  writeJson(USAGE_KEY, buckets);
+};
+
+// --- Soft budget limits ---
+
+export const getBudgetLimits = (): BudgetLimits => readJson<BudgetLimits>(BUDGET_KEY, { dailyUsd: null, monthlyUsd: null });
+
+export const setBudgetLimits = (limits: BudgetLimits) => writeJson(BUDGET_KEY, limits);
+
+// Unpriced usage counts as $0 here; the limits are a guide, not a hard cap.
+const spentSince = (sinceDay: string): number =>
+  getUsage(sinceDay).reduce((sum, bucket) => sum + (bucketCost(bucket) ?? 0), 0);
+
+// Limits that are reached, or that a request costing requestUsd would cross.
+export const getBudgetWarnings = (requestUsd = 0): BudgetWarning[] => {
+  const { dailyUsd, monthlyUsd } = getBudgetLimits();
+  const today = toDayKey();
+  const warnings: BudgetWarning[] = [];
+  if (dailyUsd !== null) {
+    const spentUsd = spentSince(today);
+    if (spentUsd + requestUsd >= dailyUsd) warnings.push({ period: 'daily', limitUsd: dailyUsd, spentUsd, requestUsd });
+  }
+  if (monthlyUsd !== null) {
+    const spentUsd = spentSince(`${today.slice(0, 7)}-01`);
+    if (spentUsd + requestUsd >= monthlyUsd) warnings.push({ period: 'monthly', limitUsd: monthlyUsd, spentUsd, requestUsd });
+  }
+  return warnings;
+};
+
+// Average cost of past requests matching the filter (e.g. the same provider and model, or the
+// same tool through the proxy); 0 until there is priced usage to go by.
+export const estimateRequestCost = (match: Partial<Pick<UsageBucket, 'tool' | 'provider' | 'model'>>): number => {
+  let cost = 0;
+  let requests = 0;
+  for (const bucket of buckets) {
+    if ((match.tool && bucket.tool !== match.tool) || (match.provider && bucket.provider !== match.provider) || (match.model && bucket.model !== match.model)) continue;
+    const bucketUsd = bucketCost(bucket);
+    if (bucketUsd === null || bucket.requests === 0) continue;
+    cost += bucketUsd;
+    requests += bucket.requests;
+  }
+  return requests > 0 ? cost / requests : 0;
+};
+
+type BudgetPrompt = (warnings: BudgetWarning[]) => boolean | Promise<boolean>;
+
+let budgetPrompt: BudgetPrompt | null = null;
+let pendingConfirmation: Promise<boolean> | null = null;
+// Periods the user already agreed to exceed, e.g. "daily:2024-05-01", so they are asked once.
+const acknowledged = new Set<string>();
+
+// The UI registers how to ask the user; without one (e.g. in Node) requests just proceed.
+export const setBudgetPrompt = (prompt: BudgetPrompt | null) => {
+  budgetPrompt = prompt;
+};
+
+const periodKey = (warning: BudgetWarning) =>
+  `${warning.period}:${warning.period === 'daily' ? toDayKey() : toDayKey().slice(0, 7)}`;
+
+// Resolves false when the user declines to go over a limit, either one already reached or one
+// this request (expected to cost requestUsd) would cross. Parallel requests (e.g. variants)
+// share one prompt.
+export const confirmWithinBudget = async (requestUsd = 0): Promise<boolean> => {
+  const warnings = getBudgetWarnings(requestUsd).filter(warning => !acknowledged.has(periodKey(warning)));
+  if (warnings.length === 0) return true;
+  if (!budgetPrompt) {
+    console.warn('Budget limit reached:', warnings);
+    return true;
+  }
+  if (!pendingConfirmation) {
+    pendingConfirmation = Promise.resolve(budgetPrompt(warnings)).finally(() => {
+      pendingConfirmation = null;
+    });
+  }
+  const confirmed = await pendingConfirmation;
+  if (confirmed) warnings.forEach(warning => acknowledged.add(periodKey(warning)));
+  return confirmed;
+};
@@ -0,0 +1,48 @@
+import { CustomFont, OverlayLayer, renderOverlay } from '../utils/overlay';
+
+// The saved watermark: overlay layers stamped onto every image downloaded from any tab while
+// enabled. Fonts and logos are stored inline, so the preset works after a reload.
+
+export interface WatermarkPreset {
+  enabled: boolean;
+  layers: OverlayLayer[];
+  fonts: CustomFont[];
+}
+
+const STORAGE_KEY = 'hazhar:watermark';
+
+const EMPTY: WatermarkPreset = { enabled: false, layers: [], fonts: [] };
+
+const readPreset = (): WatermarkPreset => {
+  if (typeof localStorage === 'undefined') return EMPTY;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return parsed && Array.isArray(parsed.layers) ? { ...EMPTY, ...parsed } : EMPTY;
+  } catch {
+    return EMPTY;
+  }
+};
+
+let preset = readPreset();
+
+export const getWatermark = (): WatermarkPreset => preset;
+
+// Returns false when the preset is too large for local storage (usually a big font or logo);
+// it still applies for the rest of the session.
+export const saveWatermark = (next: WatermarkPreset): boolean => {
+  preset = next;
+  if (typeof localStorage === 'undefined') return true;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const setWatermarkEnabled = (enabled: boolean): boolean => saveWatermark({ ...preset, enabled });
+
+export const isWatermarkActive = (): boolean => preset.enabled && preset.layers.length > 0;
+
+export const applyWatermark = async (image: string): Promise<string> =>
+  isWatermarkActive() ? renderOverlay(image, preset.layers, preset.fonts) : image;
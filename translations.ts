@@ -6,6 +6,143 @@ export const translations = {
     dir: 'ltr',
     title: 'Hazhar-Shawli-Bedarooni',
     subtitle: 'Create and transform with AI. Image editing, TTS, and Face Swap.',
+    provider: {
+      label: 'AI Backend',
+      gemini: 'Gemini API',
+      mock: 'Offline Demo',
+      mockNotice: 'Offline demo mode: results are synthetic and generated locally.',
+      proxy: 'Team Server',
+      tokenPlaceholder: 'Access token',
+      tokenMissing: 'Paste the access token you were given to use the team server.'
+    },
+    cache: {
+      button: 'Cache',
+      title: 'Response Cache',
+      desc: 'Identical requests are answered from this local cache instead of calling the API again.',
+      empty: 'The cache is empty.',
+      clearAll: 'Clear All',
+      delete: 'Delete',
+      close: 'Close',
+      hits: 'hits',
+      unavailable: 'Caching is not available in this browser.'
+    },
+    usage: {
+      title: 'Usage & Cost',
+      desc: 'Token usage recorded from every request on this device. Costs are estimates based on list prices.',
+      today: 'Today',
+      last7: 'Last 7 days',
+      last30: 'Last 30 days',
+      all: 'All time',
+      requests: 'Requests',
+      inputTokens: 'Input tokens',
+      outputTokens: 'Output tokens',
+      cost: 'Est. cost',
+      byTool: 'By tool',
+      byModel: 'By model',
+      unknownPrice: 'price unknown',
+      budgetTitle: 'Soft budget limits',
+      budgetDesc: 'Once a limit is reached you will be asked to confirm before each request.',
+      dailyLimit: 'Daily limit (USD)',
+      monthlyLimit: 'Monthly limit (USD)',
+      noLimit: 'No limit',
+      spent: 'spent',
+      reset: 'Reset usage',
+      empty: 'No usage recorded yet.',
+      confirmOver: 'You have spent {spent} of your {period} budget of {limit}. Send this request anyway?',
+      confirmNear: 'This request (about {cost}) would take you over your {period} budget of {limit}; {spent} is spent so far. Send it anyway?',
+      daily: 'daily',
+      monthly: 'monthly'
+    },
+    models: {
+      button: 'Models',
+      title: 'Model Settings',
+      desc: 'Choose which model serves each capability. Changes apply to the next request and are saved in this browser.',
+      edit: 'Image editing & generation',
+      highRes: 'High-resolution (4K) images',
+      faceSwap: 'Face swap',
+      vision: 'Vision (prompt extraction)',
+      tts: 'Text to speech',
+      live: 'Live conversation & transcription',
+      custom: 'Custom model ID…',
+      customPlaceholder: 'e.g. gemini-3-flash-image',
+      preview: 'Preview',
+      default: 'default',
+      unknownModel: 'Not in the built-in list; capabilities unknown.',
+      resetAll: 'Restore Defaults',
+      close: 'Close'
+    },
+    queue: {
+      button: 'Queue',
+      title: 'Request Queue',
+      desc: 'Requests wait here so each model stays within its concurrency and per-minute limits.',
+      concurrency: 'Concurrent requests per model',
+      rpm: 'Requests per minute per model',
+      running: 'Running',
+      pending: 'Waiting',
+      finished: 'Finished',
+      empty: 'No requests yet.',
+      moveUp: 'Move up',
+      moveDown: 'Move down',
+      cancel: 'Cancel',
+      clearFinished: 'Clear Finished',
+      close: 'Close',
+      done: 'Done',
+      failed: 'Failed',
+      cancelled: 'Cancelled'
+    },
+    exportDialog: {
+      title: 'Export Image',
+      format: 'Format',
+      unsupported: 'Not supported by this browser',
+      qualityMode: 'Quality',
+      targetMode: 'Target Size',
+      quality: 'Quality',
+      targetSize: 'Maximum file size (KB)',
+      losslessNote: 'PNG is lossless; its size depends only on the image.',
+      estimating: 'Estimating size...',
+      estimatedSize: 'File size',
+      qualityUsed: 'at {quality}% quality',
+      targetTooSmall: 'Even the lowest quality is larger than the target size.',
+      error: 'Could not encode this image.',
+      saveError: 'Could not write the file. Try another format or turn off metadata copying.',
+      dpiNote: 'Saved at {dpi} DPI for print.',
+      dpiUnsupported: 'Only PNG and JPEG files store the print DPI.',
+      metadata: 'Metadata',
+      metadataStrip: 'Strip All',
+      metadataNoGps: 'Copy Without Location',
+      metadataKeep: 'Copy All',
+      metadataUnsupported: 'Only PNG and JPEG files can carry metadata; this file will have none.',
+      cancel: 'Cancel',
+      download: 'Download'
+    },
+    intake: {
+      paste: 'Paste',
+      fromUrl: 'From URL',
+      camera: 'Camera',
+      useShared: 'Use edited image',
+      loading: 'Loading…',
+      import: 'Import',
+      takePhoto: 'Take Photo',
+      cancel: 'Cancel',
+      dropHint: 'Click, drop or paste an image',
+      formats: 'PNG, JPG, WEBP, HEIC, TIFF or RAW',
+      loaded: 'Loaded: {name}',
+      cameraUnsupported: 'This browser cannot use the camera here. Camera access needs a secure (https) page.',
+      cameraFailed: 'The camera could not be opened. Check that it is connected and that access is allowed.',
+      unsupported: '{name} is not a supported image. Use PNG, JPG, WEBP, GIF, BMP, HEIC, TIFF or a camera RAW file.',
+      unsupportedMedia: '{name} is not a supported image or video. Use PNG, JPG, WEBP, GIF, BMP, HEIC, TIFF, a camera RAW file or a video.',
+      tooLarge: '{name} is larger than {size} MB.',
+      unreadable: '{name} could not be read as an image.',
+      decodeFailed: '{name} could not be opened: {detail}',
+      invalidUrl: 'Enter a full image address, starting with https://.',
+      urlProtocol: 'Only http and https addresses can be imported.',
+      downloadBlocked: 'The image could not be downloaded. The site may not allow other apps to load its images.',
+      downloadStatus: 'The image could not be downloaded (status {status}).',
+      clipboardUnsupported: 'This browser cannot read images from the clipboard. Press Ctrl+V instead.',
+      clipboardDenied: 'Reading the clipboard was not allowed. Press Ctrl+V instead.',
+      clipboardEmpty: 'There is no image on the clipboard.',
+      captureFailed: 'Could not capture the photo.'
+    },
     tabs: {
       faceSwap: 'Face Swap',
       conversation: 'Conversation',
@@ -13,11 +150,14 @@ export const translations = {
       reference: 'Image Reference',
       editor: 'Image Editor',
       effects: 'Image Effects',
+      background: 'Background Remover',
+      overlay: 'Text & Watermark',
       upscaler: 'Upscaler',
       sizer: 'AI Image Sizer',
       promptExtractor: 'AI Vision (Prompt)',
       tts: 'Speech',
-      transcriber: 'Transcriber'
+      transcriber: 'Transcriber',
+      usage: 'Usage'
     },
     promptExtractor: {
       title: 'AI Prompt Extractor',
@@ -30,6 +170,8 @@ export const translations = {
       copy: 'Copy Prompt',
       placeholder: 'Upload media to see the AI analysis...',
       copied: 'Copied to clipboard!',
+      cancel: 'Cancel',
+      bypassCache: 'Skip cache',
       videoHint: 'Play video and stop on the frame you want to analyze.'
     },
     faceSwap: {
@@ -45,6 +187,8 @@ export const translations = {
       processing: 'Performing swap...',
       resultTitle: 'Swapped Result',
       save: 'Save Image',
+      cancel: 'Cancel',
+      bypassCache: 'Skip cache',
       errorKey: 'Please select an API key first.'
     },
     imageSizer: {
@@ -62,14 +206,201 @@ export const translations = {
       processing: 'Processing...',
       resultTitle: 'Result',
       save: 'Save',
+      cancel: 'Cancel',
+      bypassCache: 'Skip cache',
       errorUpload: 'Please upload an image first.',
-      errorDimensions: 'Invalid dimensions.'
+      errorDimensions: 'Invalid dimensions.',
+      singleMode: 'Single Image',
+      batchMode: 'Batch',
+      dropHint: 'Drop images or a folder here',
+      addFiles: 'Add Images',
+      addFolder: 'Add Folder',
+      clearAll: 'Clear',
+      fileCount: '{count} images',
+      namePattern: 'File Name Pattern',
+      namePatternHint: 'Use {name}, {width}, {height} and {index}.',
+      batchButtonLabel: 'Resize {count} Images',
+      batchProgress: '{done} of {total} done',
+      downloadZip: 'Download ZIP',
+      statusPending: 'Waiting',
+      statusProcessing: 'Processing...',
+      statusDone: 'Done',
+      statusFailed: 'Failed',
+      errorNoFiles: 'Please add some images first.',
+      focalTitle: 'Focal Point',
+      focalHint: 'Click or drag on the image to choose what stays in frame when cropping.',
+      detectSubject: 'Detect Subject',
+      centerFocus: 'Center',
+      cropPreview: 'Crop Preview',
+      customSize: 'Custom',
+      autoDetect: 'Detect the subject in each image to keep it in frame (one vision request per image)',
+      packGeneral: 'General',
+      packSocial: 'Social Media',
+      packPrint: 'Print (300 DPI)',
+      packCustom: 'My Presets',
+      presetName: 'Preset name',
+      savePreset: 'Save as Preset',
+      removePreset: 'Remove preset',
+      noCustomPresets: 'No saved presets yet. Enter a size and save it, or import a preset file.',
+      importPresets: 'Import JSON',
+      exportPresets: 'Export JSON',
+      errorPresetFile: 'This file does not contain any valid presets.',
+      generateAll: 'Generate All {count} Sizes',
+      resampling: 'Resampling',
+      resampleLanczos: 'Lanczos3 (sharpest)',
+      resampleBicubic: 'Bicubic',
+      resampleArea: 'Area Average',
+      resampleMultistep: 'Multi-step',
+      resampleBrowser: 'Browser (fastest)',
+      sharpenAfter: 'Sharpen After Resize',
+      dpi: 'DPI',
+      swap: 'Swap ⇄',
+      paperSizes: 'Paper:',
+      enlargeWarning: 'This image only has enough pixels for about {dpi} DPI at this size, so it will be enlarged and look soft in print. Reaching the full DPI needs AI upscaling (the Upscaler tab), which generates the added detail.',
+      aiResolutionWarning: 'AI Generative mode works at about 1024 px and the result is enlarged to this size, about {dpi} effective DPI. Expect softer detail in print.'
     }
   },
   fa: {
     dir: 'rtl',
     title: 'Hazhar-Shawli-Bedarooni',
     subtitle: 'با قدرت هوش مصنوعی خلق کنید. ویرایش تصویر، تبدیل متن به گفتار و تعویض چهره.',
+    provider: {
+      label: 'سرویس هوش مصنوعی',
+      gemini: 'Gemini API',
+      mock: 'دمو آفلاین',
+      mockNotice: 'حالت دمو آفلاین: نتایج ساختگی هستند و به صورت محلی تولید می‌شوند.',
+      proxy: 'سرور تیم',
+      tokenPlaceholder: 'توکن دسترسی',
+      tokenMissing: 'برای استفاده از سرور تیم، توکن دسترسی‌ای را که دریافت کرده‌اید وارد کنید.'
+    },
+    cache: {
+      button: 'کش',
+      title: 'کش پاسخ‌ها',
+      desc: 'درخواست‌های یکسان به‌جای فراخوانی دوبارهٔ API از این کش محلی پاسخ داده می‌شوند.',
+      empty: 'کش خالی است.',
+      clearAll: 'پاک کردن همه',
+      delete: 'حذف',
+      close: 'بستن',
+      hits: 'بار استفاده',
+      unavailable: 'کش در این مرورگر در دسترس نیست.'
+    },
+    usage: {
+      title: 'مصرف و هزینه',
+      desc: 'مصرف توکن همهٔ درخواست‌ها روی این دستگاه ثبت می‌شود. هزینه‌ها تخمینی و بر اساس قیمت‌های رسمی هستند.',
+      today: 'امروز',
+      last7: '۷ روز گذشته',
+      last30: '۳۰ روز گذشته',
+      all: 'همه',
+      requests: 'درخواست‌ها',
+      inputTokens: 'توکن ورودی',
+      outputTokens: 'توکن خروجی',
+      cost: 'هزینهٔ تخمینی',
+      byTool: 'بر اساس ابزار',
+      byModel: 'بر اساس مدل',
+      unknownPrice: 'قیمت نامشخص',
+      budgetTitle: 'سقف بودجهٔ نرم',
+      budgetDesc: 'پس از رسیدن به سقف، پیش از هر درخواست از شما تأیید گرفته می‌شود.',
+      dailyLimit: 'سقف روزانه (دلار)',
+      monthlyLimit: 'سقف ماهانه (دلار)',
+      noLimit: 'بدون سقف',
+      spent: 'مصرف‌شده',
+      reset: 'بازنشانی مصرف',
+      empty: 'هنوز مصرفی ثبت نشده است.',
+      confirmOver: 'شما {spent} از بودجهٔ {period} {limit} را مصرف کرده‌اید. آیا درخواست ارسال شود؟',
+      confirmNear: 'این درخواست (حدود {cost}) شما را از بودجهٔ {period} {limit} فراتر می‌برد؛ تاکنون {spent} مصرف شده است. آیا ارسال شود؟',
+      daily: 'روزانه',
+      monthly: 'ماهانه'
+    },
+    models: {
+      button: 'مدل‌ها',
+      title: 'تنظیمات مدل',
+      desc: 'برای هر قابلیت مدل موردنظر را انتخاب کنید. تغییرات از درخواست بعدی اعمال و در این مرورگر ذخیره می‌شوند.',
+      edit: 'ویرایش و تولید تصویر',
+      highRes: 'تصاویر با وضوح بالا (4K)',
+      faceSwap: 'تعویض چهره',
+      vision: 'بینایی (استخراج پرامپت)',
+      tts: 'تبدیل متن به گفتار',
+      live: 'گفتگو و تایپ صوتی زنده',
+      custom: 'شناسهٔ مدل دلخواه…',
+      customPlaceholder: 'مثلاً gemini-3-flash-image',
+      preview: 'پیش‌نمایش',
+      default: 'پیش‌فرض',
+      unknownModel: 'در فهرست داخلی نیست؛ قابلیت‌ها نامشخص است.',
+      resetAll: 'بازگردانی پیش‌فرض‌ها',
+      close: 'بستن'
+    },
+    queue: {
+      button: 'صف',
+      title: 'صف درخواست‌ها',
+      desc: 'درخواست‌ها این‌جا منتظر می‌مانند تا هر مدل در محدودیت هم‌زمانی و تعداد در دقیقه بماند.',
+      concurrency: 'درخواست هم‌زمان برای هر مدل',
+      rpm: 'درخواست در دقیقه برای هر مدل',
+      running: 'در حال اجرا',
+      pending: 'در انتظار',
+      finished: 'پایان‌یافته',
+      empty: 'هنوز درخواستی نیست.',
+      moveUp: 'بالا بردن',
+      moveDown: 'پایین بردن',
+      cancel: 'لغو',
+      clearFinished: 'پاک کردن پایان‌یافته‌ها',
+      close: 'بستن',
+      done: 'انجام شد',
+      failed: 'ناموفق',
+      cancelled: 'لغو شد'
+    },
+    exportDialog: {
+      title: 'خروجی تصویر',
+      format: 'فرمت',
+      unsupported: 'این مرورگر پشتیبانی نمی‌کند',
+      qualityMode: 'کیفیت',
+      targetMode: 'حجم هدف',
+      quality: 'کیفیت',
+      targetSize: 'حداکثر حجم فایل (KB)',
+      losslessNote: 'PNG بدون افت کیفیت است و حجم آن فقط به خود تصویر بستگی دارد.',
+      estimating: 'در حال تخمین حجم...',
+      estimatedSize: 'حجم فایل',
+      qualityUsed: 'با کیفیت {quality}٪',
+      targetTooSmall: 'حتی کمترین کیفیت هم از حجم هدف بزرگ‌تر است.',
+      error: 'رمزگذاری این تصویر ممکن نشد.',
+      saveError: 'نوشتن فایل ممکن نشد. قالب دیگری را امتحان کنید یا کپی فراداده را خاموش کنید.',
+      dpiNote: 'با {dpi} DPI برای چاپ ذخیره می‌شود.',
+      dpiUnsupported: 'فقط فایل‌های PNG و JPEG مقدار DPI چاپ را نگه می‌دارند.',
+      metadata: 'فراداده',
+      metadataStrip: 'حذف همه',
+      metadataNoGps: 'کپی بدون موقعیت',
+      metadataKeep: 'کپی همه',
+      metadataUnsupported: 'فقط فایل‌های PNG و JPEG فراداده نگه می‌دارند؛ این فایل فراداده‌ای نخواهد داشت.',
+      cancel: 'لغو',
+      download: 'دانلود'
+    },
+    intake: {
+      paste: 'چسباندن',
+      fromUrl: 'از نشانی',
+      camera: 'دوربین',
+      useShared: 'استفاده از تصویر ویرایش‌شده',
+      loading: 'در حال بارگذاری…',
+      import: 'وارد کردن',
+      takePhoto: 'گرفتن عکس',
+      cancel: 'لغو',
+      dropHint: 'کلیک کنید، یا تصویر را بکشید و رها کنید یا بچسبانید',
+      formats: 'PNG، JPG، WEBP، HEIC، TIFF یا RAW',
+      loaded: 'بارگذاری شد: {name}',
+      cameraUnsupported: 'این مرورگر نمی‌تواند اینجا از دوربین استفاده کند. دسترسی به دوربین به صفحهٔ امن (https) نیاز دارد.',
+      cameraFailed: 'دوربین باز نشد. بررسی کنید که وصل باشد و اجازهٔ دسترسی داده شده باشد.',
+      unsupported: '{name} تصویر پشتیبانی‌شده‌ای نیست. از PNG، JPG، WEBP، GIF، BMP، HEIC، TIFF یا فایل RAW دوربین استفاده کنید.',
+      unsupportedMedia: '{name} تصویر یا ویدیوی پشتیبانی‌شده‌ای نیست. از PNG، JPG، WEBP، GIF، BMP، HEIC، TIFF، فایل RAW دوربین یا یک ویدیو استفاده کنید.',
+      tooLarge: 'حجم {name} بیش از {size} مگابایت است.',
+      unreadable: '{name} به‌عنوان تصویر خوانده نشد.',
+      decodeFailed: '{name} باز نشد: {detail}',
+      invalidUrl: 'نشانی کامل تصویر را وارد کنید؛ با https:// شروع می‌شود.',
+      urlProtocol: 'فقط نشانی‌های http و https را می‌توان وارد کرد.',
+      downloadBlocked: 'تصویر دانلود نشد. ممکن است آن سایت اجازهٔ بارگذاری تصاویرش را به برنامه‌های دیگر ندهد.',
+      downloadStatus: 'تصویر دانلود نشد (وضعیت {status}).',
+      clipboardUnsupported: 'این مرورگر نمی‌تواند تصویر را از کلیپ‌بورد بخواند. به‌جای آن Ctrl+V را بزنید.',
+      clipboardDenied: 'اجازهٔ خواندن کلیپ‌بورد داده نشد. به‌جای آن Ctrl+V را بزنید.',
+      clipboardEmpty: 'تصویری در کلیپ‌بورد نیست.',
+      captureFailed: 'گرفتن عکس ممکن نشد.'
+    },
     tabs: {
       faceSwap: 'تعویض چهره',
       conversation: 'گفتگو',
@@ -77,11 +408,14 @@ export const translations = {
       reference: 'مرجع تصویر',
       editor: 'ویرایشگر',
       effects: 'افکت‌ها',
+      background: 'حذف پس‌زمینه',
+      overlay: 'متن و واترمارک',
       upscaler: 'ارتقاء کیفیت',
       sizer: 'تغییر سایز هوشمند',
       promptExtractor: 'استخراج پرامپت',
       tts: 'گفتار',
-      transcriber: 'تایپ صوتی'
+      transcriber: 'تایپ صوتی',
+      usage: 'مصرف'
     },
     promptExtractor: {
       title: 'استخراج‌گر هوشمند پرامپت',
@@ -94,6 +428,8 @@ export const translations = {
       copy: 'کپی پرامپت',
       placeholder: 'برای تحلیل، یک فایل آپلود کنید...',
       copied: 'کپی شد!',
+      cancel: 'لغو',
+      bypassCache: 'نادیده گرفتن کش',
       videoHint: 'ویدیو را پخش کنید و روی فریم مورد نظر نگه دارید تا تحلیل شود.'
     },
     faceSwap: {
@@ -109,6 +445,8 @@ export const translations = {
       processing: 'در حال تعویض...',
       resultTitle: 'نتیجه نهایی',
       save: 'ذخیره تصویر',
+      cancel: 'لغو',
+      bypassCache: 'نادیده گرفتن کش',
       errorKey: 'لطفاً ابتدا کلید API را انتخاب کنید.'
     },
     imageSizer: {
@@ -126,14 +464,201 @@ export const translations = {
       processing: 'در حال پردازش...',
       resultTitle: 'نتیجه',
       save: 'ذخیره',
+      cancel: 'لغو',
+      bypassCache: 'نادیده گرفتن کش',
       errorUpload: 'لطفاً ابتدا یک تصویر آپلود کنید.',
-      errorDimensions: 'ابعاد نامعتبر است.'
+      errorDimensions: 'ابعاد نامعتبر است.',
+      singleMode: 'تک تصویر',
+      batchMode: 'دسته‌ای',
+      dropHint: 'تصاویر یا یک پوشه را اینجا رها کنید',
+      addFiles: 'افزودن تصاویر',
+      addFolder: 'افزودن پوشه',
+      clearAll: 'پاک کردن',
+      fileCount: '{count} تصویر',
+      namePattern: 'الگوی نام فایل',
+      namePatternHint: 'از {name}، {width}، {height} و {index} استفاده کنید.',
+      batchButtonLabel: 'تغییر سایز {count} تصویر',
+      batchProgress: '{done} از {total} انجام شد',
+      downloadZip: 'دانلود ZIP',
+      statusPending: 'در انتظار',
+      statusProcessing: 'در حال پردازش...',
+      statusDone: 'انجام شد',
+      statusFailed: 'ناموفق',
+      errorNoFiles: 'لطفاً ابتدا چند تصویر اضافه کنید.',
+      focalTitle: 'نقطهٔ کانونی',
+      focalHint: 'روی تصویر کلیک کنید یا بکشید تا مشخص شود هنگام برش چه چیزی در کادر بماند.',
+      detectSubject: 'تشخیص سوژه',
+      centerFocus: 'وسط',
+      cropPreview: 'پیش‌نمایش برش',
+      customSize: 'سفارشی',
+      autoDetect: 'تشخیص سوژه در هر تصویر برای ماندن در کادر (یک درخواست بینایی برای هر تصویر)',
+      packGeneral: 'عمومی',
+      packSocial: 'شبکه‌های اجتماعی',
+      packPrint: 'چاپ (۳۰۰ DPI)',
+      packCustom: 'پیش‌فرض‌های من',
+      presetName: 'نام پیش‌فرض',
+      savePreset: 'ذخیره به‌عنوان پیش‌فرض',
+      removePreset: 'حذف پیش‌فرض',
+      noCustomPresets: 'هنوز پیش‌فرضی ذخیره نشده است. اندازه‌ای وارد و ذخیره کنید یا یک فایل پیش‌فرض وارد کنید.',
+      importPresets: 'وارد کردن JSON',
+      exportPresets: 'خروجی JSON',
+      errorPresetFile: 'این فایل هیچ پیش‌فرض معتبری ندارد.',
+      generateAll: 'ساخت همهٔ {count} اندازه',
+      resampling: 'نمونه‌برداری مجدد',
+      resampleLanczos: 'Lanczos3 (تیزترین)',
+      resampleBicubic: 'دومکعبی (Bicubic)',
+      resampleArea: 'میانگین ناحیه‌ای',
+      resampleMultistep: 'چندمرحله‌ای',
+      resampleBrowser: 'مرورگر (سریع‌ترین)',
+      sharpenAfter: 'تیز کردن پس از تغییر اندازه',
+      dpi: 'DPI',
+      swap: 'جابه‌جایی ⇄',
+      paperSizes: 'کاغذ:',
+      enlargeWarning: 'این تصویر در این اندازه فقط برای حدود {dpi} DPI پیکسل دارد، پس بزرگ می‌شود و در چاپ نرم به نظر می‌رسد. رسیدن به DPI کامل به بزرگ‌نمایی هوش مصنوعی (زبانهٔ Upscaler) نیاز دارد که جزئیات اضافه را خودش می‌سازد.',
+      aiResolutionWarning: 'حالت تولیدی هوش مصنوعی با حدود ۱۰۲۴ پیکسل کار می‌کند و نتیجه تا این اندازه بزرگ می‌شود، یعنی حدود {dpi} DPI مؤثر. در چاپ جزئیات نرم‌تر خواهند بود.'
     }
   },
   ar: {
     dir: 'rtl',
     title: 'Hazhar-Shawli-Bedarooni',
     subtitle: 'أنشئ وحوّل باستخدام الذكاء الاصطناعي. تحرير الصور، تحويل النص إلى كلام، وتبديل الوجوه.',
+    provider: {
+      label: 'خدمة الذكاء الاصطناعي',
+      gemini: 'Gemini API',
+      mock: 'عرض دون اتصال',
+      mockNotice: 'وضع العرض دون اتصال: النتائج اصطناعية ويتم إنشاؤها محلياً.',
+      proxy: 'خادم الفريق',
+      tokenPlaceholder: 'رمز الوصول',
+      tokenMissing: 'الصق رمز الوصول الذي حصلت عليه لاستخدام خادم الفريق.'
+    },
+    cache: {
+      button: 'الذاكرة المؤقتة',
+      title: 'ذاكرة الاستجابات',
+      desc: 'تتم الإجابة عن الطلبات المتطابقة من هذه الذاكرة المحلية بدلاً من استدعاء الواجهة مرة أخرى.',
+      empty: 'الذاكرة المؤقتة فارغة.',
+      clearAll: 'مسح الكل',
+      delete: 'حذف',
+      close: 'إغلاق',
+      hits: 'مرات الاستخدام',
+      unavailable: 'التخزين المؤقت غير متاح في هذا المتصفح.'
+    },
+    usage: {
+      title: 'الاستخدام والتكلفة',
+      desc: 'يتم تسجيل استهلاك الرموز لكل طلب على هذا الجهاز. التكاليف تقديرية وفق الأسعار المعلنة.',
+      today: 'اليوم',
+      last7: 'آخر 7 أيام',
+      last30: 'آخر 30 يومًا',
+      all: 'الكل',
+      requests: 'الطلبات',
+      inputTokens: 'رموز الإدخال',
+      outputTokens: 'رموز الإخراج',
+      cost: 'التكلفة التقديرية',
+      byTool: 'حسب الأداة',
+      byModel: 'حسب النموذج',
+      unknownPrice: 'سعر غير معروف',
+      budgetTitle: 'حدود الميزانية المرنة',
+      budgetDesc: 'عند بلوغ الحد سيُطلب منك التأكيد قبل كل طلب.',
+      dailyLimit: 'الحد اليومي (دولار)',
+      monthlyLimit: 'الحد الشهري (دولار)',
+      noLimit: 'بلا حد',
+      spent: 'المصروف',
+      reset: 'إعادة تعيين الاستخدام',
+      empty: 'لم يتم تسجيل أي استخدام بعد.',
+      confirmOver: 'لقد أنفقت {spent} من ميزانيتك {period} البالغة {limit}. هل تريد إرسال الطلب على أي حال؟',
+      confirmNear: 'هذا الطلب (نحو {cost}) سيتجاوز ميزانيتك {period} البالغة {limit}؛ أنفقت {spent} حتى الآن. هل تريد إرساله على أي حال؟',
+      daily: 'اليومية',
+      monthly: 'الشهرية'
+    },
+    models: {
+      button: 'النماذج',
+      title: 'إعدادات النماذج',
+      desc: 'اختر النموذج الذي يخدم كل قدرة. تُطبَّق التغييرات على الطلب التالي وتُحفظ في هذا المتصفح.',
+      edit: 'تحرير الصور وتوليدها',
+      highRes: 'صور عالية الدقة (4K)',
+      faceSwap: 'تبديل الوجه',
+      vision: 'الرؤية (استخراج الوصف)',
+      tts: 'تحويل النص إلى كلام',
+      live: 'المحادثة والنسخ المباشر',
+      custom: 'معرّف نموذج مخصص…',
+      customPlaceholder: 'مثال: gemini-3-flash-image',
+      preview: 'تجريبي',
+      default: 'افتراضي',
+      unknownModel: 'غير موجود في القائمة المدمجة؛ القدرات غير معروفة.',
+      resetAll: 'استعادة الافتراضيات',
+      close: 'إغلاق'
+    },
+    queue: {
+      button: 'الطابور',
+      title: 'طابور الطلبات',
+      desc: 'تنتظر الطلبات هنا كي يبقى كل نموذج ضمن حدود التزامن والطلبات في الدقيقة.',
+      concurrency: 'الطلبات المتزامنة لكل نموذج',
+      rpm: 'الطلبات في الدقيقة لكل نموذج',
+      running: 'قيد التنفيذ',
+      pending: 'في الانتظار',
+      finished: 'منتهية',
+      empty: 'لا توجد طلبات بعد.',
+      moveUp: 'تحريك لأعلى',
+      moveDown: 'تحريك لأسفل',
+      cancel: 'إلغاء',
+      clearFinished: 'مسح المنتهية',
+      close: 'إغلاق',
+      done: 'تم',
+      failed: 'فشل',
+      cancelled: 'أُلغي'
+    },
+    exportDialog: {
+      title: 'تصدير الصورة',
+      format: 'الصيغة',
+      unsupported: 'غير مدعوم في هذا المتصفح',
+      qualityMode: 'الجودة',
+      targetMode: 'الحجم المستهدف',
+      quality: 'الجودة',
+      targetSize: 'الحد الأقصى لحجم الملف (KB)',
+      losslessNote: 'صيغة PNG بلا فقدان؛ حجمها يعتمد على الصورة فقط.',
+      estimating: 'جارٍ تقدير الحجم...',
+      estimatedSize: 'حجم الملف',
+      qualityUsed: 'بجودة {quality}٪',
+      targetTooSmall: 'حتى أدنى جودة أكبر من الحجم المستهدف.',
+      error: 'تعذّر ترميز هذه الصورة.',
+      saveError: 'تعذّرت كتابة الملف. جرّب تنسيقاً آخر أو أوقف نسخ البيانات الوصفية.',
+      dpiNote: 'يُحفظ بدقة {dpi} DPI للطباعة.',
+      dpiUnsupported: 'فقط ملفات PNG وJPEG تحفظ دقة الطباعة (DPI).',
+      metadata: 'البيانات الوصفية',
+      metadataStrip: 'إزالة الكل',
+      metadataNoGps: 'نسخ بدون الموقع',
+      metadataKeep: 'نسخ الكل',
+      metadataUnsupported: 'فقط ملفات PNG وJPEG يمكنها حمل البيانات الوصفية؛ لن يحتوي هذا الملف على أي منها.',
+      cancel: 'إلغاء',
+      download: 'تنزيل'
+    },
+    intake: {
+      paste: 'لصق',
+      fromUrl: 'من رابط',
+      camera: 'الكاميرا',
+      useShared: 'استخدام الصورة المعدّلة',
+      loading: 'جارٍ التحميل…',
+      import: 'استيراد',
+      takePhoto: 'التقاط صورة',
+      cancel: 'إلغاء',
+      dropHint: 'انقر أو اسحب صورة وأفلتها أو الصقها',
+      formats: 'PNG أو JPG أو WEBP أو HEIC أو TIFF أو RAW',
+      loaded: 'تم التحميل: {name}',
+      cameraUnsupported: 'لا يستطيع هذا المتصفح استخدام الكاميرا هنا. يتطلب الوصول إلى الكاميرا صفحة آمنة (https).',
+      cameraFailed: 'تعذّر فتح الكاميرا. تحقّق من أنها متصلة وأن الوصول إليها مسموح.',
+      unsupported: '{name} ليست صورة مدعومة. استخدم PNG أو JPG أو WEBP أو GIF أو BMP أو HEIC أو TIFF أو ملف RAW من الكاميرا.',
+      unsupportedMedia: '{name} ليس صورة أو فيديو مدعومًا. استخدم PNG أو JPG أو WEBP أو GIF أو BMP أو HEIC أو TIFF أو ملف RAW من الكاميرا أو فيديو.',
+      tooLarge: 'حجم {name} أكبر من {size} ميغابايت.',
+      unreadable: 'تعذّرت قراءة {name} كصورة.',
+      decodeFailed: 'تعذّر فتح {name}: {detail}',
+      invalidUrl: 'أدخل عنوان الصورة كاملًا بدءًا بـ https://.',
+      urlProtocol: 'لا يمكن استيراد إلا عناوين http و https.',
+      downloadBlocked: 'تعذّر تنزيل الصورة. ربما لا يسمح الموقع للتطبيقات الأخرى بتحميل صوره.',
+      downloadStatus: 'تعذّر تنزيل الصورة (الحالة {status}).',
+      clipboardUnsupported: 'لا يستطيع هذا المتصفح قراءة الصور من الحافظة. اضغط Ctrl+V بدلًا من ذلك.',
+      clipboardDenied: 'لم يُسمح بقراءة الحافظة. اضغط Ctrl+V بدلًا من ذلك.',
+      clipboardEmpty: 'لا توجد صورة في الحافظة.',
+      captureFailed: 'تعذّر التقاط الصورة.'
+    },
     tabs: {
       faceSwap: 'تبديل الوجوه',
       conversation: 'المحادثة',
@@ -141,11 +666,14 @@ export const translations = {
       reference: 'مرجع الصور',
       editor: 'محرر الصور',
       effects: 'التأثيرات',
+      background: 'إزالة الخلفية',
+      overlay: 'النص والعلامة المائية',
       upscaler: 'تحسين الجودة',
       sizer: 'تغيير الحجم الذكي',
       promptExtractor: 'استخراج الوصف',
       tts: 'الكلام',
-      transcriber: 'النسخ الصوتي'
+      transcriber: 'النسخ الصوتي',
+      usage: 'الاستخدام'
     },
     promptExtractor: {
       title: 'مستخرج الوصف الذكي',
@@ -158,6 +686,8 @@ export const translations = {
       copy: 'نسخ الوصف',
       placeholder: 'ارفع ملفاً لرؤية تحليل الذكاء الاصطناعي...',
       copied: 'تم النسخ!',
+      cancel: 'إلغاء',
+      bypassCache: 'تجاوز الذاكرة المؤقتة',
       videoHint: 'قم بتشغيل الفيديو وتوقف عند الإطار الذي تريد تحليله.'
     },
     faceSwap: {
@@ -173,6 +703,8 @@ export const translations = {
       processing: 'جاري التبديل...',
       resultTitle: 'النتيجة',
       save: 'حفظ الصورة',
+      cancel: 'إلغاء',
+      bypassCache: 'تجاوز الذاكرة المؤقتة',
       errorKey: 'يرجى اختيار مفتاح API أولاً.'
     },
     imageSizer: {
@@ -190,14 +722,201 @@ export const translations = {
       processing: 'جاري المعالجة...',
       resultTitle: 'النتيجة',
       save: 'حفظ',
+      cancel: 'إلغاء',
+      bypassCache: 'تجاوز الذاكرة المؤقتة',
       errorUpload: 'يرجى رفع صورة أولاً.',
-      errorDimensions: 'أبعاد غير صالحة.'
+      errorDimensions: 'أبعاد غير صالحة.',
+      singleMode: 'صورة واحدة',
+      batchMode: 'دفعة',
+      dropHint: 'أفلت الصور أو مجلدًا هنا',
+      addFiles: 'إضافة صور',
+      addFolder: 'إضافة مجلد',
+      clearAll: 'مسح',
+      fileCount: '{count} صور',
+      namePattern: 'نمط اسم الملف',
+      namePatternHint: 'استخدم {name} و{width} و{height} و{index}.',
+      batchButtonLabel: 'تغيير حجم {count} صور',
+      batchProgress: 'اكتمل {done} من {total}',
+      downloadZip: 'تنزيل ZIP',
+      statusPending: 'في الانتظار',
+      statusProcessing: 'جارٍ المعالجة...',
+      statusDone: 'تم',
+      statusFailed: 'فشل',
+      errorNoFiles: 'يرجى إضافة بعض الصور أولاً.',
+      focalTitle: 'نقطة التركيز',
+      focalHint: 'انقر أو اسحب على الصورة لاختيار ما يبقى داخل الإطار عند القص.',
+      detectSubject: 'اكتشاف العنصر',
+      centerFocus: 'الوسط',
+      cropPreview: 'معاينة القص',
+      customSize: 'مخصص',
+      autoDetect: 'اكتشاف العنصر الرئيسي في كل صورة لإبقائه داخل الإطار (طلب رؤية واحد لكل صورة)',
+      packGeneral: 'عام',
+      packSocial: 'وسائل التواصل الاجتماعي',
+      packPrint: 'طباعة (300 DPI)',
+      packCustom: 'إعداداتي',
+      presetName: 'اسم الإعداد',
+      savePreset: 'حفظ كإعداد مسبق',
+      removePreset: 'حذف الإعداد',
+      noCustomPresets: 'لا توجد إعدادات محفوظة بعد. أدخل مقاساً واحفظه، أو استورد ملف إعدادات.',
+      importPresets: 'استيراد JSON',
+      exportPresets: 'تصدير JSON',
+      errorPresetFile: 'لا يحتوي هذا الملف على أي إعدادات صالحة.',
+      generateAll: 'إنشاء جميع المقاسات ({count})',
+      resampling: 'إعادة التشكيل',
+      resampleLanczos: 'Lanczos3 (الأكثر حدة)',
+      resampleBicubic: 'تكعيبي (Bicubic)',
+      resampleArea: 'متوسط المساحة',
+      resampleMultistep: 'متعدد المراحل',
+      resampleBrowser: 'المتصفح (الأسرع)',
+      sharpenAfter: 'زيادة الحدة بعد تغيير الحجم',
+      dpi: 'DPI',
+      swap: 'تبديل ⇄',
+      paperSizes: 'الورق:',
+      enlargeWarning: 'تحتوي هذه الصورة على بكسلات تكفي لنحو {dpi} DPI فقط بهذا المقاس، لذا ستُكبَّر وستبدو ناعمة عند الطباعة. يتطلب الوصول إلى الدقة الكاملة تكبيراً بالذكاء الاصطناعي (تبويب Upscaler) الذي يولّد التفاصيل المضافة.',
+      aiResolutionWarning: 'يعمل وضع التوليد بالذكاء الاصطناعي بدقة تقارب 1024 بكسل ثم تُكبَّر النتيجة إلى هذا المقاس، أي نحو {dpi} DPI فعلية. توقّع تفاصيل أنعم عند الطباعة.'
     }
   },
   ku: {
     dir: 'rtl',
     title: 'Hazhar-Shawli-Bedarooni',
     subtitle: 'بە هێزی زیرەکی دەستکرد دروست بکە و بگۆڕە. دەستکاری وێنە و گۆڕینی دەموچاو.',
+    provider: {
+      label: 'خزمەتگوزاری AI',
+      gemini: 'Gemini API',
+      mock: 'دیمۆی ئۆفلاین',
+      mockNotice: 'دۆخی دیمۆی ئۆفلاین: ئەنجامەکان دەستکردن و لە ناوخۆدا دروست دەکرێن.',
+      proxy: 'سێرڤەری تیم',
+      tokenPlaceholder: 'تۆکنی دەستگەیشتن',
+      tokenMissing: 'بۆ بەکارهێنانی سێرڤەری تیم، ئەو تۆکنی دەستگەیشتنەی پێت دراوە دابنێ.'
+    },
+    cache: {
+      button: 'کاش',
+      title: 'کاشی وەڵامەکان',
+      desc: 'داواکارییە وەک یەکەکان لەم کاشە ناوخۆییەوە وەڵام دەدرێنەوە لەجیاتی بانگکردنەوەی API.',
+      empty: 'کاش بەتاڵە.',
+      clearAll: 'سڕینەوەی هەموو',
+      delete: 'سڕینەوە',
+      close: 'داخستن',
+      hits: 'جار بەکارهێنان',
+      unavailable: 'کاش لەم وێبگەڕەدا بەردەست نییە.'
+    },
+    usage: {
+      title: 'بەکارهێنان و تێچوو',
+      desc: 'بەکارهێنانی تۆکنی هەموو داواکارییەکان لەسەر ئەم ئامێرە تۆمار دەکرێت. تێچووەکان خەمڵاندنن بەپێی نرخە فەرمییەکان.',
+      today: 'ئەمڕۆ',
+      last7: '٧ ڕۆژی ڕابردوو',
+      last30: '٣٠ ڕۆژی ڕابردوو',
+      all: 'هەموو',
+      requests: 'داواکارییەکان',
+      inputTokens: 'تۆکنی هاتوو',
+      outputTokens: 'تۆکنی دەرچوو',
+      cost: 'تێچووی خەمڵێنراو',
+      byTool: 'بەپێی ئامراز',
+      byModel: 'بەپێی مۆدێل',
+      unknownPrice: 'نرخ نەزانراو',
+      budgetTitle: 'سنووری نەرمی بودجە',
+      budgetDesc: 'کاتێک گەیشتیتە سنوور، پێش هەر داواکارییەک پشتڕاستکردنەوەت لێ دەپرسرێت.',
+      dailyLimit: 'سنووری ڕۆژانە (دۆلار)',
+      monthlyLimit: 'سنووری مانگانە (دۆلار)',
+      noLimit: 'بێ سنوور',
+      spent: 'خەرجکراو',
+      reset: 'ڕێکخستنەوەی بەکارهێنان',
+      empty: 'هێشتا هیچ بەکارهێنانێک تۆمار نەکراوە.',
+      confirmOver: 'تۆ {spent} لە بودجەی {period}ی {limit} خەرج کردووە. هەر دەتەوێت داواکارییەکە بنێریت؟',
+      confirmNear: 'ئەم داواکارییە (نزیکەی {cost}) لە بودجەی {period}ی {limit} تێدەپەڕێت؛ تا ئێستا {spent} خەرج کراوە. هەر دەتەوێت بینێریت؟',
+      daily: 'ڕۆژانە',
+      monthly: 'مانگانە'
+    },
+    models: {
+      button: 'مۆدێلەکان',
+      title: 'ڕێکخستنی مۆدێل',
+      desc: 'بۆ هەر توانایەک مۆدێلێک هەڵبژێرە. گۆڕانکارییەکان لە داواکاریی داهاتووەوە جێبەجێ دەبن و لەم وێبگەڕەدا پاشەکەوت دەکرێن.',
+      edit: 'دەستکاری و دروستکردنی وێنە',
+      highRes: 'وێنەی ڕوونیی بەرز (4K)',
+      faceSwap: 'گۆڕینی ڕوخسار',
+      vision: 'بینین (دەرهێنانی پرۆمپت)',
+      tts: 'دەق بۆ دەنگ',
+      live: 'گفتوگۆ و نووسینەوەی ڕاستەوخۆ',
+      custom: 'ناسنامەی مۆدێلی تایبەت…',
+      customPlaceholder: 'بۆ نموونە gemini-3-flash-image',
+      preview: 'تاقیکاری',
+      default: 'بنەڕەت',
+      unknownModel: 'لە لیستی ناوخۆییدا نییە؛ تواناکان نەزانراون.',
+      resetAll: 'گەڕاندنەوەی بنەڕەتەکان',
+      close: 'داخستن'
+    },
+    queue: {
+      button: 'ڕیز',
+      title: 'ڕیزی داواکارییەکان',
+      desc: 'داواکارییەکان لێرە چاوەڕێ دەکەن بۆ ئەوەی هەر مۆدێلێک لە سنووری هاوکاتی و داواکاری لە خولەکدا بمێنێتەوە.',
+      concurrency: 'داواکاریی هاوکات بۆ هەر مۆدێلێک',
+      rpm: 'داواکاری لە خولەکێکدا بۆ هەر مۆدێلێک',
+      running: 'لە جێبەجێکردندا',
+      pending: 'چاوەڕوان',
+      finished: 'تەواوبوو',
+      empty: 'هێشتا هیچ داواکارییەک نییە.',
+      moveUp: 'بردنە سەرەوە',
+      moveDown: 'بردنە خوارەوە',
+      cancel: 'هەڵوەشاندنەوە',
+      clearFinished: 'سڕینەوەی تەواوبووەکان',
+      close: 'داخستن',
+      done: 'تەواو',
+      failed: 'سەرنەکەوتوو',
+      cancelled: 'هەڵوەشێنرایەوە'
+    },
+    exportDialog: {
+      title: 'هەناردەکردنی وێنە',
+      format: 'فۆرمات',
+      unsupported: 'ئەم وێبگەڕە پشتگیری ناکات',
+      qualityMode: 'کوالیتی',
+      targetMode: 'قەبارەی ئامانج',
+      quality: 'کوالیتی',
+      targetSize: 'زۆرترین قەبارەی فایل (KB)',
+      losslessNote: 'PNG بێ لەدەستدانی کوالیتییە؛ قەبارەکەی تەنها بەندە بە وێنەکەوە.',
+      estimating: 'خەمڵاندنی قەبارە...',
+      estimatedSize: 'قەبارەی فایل',
+      qualityUsed: 'بە کوالیتی {quality}٪',
+      targetTooSmall: 'تەنانەت کەمترین کوالیتیش لە قەبارەی ئامانج گەورەترە.',
+      error: 'نەتوانرا ئەم وێنەیە کۆد بکرێت.',
+      saveError: 'نەتوانرا فایلەکە بنووسرێت. فۆرماتێکی تر تاقی بکەرەوە یان کۆپیکردنی مێتاداتا بکوژێنەرەوە.',
+      dpiNote: 'بە {dpi} DPI بۆ چاپ پاشەکەوت دەکرێت.',
+      dpiUnsupported: 'تەنها فایلەکانی PNG و JPEG ـی DPI ـی چاپ هەڵدەگرن.',
+      metadata: 'مێتاداتا',
+      metadataStrip: 'سڕینەوەی هەموو',
+      metadataNoGps: 'کۆپی بەبێ شوێن',
+      metadataKeep: 'کۆپی هەموو',
+      metadataUnsupported: 'تەنها فایلەکانی PNG و JPEG دەتوانن مێتاداتا هەڵبگرن؛ ئەم فایلە هیچی نابێت.',
+      cancel: 'هەڵوەشاندنەوە',
+      download: 'داگرتن'
+    },
+    intake: {
+      paste: 'لکاندن',
+      fromUrl: 'لە بەستەرەوە',
+      camera: 'کامێرا',
+      useShared: 'بەکارهێنانی وێنە دەستکاریکراوەکە',
+      loading: 'بارکردن…',
+      import: 'هێنان',
+      takePhoto: 'گرتنی وێنە',
+      cancel: 'هەڵوەشاندنەوە',
+      dropHint: 'کلیک بکە، وێنەیەک ڕابکێشە و دایبنێ یان بیلکێنە',
+      formats: 'PNG، JPG، WEBP، HEIC، TIFF یان RAW',
+      loaded: 'بارکرا: {name}',
+      cameraUnsupported: 'ئەم وێبگەڕە ناتوانێت لێرەدا کامێرا بەکاربهێنێت. دەستگەیشتن بە کامێرا پەڕەیەکی پارێزراوی (https) پێویستە.',
+      cameraFailed: 'کامێرا نەکرایەوە. دڵنیابە کە پەیوەستە و ڕێگەی دەستگەیشتن دراوە.',
+      unsupported: '{name} وێنەیەکی پشتگیریکراو نییە. PNG، JPG، WEBP، GIF، BMP، HEIC، TIFF یان فایلی RAW ـی کامێرا بەکاربهێنە.',
+      unsupportedMedia: '{name} وێنە یان ڤیدیۆیەکی پشتگیریکراو نییە. PNG، JPG، WEBP، GIF، BMP، HEIC، TIFF، فایلی RAW ـی کامێرا یان ڤیدیۆیەک بەکاربهێنە.',
+      tooLarge: 'قەبارەی {name} لە {size} مێگابایت زیاترە.',
+      unreadable: '{name} وەک وێنە نەخوێندرایەوە.',
+      decodeFailed: '{name} نەکرایەوە: {detail}',
+      invalidUrl: 'ناونیشانی تەواوی وێنەکە بنووسە کە بە https:// دەست پێ دەکات.',
+      urlProtocol: 'تەنها ناونیشانەکانی http و https دەتوانرێن بهێنرێن.',
+      downloadBlocked: 'وێنەکە دانەبەزێنرا. لەوانەیە ماڵپەڕەکە ڕێگە بە ئەپەکانی تر نەدات وێنەکانی بار بکەن.',
+      downloadStatus: 'وێنەکە دانەبەزێنرا (دۆخ {status}).',
+      clipboardUnsupported: 'ئەم وێبگەڕە ناتوانێت وێنە لە کلیپبۆرد بخوێنێتەوە. لەجیاتی ئەوە Ctrl+V دابگرە.',
+      clipboardDenied: 'ڕێگەی خوێندنەوەی کلیپبۆرد نەدرا. لەجیاتی ئەوە Ctrl+V دابگرە.',
+      clipboardEmpty: 'هیچ وێنەیەک لە کلیپبۆرددا نییە.',
+      captureFailed: 'گرتنی وێنەکە سەرکەوتوو نەبوو.'
+    },
     tabs: {
       faceSwap: 'گۆڕینی دەموچاو',
       conversation: 'گفتوگۆ',
@@ -205,11 +924,14 @@ export const translations = {
       reference: 'سەرچاوەی وێنە',
       editor: 'دەستکاری وێنە',
       effects: 'کاریگەرییەکان',
+      background: 'لابردنی باکگراوند',
+      overlay: 'دەق و واتەرمارک',
       upscaler: 'بەرزکردنی کوالیتی',
       sizer: 'گۆڕینی قەبارەی ژیر',
       promptExtractor: 'دەرهێنانی پڕۆمپت',
       tts: 'دەنگ',
-      transcriber: 'نووسینەوەی دەنگ'
+      transcriber: 'نووسینەوەی دەنگ',
+      usage: 'بەکارهێنان'
     },
     promptExtractor: {
       title: 'دەرهێنەری ژیری پڕۆمپت',
@@ -222,6 +944,8 @@ export const translations = {
       copy: 'کۆپی پڕۆمپت',
       placeholder: 'وێنەیەک دابنێ بۆ بینینی شیکردنەوەی AI...',
       copied: 'کۆپی کرا!',
+      cancel: 'هەڵوەشاندنەوە',
+      bypassCache: 'پشتگوێخستنی کاش',
       videoHint: 'ڤیدیۆکە کار پێ بکە و لەسەر ئەو فریمەی دەتەوێت ڕایبگرە.'
     },
     faceSwap: {
@@ -237,6 +961,8 @@ export const translations = {
       processing: 'خەریکی گۆڕینە...',
       resultTitle: 'ئەنجام',
       save: 'پاشەکەوتکردن',
+      cancel: 'هەڵوەشاندنەوە',
+      bypassCache: 'پشتگوێخستنی کاش',
       errorKey: 'تکایە سەرەتا کلیلی API هەڵبژێرە.'
     },
     imageSizer: {
@@ -254,8 +980,74 @@ export const translations = {
       processing: 'خەریکی کارکردنە...',
       resultTitle: 'ئەنجام',
       save: 'پاشەکەوتکردن',
+      cancel: 'هەڵوەشاندنەوە',
+      bypassCache: 'پشتگوێخستنی کاش',
       errorUpload: 'تکایە سەرەتا وێنەیەک بار بکە.',
-      errorDimensions: 'قەبارەکان نادروستن.'
+      errorDimensions: 'قەبارەکان نادروستن.',
+      singleMode: 'تاکە وێنە',
+      batchMode: 'بە کۆمەڵ',
+      dropHint: 'وێنەکان یان بوخچەیەک لێرە دابنێ',
+      addFiles: 'زیادکردنی وێنە',
+      addFolder: 'زیادکردنی بوخچە',
+      clearAll: 'سڕینەوە',
+      fileCount: '{count} وێنە',
+      namePattern: 'شێوازی ناوی فایل',
+      namePatternHint: '{name}، {width}، {height} و {index} بەکاربهێنە.',
+      batchButtonLabel: 'گۆڕینی قەبارەی {count} وێنە',
+      batchProgress: '{done} لە {total} تەواو بوو',
+      downloadZip: 'داگرتنی ZIP',
+      statusPending: 'چاوەڕوان',
+      statusProcessing: 'خەریکی کارکردنە...',
+      statusDone: 'تەواو',
+      statusFailed: 'سەرنەکەوتوو',
+      errorNoFiles: 'تکایە سەرەتا چەند وێنەیەک زیاد بکە.',
+      focalTitle: 'خاڵی سەرنج',
+      focalHint: 'کلیک بکە یان ڕایبکێشە لەسەر وێنەکە بۆ دیاریکردنی ئەوەی لە کاتی بڕیندا لە چوارچێوەدا بمێنێتەوە.',
+      detectSubject: 'دۆزینەوەی بابەت',
+      centerFocus: 'ناوەڕاست',
+      cropPreview: 'پێشبینینی بڕین',
+      customSize: 'دڵخواز',
+      autoDetect: 'دۆزینەوەی بابەت لە هەر وێنەیەکدا بۆ مانەوەی لە چوارچێوەدا (یەک داواکاری بینین بۆ هەر وێنەیەک)',
+      packGeneral: 'گشتی',
+      packSocial: 'تۆڕە کۆمەڵایەتییەکان',
+      packPrint: 'چاپ (300 DPI)',
+      packCustom: 'پێشوەختەکانی من',
+      presetName: 'ناوی پێشوەختە',
+      savePreset: 'پاشەکەوت وەک پێشوەختە',
+      removePreset: 'سڕینەوەی پێشوەختە',
+      noCustomPresets: 'هێشتا هیچ پێشوەختەیەک پاشەکەوت نەکراوە. قەبارەیەک بنووسە و پاشەکەوتی بکە، یان فایلێکی پێشوەختە هاوردە بکە.',
+      importPresets: 'هاوردەکردنی JSON',
+      exportPresets: 'هەناردەکردنی JSON',
+      errorPresetFile: 'ئەم فایلە هیچ پێشوەختەیەکی دروستی تێدا نییە.',
+      generateAll: 'دروستکردنی هەموو {count} قەبارەکە',
+      resampling: 'نموونەگرتنەوە',
+      resampleLanczos: 'Lanczos3 (تیژترین)',
+      resampleBicubic: 'سێجایی (Bicubic)',
+      resampleArea: 'تێکڕای ڕووبەر',
+      resampleMultistep: 'چەند هەنگاوی',
+      resampleBrowser: 'وێبگەڕ (خێراترین)',
+      sharpenAfter: 'تیژکردن دوای گۆڕینی قەبارە',
+      dpi: 'DPI',
+      swap: 'گۆڕینەوە ⇄',
+      paperSizes: 'کاغەز:',
+      enlargeWarning: 'ئەم وێنەیە لەم قەبارەیەدا تەنها پیکسڵی بەسە بۆ نزیکەی {dpi} DPI، بۆیە گەورە دەکرێت و لە چاپدا نەرم دەردەکەوێت. گەیشتن بە DPI ـی تەواو پێویستی بە گەورەکردنی زیرەکی دەستکرد هەیە (تابی Upscaler) کە وردەکارییە زیادکراوەکان دروست دەکات.',
+      aiResolutionWarning: 'دۆخی دروستکردنی زیرەکی دەستکرد بە نزیکەی 1024 پیکسڵ کار دەکات و ئەنجامەکە بۆ ئەم قەبارەیە گەورە دەکرێت، نزیکەی {dpi} DPI ـی کارا. لە چاپدا وردەکارییەکان نەرمتر دەبن.'
     }
   }
 };
+
+// Usage and queue entries are recorded under tab ids; this maps them to the tab's label.
+export const TOOL_TAB_KEYS: Record<string, keyof typeof translations.en.tabs> = {
+  imageEditor: 'editor',
+  upscaler: 'upscaler',
+  imageEffects: 'effects',
+  backgroundRemover: 'background',
+  faceSwap: 'faceSwap',
+  promptExtractor: 'promptExtractor',
+  imageSizer: 'sizer',
+  imageReference: 'reference',
+  virtualTryOn: 'tryOn',
+  tts: 'tts',
+  conversation: 'conversation',
+  transcriber: 'transcriber',
+};
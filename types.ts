@@ -2,4 +2,29 @@ export interface ImageFile {
   base64: string;
   mimeType: string;
   name: string;
+  // EXIF read from the original upload; the re-encoded base64 no longer carries it.
+  metadata?: ImageMetadata;
+}
+
+export interface ImageMetadata {
+  // The raw TIFF block, base64-encoded, for writing back on export.
+  exif: string;
+  orientation: number;
+  camera?: string;
+  lens?: string;
+  software?: string;
+  takenAt?: string;
+  exposure?: string;
+  aperture?: string;
+  iso?: number;
+  focalLength?: string;
+  gps?: { latitude: number; longitude: number };
+}
+
+// A region of an image as fractions of its width and height.
+export interface SubjectBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
@@ -0,0 +1,232 @@
+import type { ImageFile } from '../types';
+import { loadImage } from './mask';
+
+// Local, non-AI image adjustments on a 2D canvas. Tone changes are folded into one lookup
+// table per channel, so a full-size apply is a single pass over the pixels plus the
+// optional sharpen convolution.
+
+export interface CurvePoint {
+  x: number; // input level, 0-255
+  y: number; // output level, 0-255
+}
+
+export interface CropRect {
+  // Fractions of the rotated and flipped image.
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface Adjustments {
+  exposure: number;    // stops, -2 to 2
+  contrast: number;    // -100 to 100
+  temperature: number; // -100 (cooler) to 100 (warmer)
+  tint: number;        // -100 (green) to 100 (magenta)
+  saturation: number;  // -100 (greyscale) to 100
+  sharpen: number;     // 0 to 100
+  curve: CurvePoint[]; // sorted by x, always includes x = 0 and x = 255
+  rotation: Rotation;
+  flipH: boolean;
+  flipV: boolean;
+  crop: CropRect | null;
+}
+
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const DEFAULT_ADJUSTMENTS: Adjustments = {
+  exposure: 0,
+  contrast: 0,
+  temperature: 0,
+  tint: 0,
+  saturation: 0,
+  sharpen: 0,
+  curve: IDENTITY_CURVE,
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  crop: null,
+};
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+const isIdentityCurve = (curve: CurvePoint[]) => curve.every(point => point.x === point.y);
+
+// Monotone cubic interpolation (Fritsch-Carlson), so the curve never overshoots between points.
+export const curveToLut = (points: CurvePoint[]): Float32Array => {
+  const lut = new Float32Array(256);
+  const n = points.length;
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((points[i + 1].y - points[i].y) / Math.max(1e-6, points[i + 1].x - points[i].x));
+  }
+  const tangents = points.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    while (segment < n - 2 && x > points[segment + 1].x) segment++;
+    const p0 = points[segment];
+    const p1 = points[segment + 1];
+    const width = Math.max(1e-6, p1.x - p0.x);
+    const t = Math.min(1, Math.max(0, (x - p0.x) / width));
+    const t2 = t * t;
+    const t3 = t2 * t;
+    lut[x] =
+      (2 * t3 - 3 * t2 + 1) * p0.y +
+      (t3 - 2 * t2 + t) * width * tangents[segment] +
+      (-2 * t3 + 3 * t2) * p1.y +
+      (t3 - t2) * width * tangents[segment + 1];
+  }
+  return lut;
+};
+
+// White balance gains, exposure, contrast and the curve combined into one table per channel.
+const buildChannelLuts = (adj: Adjustments): [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray] => {
+  const curve = curveToLut(adj.curve);
+  const exposure = Math.pow(2, adj.exposure);
+  const contrast = adj.contrast >= 0 ? 1 + adj.contrast / 50 : 1 + adj.contrast / 100;
+  const gains = [
+    1 + (adj.temperature / 100) * 0.2,
+    1 - (adj.tint / 100) * 0.2,
+    1 - (adj.temperature / 100) * 0.2,
+  ];
+  return gains.map(gain => {
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      const toned = clampByte((v * gain * exposure - 128) * contrast + 128);
+      lut[v] = curve[Math.round(toned)];
+    }
+    return lut;
+  }) as [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+};
+
+const applyTone = (data: Uint8ClampedArray, adj: Adjustments) => {
+  const [lutR, lutG, lutB] = buildChannelLuts(adj);
+  const saturation = 1 + adj.saturation / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = lutR[data[i]];
+    let g = lutG[data[i + 1]];
+    let b = lutB[data[i + 2]];
+    if (saturation !== 1) {
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      r = luma + (r - luma) * saturation;
+      g = luma + (g - luma) * saturation;
+      b = luma + (b - luma) * saturation;
+    }
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
+
+// Unsharp mask with a 4-neighbour kernel; edge pixels are left as they are.
+export const applySharpen = (image: Pick<ImageData, 'width' | 'height' | 'data'>, amount: number) => {
+  const { width, height, data } = image;
+  const source = new Uint8ClampedArray(data);
+  const centre = 1 + 4 * amount;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const j = i + c;
+        data[j] = centre * source[j] - amount * (source[j - 4] + source[j + 4] + source[j - width * 4] + source[j + width * 4]);
+      }
+    }
+  }
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Draws the image rotated, flipped and optionally cropped, scaled so its longer side is at most maxSize.
+const drawGeometry = (source: HTMLImageElement, adj: Adjustments, useCrop: boolean, maxSize: number) => {
+  const { naturalWidth: width, naturalHeight: height } = source;
+  const quarterTurn = adj.rotation === 90 || adj.rotation === 270;
+  const rotatedWidth = quarterTurn ? height : width;
+  const rotatedHeight = quarterTurn ? width : height;
+  const crop = useCrop && adj.crop ? adj.crop : { x: 0, y: 0, width: 1, height: 1 };
+  const scale = Math.min(1, maxSize / Math.max(rotatedWidth * crop.width, rotatedHeight * crop.height));
+
+  const canvas = createCanvas(
+    Math.max(1, Math.round(rotatedWidth * crop.width * scale)),
+    Math.max(1, Math.round(rotatedHeight * crop.height * scale))
+  );
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  // Work in the rotated image's coordinates, shifted so the crop's corner lands at the origin.
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * rotatedWidth, -crop.y * rotatedHeight);
+  ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  ctx.scale(adj.flipH ? -1 : 1, adj.flipV ? -1 : 1);
+  ctx.rotate((adj.rotation * Math.PI) / 180);
+  ctx.drawImage(source, -width / 2, -height / 2);
+  return canvas;
+};
+
+// Renders the adjusted image. The live preview passes a small maxSize and leaves the crop
+// out so the crop box can be drawn over the whole picture.
+export const renderAdjusted = (
+  source: HTMLImageElement,
+  adj: Adjustments,
+  { maxSize = Infinity, useCrop = true }: { maxSize?: number; useCrop?: boolean } = {}
+): HTMLCanvasElement => {
+  const canvas = drawGeometry(source, adj, useCrop, maxSize);
+  const toneChanged = adj.exposure || adj.contrast || adj.temperature || adj.tint || adj.saturation || !isIdentityCurve(adj.curve);
+  if (!toneChanged && !adj.sharpen) return canvas;
+
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  if (toneChanged) applyTone(image.data, adj);
+  if (adj.sharpen) applySharpen(image, (adj.sharpen / 100) * 1.5);
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+// Always PNG: the result is an intermediate step that later edits and adjustments build on,
+// so it must not lose quality to another JPEG pass each time. The export dialog picks the
+// final format.
+export const applyAdjustments = async (image: ImageFile, adj: Adjustments): Promise<ImageFile> => {
+  const canvas = renderAdjusted(await loadImage(image.base64), adj);
+  return { base64: canvas.toDataURL('image/png'), mimeType: 'image/png', name: image.name };
+};
+
+// Short description for the edit history, e.g. "Exposure +0.5, Crop, Rotate 90°".
+export const describeAdjustments = (adj: Adjustments): string => {
+  const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+  const parts: string[] = [];
+  if (adj.exposure) parts.push(`Exposure ${signed(adj.exposure)}`);
+  if (adj.contrast) parts.push(`Contrast ${signed(adj.contrast)}`);
+  if (!isIdentityCurve(adj.curve)) parts.push('Curves');
+  if (adj.temperature || adj.tint) parts.push('White balance');
+  if (adj.saturation) parts.push(`Saturation ${signed(adj.saturation)}`);
+  if (adj.sharpen) parts.push(`Sharpen ${adj.sharpen}`);
+  if (adj.crop) parts.push('Crop');
+  if (adj.rotation) parts.push(`Rotate ${adj.rotation}°`);
+  if (adj.flipH) parts.push('Flip horizontal');
+  if (adj.flipV) parts.push('Flip vertical');
+  return parts.join(', ');
+};
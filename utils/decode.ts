@@ -0,0 +1,220 @@
+import type { LibHeif } from 'libheif-js/libheif-wasm/libheif-bundle.mjs';
+import type { ImageMetadata } from '../types';
+import { browserAppliesOrientation, drawUpright, parseExif, readJpegInfo, Tiff } from './exif';
+import { loadImage } from './mask';
+import type { Pixels } from './resample';
+import { decodeTiffPage, readTiffPages } from './tiff';
+
+// Uploads in formats most browsers cannot show: HEIC/HEIF photos from iPhones, TIFF scans and
+// camera RAW files. They are decoded here into something drawable, and the uploader then
+// prepares them like any other image.
+
+export type DecodedFormat = 'heif' | 'tiff' | 'raw';
+
+const EXTENSIONS: Record<DecodedFormat, string[]> = {
+  heif: ['heic', 'heif', 'hif'],
+  tiff: ['tif', 'tiff'],
+  raw: ['dng', 'cr2', 'cr3', 'crw', 'nef', 'nrw', 'arw', 'srf', 'sr2', 'raf', 'orf', 'rw2', 'rwl', 'pef', 'srw', 'x3f', '3fr', 'iiq', 'erf', 'kdc', 'mrw'],
+};
+
+const MIME_TYPES: Record<string, DecodedFormat> = {
+  'image/heic': 'heif',
+  'image/heif': 'heif',
+  'image/heic-sequence': 'heif',
+  'image/heif-sequence': 'heif',
+  'image/tiff': 'tiff',
+};
+
+export const DECODED_EXTENSIONS = Object.values(EXTENSIONS).flat();
+
+// By extension first: browsers often leave the type empty for these files, and report DNG as TIFF.
+export const decodedFormat = (file: File): DecodedFormat | null => {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  const byExtension = (Object.keys(EXTENSIONS) as DecodedFormat[]).find(format => EXTENSIONS[format].includes(extension));
+  return byExtension ?? MIME_TYPES[file.type] ?? null;
+};
+
+export interface DecodedImage {
+  image: HTMLImageElement | HTMLCanvasElement;
+  metadata?: ImageMetadata;
+}
+
+const loadBlob = async (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const pixelsToCanvas = ({ data, width, height }: Pixels): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas error.');
+  ctx.putImageData(new ImageData(data, width, height), 0, 0);
+  return canvas;
+};
+
+// --- HEIC / HEIF ---
+
+// libheif compiled to WebAssembly, with the .wasm inlined. It is about 1.5 MB, so Vite puts it in
+// its own chunk, loaded the first time a HEIC file is added and only in browsers that cannot
+// decode it.
+let libheif: Promise<LibHeif> | null = null;
+
+const loadLibheif = (): Promise<LibHeif> => {
+  libheif ??= import('libheif-js/libheif-wasm/libheif-bundle.mjs')
+    .then(module => module.default())
+    .catch(() => {
+      // Allow another try, e.g. after a new version was deployed and the old chunk is gone.
+      libheif = null;
+      throw new Error('The HEIC decoder could not be loaded. Reload the page and try again.');
+    });
+  return libheif;
+};
+
+const decodeHeif = async (file: File): Promise<DecodedImage> => {
+  // Safari decodes HEIC itself.
+  try {
+    return { image: await loadBlob(file) };
+  } catch {
+    // Fall through to libheif.
+  }
+  const lib = await loadLibheif();
+  const images = new lib.HeifDecoder().decode(new Uint8Array(await file.arrayBuffer()));
+  if (images.length === 0) throw new Error('The HEIC file could not be read. It may be damaged.');
+  try {
+    // libheif applies the rotation and mirroring stored in the file, so the result is upright.
+    const primary = images.find(image => image.is_primary()) ?? images[0];
+    const canvas = document.createElement('canvas');
+    canvas.width = primary.get_width();
+    canvas.height = primary.get_height();
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas error.');
+    const imageData = ctx.createImageData(canvas.width, canvas.height);
+    await new Promise<void>((resolve, reject) =>
+      primary.display(imageData, result => (result ? resolve() : reject(new Error('The HEIC image could not be decoded.')))),
+    );
+    ctx.putImageData(imageData, 0, 0);
+    return { image: canvas };
+  } finally {
+    images.forEach(image => image.free());
+  }
+};
+
+// --- RAW ---
+
+// Browsers decode baseline, extended and progressive JPEG; lossless JPEG holds the sensor data
+// in CR2 and DNG files and cannot be shown.
+const DRAWABLE_FRAMES = [0xc0, 0xc1, 0xc2];
+
+interface EmbeddedJpeg {
+  start: number;
+  end: number;
+  width: number;
+  height: number;
+}
+
+// Follows the JPEG starting at `start` through its segments and scan data to the end marker.
+const readEmbeddedJpeg = (bytes: Uint8Array, start: number): EmbeddedJpeg | null => {
+  let width = 0;
+  let height = 0;
+  let offset = start + 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9) return width && height ? { start, end: offset + 2, width, height } : null;
+    if (marker >= 0xd0 && marker <= 0xd7) {
+      offset += 2;
+      continue;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (length < 2) return null;
+    // SOF markers, except DHT (C4), JPG (C8) and DAC (CC).
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      if (!DRAWABLE_FRAMES.includes(marker)) return null;
+      height = (bytes[offset + 5] << 8) | bytes[offset + 6];
+      width = (bytes[offset + 7] << 8) | bytes[offset + 8];
+    }
+    offset += 2 + length;
+    if (marker === 0xda) {
+      // Scan data runs to the next marker; FF 00 is an escaped byte and FF D0–D7 are restarts.
+      while (offset + 1 < bytes.length && !(bytes[offset] === 0xff && bytes[offset + 1] !== 0 && (bytes[offset + 1] < 0xd0 || bytes[offset + 1] > 0xd7))) offset++;
+    }
+  }
+  return null;
+};
+
+// Nearly every RAW format embeds a camera-rendered JPEG preview, usually at full or close to full
+// size. Demosaicing the sensor data would need a decoder per camera; the preview is what the
+// camera itself shows. The largest one is used.
+const findPreviewJpeg = (bytes: Uint8Array): Uint8Array | null => {
+  let best: EmbeddedJpeg | null = null;
+  for (let i = 0; i + 3 < bytes.length; i++) {
+    if (bytes[i] !== 0xff || bytes[i + 1] !== 0xd8 || bytes[i + 2] !== 0xff) continue;
+    const jpeg = readEmbeddedJpeg(bytes, i);
+    if (!jpeg) continue;
+    if (!best || jpeg.width * jpeg.height > best.width * best.height) best = jpeg;
+    i = jpeg.end - 1;
+  }
+  return best ? bytes.subarray(best.start, best.end) : null;
+};
+
+// TIFF-based RAW files (DNG, CR2, NEF, ARW, ...) store the orientation in their first IFD; the
+// preview inside often has no EXIF of its own.
+const rawOrientation = (bytes: Uint8Array): number => {
+  if (!((bytes[0] === 0x49 && bytes[1] === 0x49) || (bytes[0] === 0x4d && bytes[1] === 0x4d))) return 1;
+  try {
+    const tiff = new Tiff(bytes);
+    const entry = tiff.entries(tiff.firstIfd).find(e => e.tag === 0x0112);
+    const orientation = entry ? tiff.number(entry) : 1;
+    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+  } catch {
+    return 1;
+  }
+};
+
+const decodeRaw = async (file: File): Promise<DecodedImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const preview = findPreviewJpeg(bytes);
+  if (!preview) throw new Error('No preview image was found in this RAW file. Export it as JPEG or TIFF from your photo software.');
+  const info = readJpegInfo(preview);
+  const metadata = info?.exif ? parseExif(info.exif) : undefined;
+  const img = await loadBlob(new Blob([preview], { type: 'image/jpeg' })).catch(() => {
+    throw new Error('The preview in this RAW file could not be decoded.');
+  });
+  const own = metadata?.orientation ?? 1;
+  if (own > 1) return { image: info && browserAppliesOrientation(info, img, own) ? img : drawUpright(img, own), metadata };
+  const orientation = rawOrientation(bytes);
+  return { image: orientation > 1 ? drawUpright(img, orientation) : img, metadata };
+};
+
+// --- TIFF ---
+
+const decodeTiff = async (file: File, onPage: (page: DecodedImage) => Promise<void>, allPages: boolean) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const pages = readTiffPages(bytes);
+  if (pages.length === 0) throw new Error('This TIFF file contains no images.');
+  for (const page of allPages ? pages : pages.slice(0, 1)) {
+    const canvas = pixelsToCanvas(await decodeTiffPage(bytes, page));
+    await onPage({ image: page.orientation > 1 ? drawUpright(canvas, page.orientation) : canvas });
+  }
+};
+
+// Hands over each decoded image in turn (several for multi-page TIFFs), so only one full-size
+// page is held at a time. Images come out upright.
+export const decodeImage = async (file: File, onPage: (page: DecodedImage) => Promise<void>, allPages = true): Promise<void> => {
+  switch (decodedFormat(file)) {
+    case 'heif': return onPage(await decodeHeif(file));
+    case 'raw': return onPage(await decodeRaw(file));
+    case 'tiff': return decodeTiff(file, onPage, allPages);
+    default: throw new Error('This file type cannot be decoded.');
+  }
+};
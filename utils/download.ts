@@ -0,0 +1,39 @@
+import type { ImageFile } from '../types';
+import { applyWatermark } from '../services/watermark';
+import { requestExport } from '../services/exportDialog';
+import type { MetadataMode } from './exif';
+
+export interface DownloadOptions {
+  dpi?: number;
+  // The upload the image was made from; its EXIF can be copied into the download.
+  source?: ImageFile | null;
+  metadata?: MetadataMode;
+}
+
+const clickLink = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Saves an image through the browser, stamping the watermark first when one is enabled. The
+// export dialog then picks the format and size; without it the image is saved as it is.
+// Rejects when the watermark cannot be drawn (e.g. its logo or font fails to load); nothing is
+// saved then, and tabs show the error.
+export const downloadImage = async (dataUrl: string, filename: string, options: DownloadOptions = {}): Promise<void> => {
+  const image = await applyWatermark(dataUrl).catch(e => {
+    throw new Error('The watermark could not be drawn, so the image was not saved. Check its logo and fonts in the Text & Watermark tab.', { cause: e });
+  });
+  const request = { image, filename, dpi: options.dpi, metadata: options.source?.metadata, metadataMode: options.metadata };
+  if (!requestExport(request)) clickLink(image, filename);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  clickLink(url, filename);
+  // Revoked on the next tick; the download has started by then.
+  setTimeout(() => URL.revokeObjectURL(url));
+};
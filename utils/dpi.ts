@@ -0,0 +1,77 @@
+import { crc32 } from './zip';
+
+// Writes the print resolution into PNG (pHYs chunk) and JPEG (JFIF header) files. Other
+// formats are returned unchanged.
+
+const PNG_SIGNATURE_LENGTH = 8;
+const INCHES_PER_METRE = 39.3701;
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const pngWithDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  const pixelsPerMetre = Math.round(dpi * INCHES_PER_METRE);
+  view.setUint32(0, 9);
+  chunk.set(ascii('pHYs'), 4);
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // Rebuild the chunk list: the new pHYs goes right after IHDR and any existing one is dropped.
+  const source = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE_LENGTH)];
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 8 <= bytes.length) {
+    const end = offset + 12 + source.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type !== 'pHYs') parts.push(bytes.subarray(offset, end));
+    if (type === 'IHDR') parts.push(chunk);
+    offset = end;
+  }
+  return concat(parts);
+};
+
+const jpegWithDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const density = Math.min(0xffff, Math.round(dpi));
+  const isJfif = bytes[2] === 0xff && bytes[3] === 0xe0 && String.fromCharCode(...bytes.subarray(6, 10)) === 'JFIF';
+  if (isJfif) {
+    const out = bytes.slice();
+    const view = new DataView(out.buffer);
+    out[13] = 1; // units: dots per inch
+    view.setUint16(14, density);
+    view.setUint16(16, density);
+    return out;
+  }
+  // No JFIF header (e.g. an EXIF-only file): add one right after the start-of-image marker.
+  const segment = new Uint8Array(18);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe0);
+  view.setUint16(2, 16);
+  segment.set(ascii('JFIF\0'), 4);
+  segment[9] = 1;
+  segment[10] = 2;
+  segment[11] = 1;
+  view.setUint16(12, density);
+  view.setUint16(14, density);
+  return concat([bytes.subarray(0, 2), segment, bytes.subarray(2)]);
+};
+
+export const canStoreDpi = (mimeType: string) => mimeType === 'image/png' || mimeType === 'image/jpeg';
+
+export const withDpi = (bytes: Uint8Array, mimeType: string, dpi: number): Uint8Array => {
+  if (mimeType === 'image/png') return pngWithDpi(bytes, dpi);
+  if (mimeType === 'image/jpeg' && bytes[0] === 0xff && bytes[1] === 0xd8) return jpegWithDpi(bytes, dpi);
+  return bytes;
+};
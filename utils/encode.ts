@@ -0,0 +1,97 @@
+import { loadImage } from './mask';
+
+// Encoding images for download: format, quality, and searching for the quality that fits a
+// file-size budget.
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; lossy: boolean }[] = [
+  { format: 'image/png', label: 'PNG', extension: 'png', lossy: false },
+  { format: 'image/jpeg', label: 'JPEG', extension: 'jpg', lossy: true },
+  { format: 'image/webp', label: 'WebP', extension: 'webp', lossy: true },
+  { format: 'image/avif', label: 'AVIF', extension: 'avif', lossy: true },
+];
+
+export const isLossy = (format: ExportFormat) => EXPORT_FORMATS.some(f => f.format === format && f.lossy);
+
+export const formatExtension = (format: ExportFormat) => EXPORT_FORMATS.find(f => f.format === format)!.extension;
+
+// Browsers fall back to PNG for formats their canvas cannot encode, so probe each one once.
+const supported = new Map<ExportFormat, boolean>();
+
+export const canEncode = (format: ExportFormat): boolean => {
+  if (!supported.has(format)) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    supported.set(format, canvas.toDataURL(format).startsWith(`data:${format}`));
+  }
+  return supported.get(format)!;
+};
+
+export const loadCanvas = async (src: string): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas error.');
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+};
+
+// JPEG has no alpha channel; transparent areas are flattened onto white instead of black.
+export const flatten = (canvas: HTMLCanvasElement): HTMLCanvasElement => {
+  const flat = document.createElement('canvas');
+  flat.width = canvas.width;
+  flat.height = canvas.height;
+  const ctx = flat.getContext('2d');
+  if (!ctx) throw new Error('Canvas error.');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, flat.width, flat.height);
+  ctx.drawImage(canvas, 0, 0);
+  return flat;
+};
+
+// Quality is 0–1 and ignored for PNG.
+export const encodeCanvas = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const source = format === 'image/jpeg' ? flatten(canvas) : canvas;
+    source.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), format, quality);
+  });
+
+export interface SizedEncoding {
+  blob: Blob;
+  quality: number;
+  // False when even the lowest quality is larger than the budget; the smallest result is returned.
+  fits: boolean;
+}
+
+const MIN_QUALITY = 0.05;
+const SEARCH_STEPS = 7;
+
+// Binary search for the highest quality whose output is at most maxBytes.
+export const encodeToSize = async (canvas: HTMLCanvasElement, format: ExportFormat, maxBytes: number): Promise<SizedEncoding> => {
+  const best = await encodeCanvas(canvas, format, 1);
+  if (best.size <= maxBytes || !isLossy(format)) return { blob: best, quality: 1, fits: best.size <= maxBytes };
+
+  const smallest = await encodeCanvas(canvas, format, MIN_QUALITY);
+  if (smallest.size > maxBytes) return { blob: smallest, quality: MIN_QUALITY, fits: false };
+
+  let fit = { blob: smallest, quality: MIN_QUALITY };
+  let low = MIN_QUALITY;
+  let high = 1;
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const blob = await encodeCanvas(canvas, format, quality);
+    if (blob.size <= maxBytes) {
+      fit = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  return { ...fit, fits: true };
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
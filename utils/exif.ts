@@ -0,0 +1,327 @@
+import type { ImageMetadata } from '../types';
+import { crc32 } from './zip';
+
+// EXIF for uploads and downloads. Uploads are re-encoded through a canvas, which drops the
+// metadata, so it is read from the original file first: the orientation is applied to the
+// pixels and the rest can be shown, or written back into a JPEG or PNG on export.
+
+const EXIF_HEADER = 'Exif\0\0';
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  thumbnailOffset: 0x0201,
+  thumbnailLength: 0x0202,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 1,
+  gpsLatitude: 2,
+  gpsLongitudeRef: 3,
+  gpsLongitude: 4,
+};
+
+// Bytes per value for each TIFF field type.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+export interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // Offset of the value, inline in the entry when it fits in four bytes.
+  valueOffset: number;
+  entryOffset: number;
+}
+
+// A TIFF block (the EXIF payload after its "Exif\0\0" header, or a whole TIFF file).
+export class Tiff {
+  readonly view: DataView;
+  readonly little: boolean;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.little = bytes[0] === 0x49;
+  }
+
+  u16 = (offset: number) => this.view.getUint16(offset, this.little);
+  u32 = (offset: number) => this.view.getUint32(offset, this.little);
+  setU16 = (offset: number, value: number) => this.view.setUint16(offset, value, this.little);
+  setU32 = (offset: number, value: number) => this.view.setUint32(offset, value, this.little);
+
+  get firstIfd() {
+    return this.u32(4);
+  }
+
+  entries(ifd: number): IfdEntry[] {
+    if (ifd <= 0 || ifd + 2 > this.bytes.length) return [];
+    const count = this.u16(ifd);
+    const entries: IfdEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const entryOffset = ifd + 2 + i * 12;
+      if (entryOffset + 12 > this.bytes.length) break;
+      const type = this.u16(entryOffset + 2);
+      const entryCount = this.u32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * entryCount;
+      entries.push({
+        tag: this.u16(entryOffset),
+        type,
+        count: entryCount,
+        valueOffset: size > 4 ? this.u32(entryOffset + 8) : entryOffset + 8,
+        entryOffset,
+      });
+    }
+    return entries;
+  }
+
+  valueSize = (entry: IfdEntry) => (TYPE_SIZES[entry.type] ?? 1) * entry.count;
+
+  ascii(entry: IfdEntry): string {
+    const end = Math.min(this.bytes.length, entry.valueOffset + entry.count);
+    return String.fromCharCode(...this.bytes.subarray(entry.valueOffset, end)).replace(/\0+$/, '').trim();
+  }
+
+  number(entry: IfdEntry, index = 0): number {
+    const offset = entry.valueOffset + index * (TYPE_SIZES[entry.type] ?? 1);
+    switch (entry.type) {
+      case 3: return this.u16(offset);
+      case 4: return this.u32(offset);
+      case 5: return this.u32(offset) / (this.u32(offset + 4) || 1);
+      case 9: return this.view.getInt32(offset, this.little);
+      case 10: return this.view.getInt32(offset, this.little) / (this.view.getInt32(offset + 4, this.little) || 1);
+      default: return this.bytes[offset];
+    }
+  }
+}
+
+export interface JpegInfo {
+  // The TIFF block of the first EXIF segment, if any.
+  exif: Uint8Array | null;
+  // Pixel size as stored, before any orientation is applied.
+  width: number;
+  height: number;
+}
+
+// Walks the JPEG markers up to the first frame header.
+export const readJpegInfo = (bytes: Uint8Array): JpegInfo | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let exif: Uint8Array | null = null;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    const start = offset + 4;
+    if (marker === 0xe1 && !exif && String.fromCharCode(...bytes.subarray(start, start + 6)) === EXIF_HEADER) {
+      exif = bytes.slice(start + 6, offset + 2 + length);
+    }
+    // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC).
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { exif, height: view.getUint16(start + 1), width: view.getUint16(start + 3) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const formatExposure = (seconds: number) => (seconds >= 1 ? `${seconds}s` : `1/${Math.round(1 / seconds)}s`);
+
+// Degrees, minutes and seconds to signed decimal degrees.
+const gpsCoordinate = (tiff: Tiff, value?: IfdEntry, ref?: IfdEntry): number | undefined => {
+  if (!value || value.count < 3) return undefined;
+  const degrees = tiff.number(value, 0) + tiff.number(value, 1) / 60 + tiff.number(value, 2) / 3600;
+  return /[SW]/.test(ref ? tiff.ascii(ref) : '') ? -degrees : degrees;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export const parseExif = (exif: Uint8Array): ImageMetadata | undefined => {
+  if (exif.length < 8) return undefined;
+  const tiff = new Tiff(exif);
+  const find = (entries: IfdEntry[], tag: number) => entries.find(entry => entry.tag === tag);
+  const text = (entries: IfdEntry[], tag: number) => {
+    const entry = find(entries, tag);
+    return entry ? tiff.ascii(entry) || undefined : undefined;
+  };
+  const num = (entries: IfdEntry[], tag: number) => {
+    const entry = find(entries, tag);
+    return entry ? tiff.number(entry) : undefined;
+  };
+
+  const ifd0 = tiff.entries(tiff.firstIfd);
+  const exifIfd = tiff.entries(num(ifd0, TAG.exifIfd) ?? 0);
+  const gpsIfd = tiff.entries(num(ifd0, TAG.gpsIfd) ?? 0);
+
+  const exposure = num(exifIfd, TAG.exposureTime);
+  const fNumber = num(exifIfd, TAG.fNumber);
+  const focalLength = num(exifIfd, TAG.focalLength);
+  const latitude = gpsCoordinate(tiff, find(gpsIfd, TAG.gpsLatitude), find(gpsIfd, TAG.gpsLatitudeRef));
+  const longitude = gpsCoordinate(tiff, find(gpsIfd, TAG.gpsLongitude), find(gpsIfd, TAG.gpsLongitudeRef));
+
+  return {
+    exif: toBase64(exif),
+    orientation: num(ifd0, TAG.orientation) ?? 1,
+    camera: [text(ifd0, TAG.make), text(ifd0, TAG.model)].filter(Boolean).join(' ') || undefined,
+    lens: text(exifIfd, TAG.lensModel),
+    software: text(ifd0, TAG.software),
+    takenAt: text(exifIfd, TAG.dateTimeOriginal) ?? text(ifd0, TAG.dateTime),
+    exposure: exposure ? formatExposure(exposure) : undefined,
+    aperture: fNumber ? `f/${Number(fNumber.toFixed(1))}` : undefined,
+    iso: num(exifIfd, TAG.iso),
+    focalLength: focalLength ? `${Math.round(focalLength)}mm` : undefined,
+    gps: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+  };
+};
+
+// Browsers that follow `image-orientation: from-image` (the default in current ones) already
+// rotate when decoding. A 90° orientation shows up as swapped sides; otherwise fall back to
+// asking CSS.
+export const browserAppliesOrientation = (info: JpegInfo, img: HTMLImageElement, orientation: number): boolean =>
+  orientation >= 5
+    ? img.naturalWidth === info.height && img.naturalHeight === info.width
+    : typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+
+// Sets up the context so drawing the stored (unrotated) width x height image at 0,0 comes out upright.
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+// Draws an image upright for browsers that did not rotate it while decoding.
+export const drawUpright = (img: HTMLImageElement | HTMLCanvasElement, orientation: number): HTMLCanvasElement => {
+  const width = img instanceof HTMLImageElement ? img.naturalWidth : img.width;
+  const height = img instanceof HTMLImageElement ? img.naturalHeight : img.height;
+  const canvas = document.createElement('canvas');
+  const rotated = orientation >= 5;
+  canvas.width = rotated ? height : width;
+  canvas.height = rotated ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas error.');
+  applyOrientation(ctx, orientation, width, height);
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+};
+
+// Reads the EXIF of an uploaded file. Only JPEG is inspected; that is what cameras and phones write.
+export const readFileExif = async (file: File): Promise<{ info: JpegInfo | null; metadata?: ImageMetadata }> => {
+  if (file.type !== 'image/jpeg') return { info: null };
+  try {
+    const info = readJpegInfo(new Uint8Array(await file.arrayBuffer()));
+    return { info, metadata: info?.exif ? parseExif(info.exif) : undefined };
+  } catch {
+    // Damaged metadata should not block the upload.
+    return { info: null };
+  }
+};
+
+export type MetadataMode = 'strip' | 'noGps' | 'keep';
+
+// The saved EXIF, ready to write into an export: orientation reset (the pixels are already
+// upright), the embedded thumbnail wiped (it shows the unedited original), and GPS removed
+// unless keepGps is set. Removed data is overwritten with zeros, not just unlinked.
+export const prepareExif = (metadata: ImageMetadata, keepGps: boolean): Uint8Array => {
+  const bytes = fromBase64(metadata.exif);
+  const tiff = new Tiff(bytes);
+  const ifd0 = tiff.firstIfd;
+  const entries = tiff.entries(ifd0);
+  const count = entries.length;
+
+  const orientation = entries.find(entry => entry.tag === TAG.orientation);
+  if (orientation) tiff.setU16(orientation.valueOffset, 1);
+
+  // The link to the next IFD (the thumbnail) follows the entries.
+  const ifd1 = tiff.u32(ifd0 + 2 + count * 12);
+  let end = bytes.length;
+  if (ifd1) {
+    const thumbnail = tiff.entries(ifd1);
+    const start = thumbnail.find(entry => entry.tag === TAG.thumbnailOffset);
+    const length = thumbnail.find(entry => entry.tag === TAG.thumbnailLength);
+    if (start && length) {
+      const from = tiff.number(start);
+      const to = Math.min(bytes.length, from + tiff.number(length));
+      bytes.fill(0, from, to);
+      // Usually the thumbnail is the last thing in the block and can be cut off entirely.
+      if (to === bytes.length && from > ifd1) end = from;
+    }
+    bytes.fill(0, ifd1, Math.min(bytes.length, ifd1 + 2 + thumbnail.length * 12 + 4));
+    tiff.setU32(ifd0 + 2 + count * 12, 0);
+  }
+
+  const gps = entries.find(entry => entry.tag === TAG.gpsIfd);
+  if (gps && !keepGps) {
+    // Zero the GPS directory and its values, then drop its entry from IFD0.
+    const gpsIfd = tiff.number(gps);
+    for (const entry of tiff.entries(gpsIfd)) {
+      if (tiff.valueSize(entry) > 4) bytes.fill(0, entry.valueOffset, Math.min(bytes.length, entry.valueOffset + tiff.valueSize(entry)));
+    }
+    const gpsEntries = tiff.entries(gpsIfd).length;
+    bytes.fill(0, gpsIfd, Math.min(bytes.length, gpsIfd + 2 + gpsEntries * 12 + 4));
+    bytes.copyWithin(gps.entryOffset, gps.entryOffset + 12, ifd0 + 2 + count * 12 + 4);
+    bytes.fill(0, ifd0 + 2 + (count - 1) * 12 + 4, ifd0 + 2 + count * 12 + 4);
+    tiff.setU16(ifd0, count - 1);
+  }
+  return bytes.subarray(0, end);
+};
+
+export const canStoreExif = (mimeType: string) => mimeType === 'image/png' || mimeType === 'image/jpeg';
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+// Writes a TIFF block as a JPEG APP1 segment (after JFIF, which must stay first) or a PNG
+// eXIf chunk (before the image data). Files that already carry EXIF are left alone.
+export const insertExif = (bytes: Uint8Array, mimeType: string, tiff: Uint8Array): Uint8Array => {
+  if (mimeType === 'image/jpeg') {
+    if (readJpegInfo(bytes)?.exif || tiff.length + 8 > 0xffff) return bytes;
+    const segment = new Uint8Array(4);
+    new DataView(segment.buffer).setUint32(0, (0xffe1 << 16) | (tiff.length + 8));
+    const at = bytes[2] === 0xff && bytes[3] === 0xe0 ? 4 + ((bytes[4] << 8) | bytes[5]) : 2;
+    return concat([bytes.subarray(0, at), segment, ascii(EXIF_HEADER), tiff, bytes.subarray(at)]);
+  }
+  if (mimeType === 'image/png') {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunk = new Uint8Array(12 + tiff.length);
+    const chunkView = new DataView(chunk.buffer);
+    chunkView.setUint32(0, tiff.length);
+    chunk.set(ascii('eXIf'), 4);
+    chunk.set(tiff, 8);
+    chunkView.setUint32(8 + tiff.length, crc32(chunk.subarray(4, 8 + tiff.length)));
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+      if (type === 'eXIf') return bytes;
+      if (type === 'IDAT') return concat([bytes.subarray(0, offset), chunk, bytes.subarray(offset)]);
+      offset += 12 + view.getUint32(offset);
+    }
+  }
+  return bytes;
+};
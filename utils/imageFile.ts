@@ -0,0 +1,39 @@
+import type { ImageFile } from '../types';
+
+// Reads the mime type out of a `data:<mime>;base64,...` URL.
+export const getDataUrlMimeType = (dataUrl: string, fallback = 'image/png'): string =>
+  dataUrl.match(/^data:(.*?);base64,/)?.[1] || fallback;
+
+export const stripExtension = (name: string): string =>
+  name.includes('.') ? name.substring(0, name.lastIndexOf('.')) : name;
+
+// Wraps a generated result so it can be fed back into any tool as an input.
+export const dataUrlToImageFile = (dataUrl: string, name: string): ImageFile => ({
+  base64: dataUrl,
+  mimeType: getDataUrlMimeType(dataUrl),
+  name,
+});
+
+// Reads an image file at its full resolution, without the uploader's downscaling.
+export const readImageFile = (file: File): Promise<ImageFile> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ base64: reader.result as string, mimeType: file.type, name: file.name });
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Fills a pattern like `{name}_{width}x{height}`. Characters that are not allowed in file
+// names are replaced, and unknown placeholders are left as they are.
+export const applyNamePattern = (pattern: string, values: Record<string, string | number>): string =>
+  pattern
+    .replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match))
+    .replace(/[\\/:*?"<>|]/g, '_')
+    .trim() || 'image';
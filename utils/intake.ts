@@ -0,0 +1,183 @@
+import type { ImageFile, ImageMetadata } from '../types';
+import { decodedFormat, decodeImage, DECODED_EXTENSIONS } from './decode';
+import { browserAppliesOrientation, drawUpright, readFileExif } from './exif';
+import { flatten } from './encode';
+import { readImageFile, stripExtension } from './imageFile';
+import { loadImage } from './mask';
+import { resampleRegion } from './resize';
+
+// Checks and preparation shared by every way an image enters the app: the file picker,
+// drag and drop, paste, URL import and webcam capture.
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/bmp'];
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+// HEIC, TIFF and RAW files (see utils/decode.ts); RAW files in particular are large.
+export const MAX_DECODED_BYTES = 100 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 200 * 1024 * 1024;
+// Uploads are scaled to fit this and re-encoded as JPEG so requests stay within the API payload limits.
+export const MAX_DIMENSION = 1024;
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/');
+
+// For file inputs: some systems have no image type for HEIC and RAW files, so list their extensions.
+export const IMAGE_ACCEPT = ['image/*', ...DECODED_EXTENSIONS.map(extension => `.${extension}`)].join(',');
+
+export type IntakeErrorKind =
+  | 'unsupported'          // not an image type we can read
+  | 'unsupportedMedia'     // the same, where videos are accepted too
+  | 'tooLarge'
+  | 'unreadable'           // the browser could not load the image
+  | 'decodeFailed'         // a HEIC, TIFF or RAW file could not be decoded
+  | 'invalidUrl'
+  | 'urlProtocol'
+  | 'downloadBlocked'      // network or CORS failure
+  | 'downloadStatus'
+  | 'clipboardUnsupported'
+  | 'clipboardDenied'
+  | 'clipboardEmpty'
+  | 'captureFailed';
+
+// The message is English, for logs; the uploader shows the translation of `kind` with
+// `values` ({name}, {size}, {status}, {detail}) filled in.
+export class IntakeError extends Error {
+  readonly kind: IntakeErrorKind;
+  readonly values: Record<string, string | number>;
+
+  constructor(kind: IntakeErrorKind, message: string, values: Record<string, string | number> = {}) {
+    super(message);
+    this.name = 'IntakeError';
+    this.kind = kind;
+    this.values = values;
+  }
+}
+
+// The user-facing text in the language of `messages` (the `intake` translations); other
+// errors keep their own message.
+export const describeIntakeError = (error: unknown, messages: Record<IntakeErrorKind, string>): string =>
+  error instanceof IntakeError
+    ? Object.entries(error.values).reduce((text, [key, value]) => text.replace(`{${key}}`, String(value)), messages[error.kind])
+    : error instanceof Error ? error.message : String(error);
+
+export const checkFile = (file: File, allowVideo = false) => {
+  const name = file.name || 'image';
+  if (allowVideo && isVideoFile(file)) {
+    const size = MAX_VIDEO_BYTES / 1024 / 1024;
+    if (file.size > MAX_VIDEO_BYTES) throw new IntakeError('tooLarge', `${name} is larger than ${size} MB.`, { name, size });
+    return;
+  }
+  const decoded = decodedFormat(file) !== null;
+  if (!decoded && !IMAGE_TYPES.includes(file.type)) {
+    throw new IntakeError(allowVideo ? 'unsupportedMedia' : 'unsupported', `${name} is not a supported image${allowVideo ? ' or video' : ''}.`, { name });
+  }
+  const limit = decoded ? MAX_DECODED_BYTES : MAX_IMAGE_BYTES;
+  const size = limit / 1024 / 1024;
+  if (file.size > limit) throw new IntakeError('tooLarge', `${name} is larger than ${size} MB.`, { name, size });
+};
+
+// Scales to fit MAX_DIMENSION and encodes as JPEG.
+const toImageFile = async (source: HTMLImageElement | HTMLCanvasElement, name: string, metadata?: ImageMetadata): Promise<ImageFile> => {
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  // Area averaging, so large reductions do not alias the way a single drawImage does.
+  const canvas = await resampleRegion(source, { x: 0, y: 0, width: source.width, height: source.height }, width, height, { method: scale < 1 ? 'area' : 'browser', sharpen: 0 });
+  // Always JPEG, even for small images: large PNGs can exceed the payload limits after resizing.
+  return { base64: flatten(canvas).toDataURL('image/jpeg', 0.9), mimeType: 'image/jpeg', name, metadata };
+};
+
+// Turns a browser-readable image upright from its EXIF orientation and scales it down.
+const prepareImage = async (file: File): Promise<ImageFile> => {
+  // Read before the canvas re-encode below, which drops EXIF.
+  const { info, metadata } = await readFileExif(file);
+  const original = { ...(await readImageFile(file)), metadata };
+  const img = await loadImage(original.base64).catch(() => {
+    throw new IntakeError('unreadable', `${file.name} could not be read as an image.`, { name: file.name });
+  });
+
+  // Phone photos are often stored sideways with an EXIF orientation; make sure they come out upright.
+  const orientation = metadata?.orientation ?? 1;
+  const source = info && orientation > 1 && !browserAppliesOrientation(info, img, orientation) ? drawUpright(img, orientation) : img;
+  try {
+    return await toImageFile(source, file.name, metadata);
+  } catch {
+    // Fall back to the original if the image cannot be drawn.
+    return original;
+  }
+};
+
+// Validates and prepares an upload. HEIC, TIFF and RAW files are decoded first; a multi-page
+// TIFF gives one image per page unless allPages is off.
+export const prepareImages = async (file: File, allPages = true): Promise<ImageFile[]> => {
+  checkFile(file);
+  if (!decodedFormat(file)) return [await prepareImage(file)];
+  const images: ImageFile[] = [];
+  try {
+    await decodeImage(file, async ({ image, metadata }) => {
+      const name = images.length === 0 ? file.name : `${stripExtension(file.name)} (page ${images.length + 1})`;
+      images.push(await toImageFile(image, name, metadata));
+    }, allPages);
+  } catch (error) {
+    // The decoders' own messages are technical details and stay in English.
+    const detail = (error as Error).message;
+    throw new IntakeError('decodeFailed', `${file.name}: ${detail}`, { name: file.name, detail });
+  }
+  return images;
+};
+
+const fileNameFromUrl = (url: URL, mimeType: string): string => {
+  const last = decodeURIComponent(url.pathname.split('/').pop() || '');
+  return last.includes('.') ? last : `${last || 'image'}.${mimeType.split('/')[1] || 'png'}`;
+};
+
+export const fetchImageFile = async (address: string, signal?: AbortSignal): Promise<File> => {
+  let url: URL;
+  try {
+    url = new URL(address.trim());
+  } catch {
+    throw new IntakeError('invalidUrl', 'Enter a full image address, starting with https://.');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new IntakeError('urlProtocol', 'Only http and https addresses can be imported.');
+
+  let response: Response;
+  try {
+    response = await fetch(url.href, { signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // Fetch gives no detail here; a missing CORS header on the other site is the usual cause.
+    throw new IntakeError('downloadBlocked', 'The image could not be downloaded. The site may not allow other apps to load its images.');
+  }
+  if (!response.ok) {
+    throw new IntakeError('downloadStatus', `The image could not be downloaded (status ${response.status}).`, { status: response.status });
+  }
+  const blob = await response.blob();
+  return new File([blob], fileNameFromUrl(url, blob.type), { type: blob.type });
+};
+
+// Images on the clipboard, read through the async clipboard API (for the Paste button; Ctrl+V uses the paste event).
+export const readClipboardImages = async (): Promise<File[]> => {
+  if (!navigator.clipboard?.read) throw new IntakeError('clipboardUnsupported', 'This browser cannot read images from the clipboard.');
+  let items: ClipboardItems;
+  try {
+    items = await navigator.clipboard.read();
+  } catch {
+    throw new IntakeError('clipboardDenied', 'Reading the clipboard was not allowed.');
+  }
+  const files: File[] = [];
+  for (const item of items) {
+    const type = item.types.find(t => t.startsWith('image/'));
+    if (type) files.push(new File([await item.getType(type)], `pasted-image.${type.split('/')[1]}`, { type }));
+  }
+  if (files.length === 0) throw new IntakeError('clipboardEmpty', 'There is no image on the clipboard.');
+  return files;
+};
+
+export const captureVideoFrame = (video: HTMLVideoElement, name: string): Promise<File> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return reject(new IntakeError('captureFailed', 'Canvas error.'));
+    ctx.drawImage(video, 0, 0);
+    canvas.toBlob(blob => (blob ? resolve(new File([blob], name, { type: 'image/jpeg' })) : reject(new IntakeError('captureFailed', 'Could not capture the frame.'))), 'image/jpeg', 0.92);
+  });
@@ -0,0 +1,59 @@
+import type { ImageFile } from '../types';
+
+// Masks are kept as PNGs whose alpha channel marks the region to edit (painted = opaque).
+// The model gets a black-and-white version; compositing uses the alpha directly.
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image.'));
+    img.src = src;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+export const isCanvasEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 0) return false;
+  }
+  return true;
+};
+
+// White where the mask is painted, black elsewhere, as the model expects.
+export const maskToImageFile = async (mask: string, name: string): Promise<ImageFile> => {
+  const img = await loadImage(mask);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return { base64: canvas.toDataURL('image/png'), mimeType: 'image/png', name };
+};
+
+// Keeps the original everywhere outside the mask, so only the painted region can change.
+// The edit is scaled to the original's size first, since the model may answer at another resolution.
+export const compositeWithMask = async (original: string, edited: string, mask: string): Promise<string> => {
+  const [originalImg, editedImg, maskImg] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+  const width = originalImg.naturalWidth;
+  const height = originalImg.naturalHeight;
+
+  const patch = createCanvas(width, height);
+  patch.ctx.drawImage(editedImg, 0, 0, width, height);
+  patch.ctx.globalCompositeOperation = 'destination-in';
+  patch.ctx.drawImage(maskImg, 0, 0, width, height);
+
+  const result = createCanvas(width, height);
+  result.ctx.drawImage(originalImg, 0, 0);
+  result.ctx.drawImage(patch.canvas, 0, 0);
+  return result.canvas.toDataURL('image/png');
+};
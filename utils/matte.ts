@@ -0,0 +1,122 @@
+import { loadImage } from './mask';
+
+// Cut-outs from an AI-generated matte. The model's matte is scaled to the original, then its
+// edges are refined locally, and the subject is taken from the original pixels so it is never
+// altered by the model.
+
+export interface MatteRefinement {
+  feather: number;  // blur radius in pixels, 0-20
+  shift: number;    // -50 (shrink) to 50 (grow the subject)
+  hardness: number; // 0 (keep the soft edges) to 100 (nearly binary)
+}
+
+export const DEFAULT_REFINEMENT: MatteRefinement = { feather: 1, shift: 0, hardness: 30 };
+
+export type Background =
+  | { kind: 'transparent' }
+  | { kind: 'color'; color: string }
+  | { kind: 'blur'; radius: number }
+  | { kind: 'image'; src: string };
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+// Box blur of one channel, horizontal then vertical. Two runs approximate a gaussian; the
+// sliding window keeps the cost independent of the radius.
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+  if (radius < 1) return;
+  const r = Math.round(radius);
+  const line = new Float32Array(Math.max(width, height));
+  const pass = (length: number, count: number, index: (line: number, i: number) => number) => {
+    for (let l = 0; l < count; l++) {
+      for (let i = 0; i < length; i++) line[i] = values[index(l, i)];
+      let sum = 0;
+      for (let i = -r; i <= r; i++) sum += line[Math.min(length - 1, Math.max(0, i))];
+      for (let i = 0; i < length; i++) {
+        values[index(l, i)] = sum / (2 * r + 1);
+        sum += line[Math.min(length - 1, i + r + 1)] - line[Math.max(0, i - r)];
+      }
+    }
+  };
+  for (let run = 0; run < 2; run++) {
+    pass(width, height, (y, x) => y * width + x);
+    pass(height, width, (x, y) => y * width + x);
+  }
+};
+
+// Scales the matte to the original's size and returns it as a white PNG whose alpha is the
+// refined coverage: feathered, moved in or out, then hardened with a levels ramp.
+export const refineMatte = async (original: string, matte: string, { feather, shift, hardness }: MatteRefinement): Promise<string> => {
+  const [originalImg, matteImg] = await Promise.all([loadImage(original), loadImage(matte)]);
+  const { canvas, ctx } = createCanvas(originalImg.naturalWidth, originalImg.naturalHeight);
+  ctx.drawImage(matteImg, 0, 0, canvas.width, canvas.height);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+
+  const coverage = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < coverage.length; i++) {
+    coverage[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  boxBlur(coverage, canvas.width, canvas.height, feather);
+
+  // A lower threshold lets more of the blurred edge through, which grows the subject.
+  const centre = 128 - shift * 2.5;
+  const halfWidth = Math.max(4, 128 * (1 - hardness / 100));
+  for (let i = 0; i < coverage.length; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = 255;
+    data[i * 4 + 3] = ((coverage[i] - centre + halfWidth) / (2 * halfWidth)) * 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const drawBlurred = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, radius: number) => {
+  const { width, height } = ctx.canvas;
+  ctx.drawImage(img, 0, 0, width, height);
+  const image = ctx.getImageData(0, 0, width, height);
+  const channel = new Float32Array(width * height);
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < channel.length; i++) channel[i] = image.data[i * 4 + c];
+    boxBlur(channel, width, height, radius);
+    for (let i = 0; i < channel.length; i++) image.data[i * 4 + c] = channel[i];
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+// Draws an image over the whole canvas, cropping it like CSS `object-fit: cover`.
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+// The subject from the original over the chosen background, as a PNG the size of the original.
+export const composeCutout = async (original: string, refinedMatte: string, background: Background): Promise<string> => {
+  const [originalImg, matteImg] = await Promise.all([loadImage(original), loadImage(refinedMatte)]);
+  const width = originalImg.naturalWidth;
+  const height = originalImg.naturalHeight;
+
+  const subject = createCanvas(width, height);
+  subject.ctx.drawImage(originalImg, 0, 0);
+  subject.ctx.globalCompositeOperation = 'destination-in';
+  subject.ctx.drawImage(matteImg, 0, 0, width, height);
+  if (background.kind === 'transparent') return subject.canvas.toDataURL('image/png');
+
+  const result = createCanvas(width, height);
+  if (background.kind === 'color') {
+    result.ctx.fillStyle = background.color;
+    result.ctx.fillRect(0, 0, width, height);
+  } else if (background.kind === 'blur') {
+    drawBlurred(result.ctx, originalImg, background.radius);
+  } else {
+    drawCover(result.ctx, await loadImage(background.src));
+  }
+  result.ctx.drawImage(subject.canvas, 0, 0);
+  return result.canvas.toDataURL('image/png');
+};
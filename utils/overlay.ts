@@ -0,0 +1,194 @@
+import { translations, Language } from '../translations';
+import { getDataUrlMimeType, stripExtension } from './imageFile';
+import { loadImage } from './mask';
+
+// Text and logo layers drawn over an image. Positions and sizes are fractions of the image,
+// so the same layers (e.g. a saved watermark) fit any resolution. Text is laid out in the
+// direction of its language from translations.ts; the browser's text shaping joins Arabic-script
+// letters as long as the direction and a font with those glyphs are set.
+
+export type TextAlign = 'start' | 'center' | 'end';
+
+export interface TextLayer {
+  id: number;
+  kind: 'text';
+  text: string;
+  language: Language;
+  font: string;
+  bold: boolean;
+  size: number;        // percent of the image's shorter side
+  color: string;
+  align: TextAlign;
+  x: number;           // anchor point, fraction of the width
+  y: number;           // anchor point, fraction of the height
+  opacity: number;     // 0-1
+  strokeWidth: number; // percent of the font size
+  strokeColor: string;
+  shadowBlur: number;  // percent of the font size
+  shadowColor: string;
+}
+
+export interface LogoLayer {
+  id: number;
+  kind: 'logo';
+  src: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;       // percent of the image width
+  opacity: number;
+}
+
+export type OverlayLayer = TextLayer | LogoLayer;
+
+// An uploaded font, kept as a data URL so it can be saved with a watermark.
+export interface CustomFont {
+  family: string;
+  src: string;
+}
+
+export const FONT_CHOICES = ['sans-serif', 'serif', 'monospace', 'Tahoma'];
+
+// Generic families must stay unquoted. Tahoma covers Arabic script when the chosen font does not.
+const GENERIC_FAMILIES = ['sans-serif', 'serif', 'monospace'];
+const FALLBACK_FONTS = 'Tahoma, sans-serif';
+
+const LINE_HEIGHT = 1.25;
+
+let nextLayerId = 1;
+
+export const createTextLayer = (language: Language, text = ''): TextLayer => ({
+  id: nextLayerId++,
+  kind: 'text',
+  text,
+  language,
+  font: 'sans-serif',
+  bold: true,
+  size: 6,
+  color: '#ffffff',
+  align: 'center',
+  x: 0.5,
+  y: 0.9,
+  opacity: 1,
+  strokeWidth: 0,
+  strokeColor: '#000000',
+  shadowBlur: 10,
+  shadowColor: '#000000',
+});
+
+export const createLogoLayer = (src: string, name: string): LogoLayer => ({
+  id: nextLayerId++,
+  kind: 'logo',
+  src,
+  name,
+  x: 0.88,
+  y: 0.1,
+  width: 15,
+  opacity: 0.8,
+});
+
+// Layers loaded from storage get fresh ids so they never collide with ones made this session.
+export const withNewIds = (layers: OverlayLayer[]): OverlayLayer[] =>
+  layers.map(layer => ({ ...layer, id: nextLayerId++ }));
+
+export const getTextDirection = (language: Language): 'ltr' | 'rtl' => translations[language].dir as 'ltr' | 'rtl';
+
+const loadedFonts = new Map<string, Promise<void>>();
+
+const registerFont = (font: CustomFont): Promise<void> => {
+  let loading = loadedFonts.get(font.family);
+  if (!loading) {
+    loading = new FontFace(font.family, `url(${font.src})`).load().then(face => {
+      document.fonts.add(face);
+    });
+    loadedFonts.set(font.family, loading);
+  }
+  return loading;
+};
+
+export const readFontFile = (file: File): Promise<CustomFont> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const font = { family: stripExtension(file.name), src: reader.result as string };
+      registerFont(font).then(() => resolve(font), () => reject(new Error(`Could not read the font ${file.name}.`)));
+    };
+    reader.onerror = () => reject(new Error(`Could not read the font ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+
+const fontString = (layer: TextLayer, px: number) => {
+  const family = GENERIC_FAMILIES.includes(layer.font) ? layer.font : `"${layer.font}"`;
+  return `${layer.bold ? 'bold ' : ''}${px}px ${family}, ${FALLBACK_FONTS}`;
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: TextLayer) => {
+  const { width, height } = ctx.canvas;
+  const px = Math.max(1, (Math.min(width, height) * layer.size) / 100);
+  const lines = layer.text.split('\n');
+  const x = layer.x * width;
+  const top = layer.y * height - ((lines.length - 1) * px * LINE_HEIGHT) / 2;
+
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.font = fontString(layer, px);
+  // 'start' and 'end' follow the direction, so right-to-left text grows leftwards from its anchor.
+  ctx.direction = getTextDirection(layer.language);
+  ctx.textAlign = layer.align;
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = (px * layer.strokeWidth) / 100;
+  ctx.strokeStyle = layer.strokeColor;
+  ctx.fillStyle = layer.color;
+  const shadow = () => {
+    ctx.shadowColor = layer.shadowColor;
+    ctx.shadowBlur = (px * layer.shadowBlur) / 100;
+    ctx.shadowOffsetX = ctx.shadowOffsetY = ctx.shadowBlur / 3;
+  };
+  const noShadow = () => {
+    ctx.shadowColor = 'transparent';
+  };
+
+  lines.forEach((line, i) => {
+    const y = top + i * px * LINE_HEIGHT;
+    // Only the first pass casts the shadow, so the stroke and the fill do not double it.
+    if (layer.shadowBlur > 0) shadow();
+    if (layer.strokeWidth > 0) {
+      ctx.strokeText(line, x, y);
+      noShadow();
+    }
+    ctx.fillText(line, x, y);
+    noShadow();
+  });
+  ctx.restore();
+};
+
+const drawLogo = async (ctx: CanvasRenderingContext2D, layer: LogoLayer) => {
+  const img = await loadImage(layer.src);
+  const { width, height } = ctx.canvas;
+  const w = (width * layer.width) / 100;
+  const h = (w * img.naturalHeight) / img.naturalWidth;
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.drawImage(img, layer.x * width - w / 2, layer.y * height - h / 2, w, h);
+  ctx.restore();
+};
+
+// Draws the layers over the image, bottom to top. The result keeps the image's format.
+export const renderOverlay = async (base: string, layers: OverlayLayer[], fonts: CustomFont[] = []): Promise<string> => {
+  await Promise.all(fonts.map(registerFont));
+  const img = await loadImage(base);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  for (const layer of layers) {
+    if (layer.kind === 'text') {
+      if (layer.text.trim()) drawText(ctx, layer);
+    } else {
+      await drawLogo(ctx, layer);
+    }
+  }
+  return canvas.toDataURL(getDataUrlMimeType(base), 0.92);
+};
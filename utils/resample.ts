@@ -0,0 +1,178 @@
+import { applySharpen } from './adjustments';
+
+// Resampling on raw RGBA pixels, free of DOM calls so it can run in a worker. Filters are
+// applied separably (rows, then columns) on premultiplied alpha, so transparent edges do not
+// pick up dark fringes. When shrinking, the kernel is widened by the reduction factor so every
+// source pixel contributes, which is what removes the aliasing of plain drawImage.
+
+export type ResampleMethod = 'browser' | 'lanczos3' | 'bicubic' | 'area' | 'multistep';
+
+export interface ResampleOptions {
+  method: ResampleMethod;
+  sharpen: number; // 0 to 100, applied after resizing
+}
+
+export const DEFAULT_RESAMPLING: ResampleOptions = { method: 'lanczos3', sharpen: 0 };
+
+export interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Messages exchanged with resample.worker.ts.
+export interface ResampleJob {
+  id: number;
+  pixels: Pixels;
+  width: number;
+  height: number;
+  options: ResampleOptions;
+}
+
+export type ResampleReply = { id: number; pixels: Pixels } | { id: number; error: string };
+
+interface Filter {
+  support: number;
+  kernel: (x: number) => number;
+}
+
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+
+const FILTERS: Record<'lanczos3' | 'bicubic', Filter> = {
+  lanczos3: { support: 3, kernel: x => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) },
+  // Catmull-Rom (a = -0.5).
+  bicubic: {
+    support: 2,
+    kernel: x => {
+      const t = Math.abs(x);
+      if (t < 1) return 1.5 * t * t * t - 2.5 * t * t + 1;
+      if (t < 2) return -0.5 * t * t * t + 2.5 * t * t - 4 * t + 2;
+      return 0;
+    },
+  },
+};
+
+// For each output position along one axis: the first source index and the weights from there.
+interface Taps {
+  start: number;
+  weights: Float32Array;
+}
+
+const filterTaps = (srcSize: number, dstSize: number, filter: Filter): Taps[] => {
+  const scale = dstSize / srcSize;
+  const stretch = Math.max(1, 1 / scale);
+  const support = filter.support * stretch;
+  return Array.from({ length: dstSize }, (_, i) => {
+    const centre = (i + 0.5) / scale;
+    const start = Math.max(0, Math.floor(centre - support));
+    const end = Math.min(srcSize - 1, Math.ceil(centre + support));
+    const weights = new Float32Array(end - start + 1);
+    let sum = 0;
+    for (let j = start; j <= end; j++) {
+      const w = filter.kernel((j + 0.5 - centre) / stretch);
+      weights[j - start] = w;
+      sum += w;
+    }
+    if (sum !== 0) for (let k = 0; k < weights.length; k++) weights[k] /= sum;
+    return { start, weights };
+  });
+};
+
+// Exact area averaging: each source pixel counts by how much of it the output pixel covers.
+const areaTaps = (srcSize: number, dstSize: number): Taps[] => {
+  const step = srcSize / dstSize;
+  return Array.from({ length: dstSize }, (_, i) => {
+    const from = i * step;
+    const to = Math.min(srcSize, (i + 1) * step);
+    const start = Math.floor(from);
+    const end = Math.max(start + 1, Math.ceil(to));
+    const weights = new Float32Array(end - start);
+    for (let j = start; j < end; j++) weights[j - start] = (Math.min(to, j + 1) - Math.max(from, j)) / (to - from);
+    return { start, weights };
+  });
+};
+
+// One filter pass along rows (stride 4) or columns (stride 4 * width) of premultiplied RGBA.
+const convolve = (
+  src: Float32Array,
+  lines: number,
+  lineStride: number,
+  srcStep: number,
+  taps: Taps[],
+  dstLineStride: number,
+  dstStep: number,
+  out: Float32Array,
+) => {
+  for (let line = 0; line < lines; line++) {
+    const srcBase = line * lineStride;
+    const dstBase = line * dstLineStride;
+    for (let i = 0; i < taps.length; i++) {
+      const { start, weights } = taps[i];
+      let r = 0, g = 0, b = 0, a = 0;
+      let p = srcBase + start * srcStep;
+      for (let k = 0; k < weights.length; k++, p += srcStep) {
+        const w = weights[k];
+        r += src[p] * w;
+        g += src[p + 1] * w;
+        b += src[p + 2] * w;
+        a += src[p + 3] * w;
+      }
+      const q = dstBase + i * dstStep;
+      out[q] = r;
+      out[q + 1] = g;
+      out[q + 2] = b;
+      out[q + 3] = a;
+    }
+  }
+};
+
+const resampleOnce = (source: Pixels, width: number, height: number, method: 'lanczos3' | 'bicubic' | 'area'): Pixels => {
+  const { data, width: srcWidth, height: srcHeight } = source;
+  const premultiplied = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    premultiplied[i] = data[i] * alpha;
+    premultiplied[i + 1] = data[i + 1] * alpha;
+    premultiplied[i + 2] = data[i + 2] * alpha;
+    premultiplied[i + 3] = data[i + 3];
+  }
+
+  const taps = (srcSize: number, dstSize: number) =>
+    method === 'area' ? areaTaps(srcSize, dstSize) : filterTaps(srcSize, dstSize, FILTERS[method]);
+
+  const rows = new Float32Array(width * srcHeight * 4);
+  convolve(premultiplied, srcHeight, srcWidth * 4, 4, taps(srcWidth, width), width * 4, 4, rows);
+  const result = new Float32Array(width * height * 4);
+  convolve(rows, width, 4, width * 4, taps(srcHeight, height), 4, width * 4, result);
+
+  const out = new Uint8ClampedArray(result.length);
+  for (let i = 0; i < result.length; i += 4) {
+    const alpha = result[i + 3];
+    if (alpha <= 0) continue;
+    const scale = 255 / Math.min(255, alpha);
+    out[i] = result[i] * scale;
+    out[i + 1] = result[i + 1] * scale;
+    out[i + 2] = result[i + 2] * scale;
+    out[i + 3] = alpha;
+  }
+  return { data: out, width, height };
+};
+
+// 'browser' leaves the pixels as they are; the caller has already scaled them with drawImage.
+export const resamplePixels = (source: Pixels, width: number, height: number, options: ResampleOptions): Pixels => {
+  let result = source;
+  if (options.method === 'multistep') {
+    // Halve with 2×2 averaging while the image is at least twice the target, then finish bicubic.
+    while (result.width >= width * 2 && result.height >= height * 2) {
+      result = resampleOnce(result, Math.floor(result.width / 2), Math.floor(result.height / 2), 'area');
+    }
+    result = resampleOnce(result, width, height, 'bicubic');
+  } else if (options.method !== 'browser') {
+    result = resampleOnce(source, width, height, options.method);
+  }
+  if (options.sharpen > 0) {
+    if (result === source) result = { ...source, data: new Uint8ClampedArray(source.data) };
+    applySharpen(result, options.sharpen / 100);
+  }
+  return result;
+};
@@ -0,0 +1,13 @@
+import { ResampleJob, ResampleReply, resamplePixels } from './resample';
+
+// Runs resamplePixels off the main thread. Pixel buffers are transferred, not copied.
+self.onmessage = (event: MessageEvent<ResampleJob>) => {
+  const { id, pixels, width, height, options } = event.data;
+  let reply: ResampleReply;
+  try {
+    reply = { id, pixels: resamplePixels(pixels, width, height, options) };
+  } catch (e) {
+    reply = { id, error: e instanceof Error ? e.message : 'Resampling failed.' };
+  }
+  self.postMessage(reply, { transfer: 'pixels' in reply ? [reply.pixels.data.buffer] : [] });
+};
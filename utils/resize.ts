@@ -0,0 +1,128 @@
+import type { ImageFile, SubjectBox } from '../types';
+import { loadImage } from './mask';
+import { DEFAULT_RESAMPLING, Pixels, ResampleJob, ResampleOptions, ResampleReply, resamplePixels } from './resample';
+
+export interface FocalPoint {
+  x: number; // fraction of the width
+  y: number; // fraction of the height
+}
+
+export const CENTER: FocalPoint = { x: 0.5, y: 0.5 };
+
+// The part of a sourceWidth x sourceHeight image that fills the target without stretching:
+// as large as possible, centred on the focal point, and moved back inside the image where
+// the focal point is too close to an edge.
+export const coverCrop = (sourceWidth: number, sourceHeight: number, targetWidth: number, targetHeight: number, focus: FocalPoint = CENTER) => {
+  const scale = Math.max(targetWidth / sourceWidth, targetHeight / sourceHeight);
+  const width = targetWidth / scale;
+  const height = targetHeight / scale;
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+  return {
+    x: clamp(focus.x * sourceWidth - width / 2, sourceWidth - width),
+    y: clamp(focus.y * sourceHeight - height / 2, sourceHeight - height),
+    width,
+    height,
+  };
+};
+
+// One shared worker for all resampling; replies are matched to requests by id.
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pendingJobs = new Map<number, { resolve: (pixels: Pixels) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./resample.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ResampleReply>) => {
+      const job = pendingJobs.get(event.data.id);
+      pendingJobs.delete(event.data.id);
+      if ('error' in event.data) job?.reject(new Error(event.data.error));
+      else job?.resolve(event.data.pixels);
+    };
+    // A crashed worker fails everything in flight; the next call starts a fresh one.
+    worker.onerror = () => {
+      pendingJobs.forEach(job => job.reject(new Error('Resampling failed.')));
+      pendingJobs.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+// Runs in the worker where available, otherwise on the main thread.
+const resampleOffThread = (pixels: Pixels, width: number, height: number, options: ResampleOptions): Promise<Pixels> => {
+  if (typeof Worker === 'undefined') return Promise.resolve(resamplePixels(pixels, width, height, options));
+  return new Promise((resolve, reject) => {
+    const job: ResampleJob = { id: nextJobId++, pixels, width, height, options };
+    pendingJobs.set(job.id, { resolve, reject });
+    getWorker().postMessage(job, [pixels.data.buffer]);
+  });
+};
+
+// Scales a region of an image to width x height. 'browser' uses drawImage; the other methods
+// copy the region at full resolution and resample it in the worker.
+export const resampleRegion = async (
+  img: HTMLImageElement | HTMLCanvasElement,
+  region: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number,
+  options: ResampleOptions = DEFAULT_RESAMPLING,
+): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas error.');
+
+  if (options.method === 'browser') {
+    canvas.width = width;
+    canvas.height = height;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, width, height);
+    if (!options.sharpen) return canvas;
+  } else {
+    canvas.width = Math.max(1, Math.round(region.width));
+    canvas.height = Math.max(1, Math.round(region.height));
+    ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+  }
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const result = await resampleOffThread({ data, width: canvas.width, height: canvas.height }, width, height, options);
+  canvas.width = width;
+  canvas.height = height;
+  ctx.putImageData(new ImageData(result.data, width, height), 0, 0);
+  return canvas;
+};
+
+// Resizing without stretching: the image covers the target and the overflow is cropped
+// around the focal point.
+export const resizeCover = async (
+  src: string,
+  width: number,
+  height: number,
+  mimeType: string,
+  focus: FocalPoint = CENTER,
+  options: ResampleOptions = DEFAULT_RESAMPLING,
+): Promise<string> => {
+  const img = await loadImage(src);
+  const crop = coverCrop(img.naturalWidth, img.naturalHeight, width, height, focus);
+  const canvas = await resampleRegion(img, crop, width, height, options);
+  return canvas.toDataURL(mimeType, 0.9);
+};
+
+// Shrinks an image so neither side exceeds maxDimension, as the uploader does before API calls.
+export const downscaleImage = async (image: ImageFile, maxDimension: number): Promise<ImageFile> => {
+  const img = await loadImage(image.base64);
+  const scale = maxDimension / Math.max(img.naturalWidth, img.naturalHeight);
+  if (scale >= 1) return image;
+  const canvas = await resampleRegion(
+    img,
+    { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight },
+    Math.round(img.naturalWidth * scale),
+    Math.round(img.naturalHeight * scale),
+    { method: 'area', sharpen: 0 },
+  );
+  return { base64: canvas.toDataURL('image/jpeg', 0.9), mimeType: 'image/jpeg', name: image.name };
+};
+
+// Centre of a detected subject, used as the focal point.
+export const focusFromBox = (box: SubjectBox): FocalPoint => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
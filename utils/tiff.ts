@@ -0,0 +1,308 @@
+import { IfdEntry, Tiff } from './exif';
+import type { Pixels } from './resample';
+
+// Baseline TIFF decoding for browsers that cannot show TIFF themselves (all but Safari).
+// Covers what scanners and image editors write: 1–16 bit grey, palette, RGB(A) and CMYK,
+// stored in strips or tiles, chunky or planar, uncompressed or with PackBits, LZW or Deflate.
+// JPEG-compressed and floating-point TIFFs are reported as unsupported.
+
+const TAG = {
+  subfileType: 254,
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  orientation: 274,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338,
+  sampleFormat: 339,
+};
+
+const COMPRESSION = { none: 1, lzw: 5, jpegOld: 6, jpeg: 7, deflate: 8, adobeDeflate: 32946, packBits: 32773 };
+const PHOTOMETRIC = { whiteIsZero: 0, blackIsZero: 1, rgb: 2, palette: 3, cmyk: 5 };
+
+// Pages past this are ignored, so a huge scan stack cannot exhaust memory.
+export const MAX_TIFF_PAGES = 20;
+
+export interface TiffPage {
+  ifd: number;
+  width: number;
+  height: number;
+  orientation: number;
+}
+
+export const isTiff = (bytes: Uint8Array) =>
+  (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 0x2a && bytes[3] === 0) ||
+  (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 0x2a);
+
+const values = (tiff: Tiff, entry?: IfdEntry): number[] =>
+  entry ? Array.from({ length: entry.count }, (_, i) => tiff.number(entry, i)) : [];
+
+const fields = (tiff: Tiff, ifd: number) => {
+  const entries = tiff.entries(ifd);
+  const find = (tag: number) => entries.find(entry => entry.tag === tag);
+  return {
+    list: (tag: number) => values(tiff, find(tag)),
+    get: (tag: number, fallback: number) => {
+      const entry = find(tag);
+      return entry ? tiff.number(entry) : fallback;
+    },
+  };
+};
+
+// The full-size images in the file, skipping reduced-resolution previews.
+export const readTiffPages = (bytes: Uint8Array): TiffPage[] => {
+  if (!isTiff(bytes)) throw new Error('This is not a TIFF file.');
+  const tiff = new Tiff(bytes);
+  const pages: TiffPage[] = [];
+  const seen = new Set<number>();
+  for (let ifd = tiff.firstIfd; ifd > 0 && ifd + 2 <= bytes.length && !seen.has(ifd) && pages.length < MAX_TIFF_PAGES; ) {
+    seen.add(ifd);
+    const tags = fields(tiff, ifd);
+    if ((tags.get(TAG.subfileType, 0) & 1) === 0) {
+      pages.push({ ifd, width: tags.get(TAG.width, 0), height: tags.get(TAG.height, 0), orientation: tags.get(TAG.orientation, 1) });
+    }
+    const next = ifd + 2 + tiff.u16(ifd) * 12;
+    ifd = next + 4 <= bytes.length ? tiff.u32(next) : 0;
+  }
+  return pages;
+};
+
+const unpackBits = (data: Uint8Array, size: number): Uint8Array => {
+  const out = new Uint8Array(size);
+  let o = 0;
+  for (let i = 0; i < data.length && o < size; ) {
+    const n = (data[i++] << 24) >> 24;
+    if (n >= 0) {
+      out.set(data.subarray(i, i + n + 1).subarray(0, size - o), o);
+      o += n + 1;
+      i += n + 1;
+    } else if (n !== -128) {
+      out.fill(data[i++], o, Math.min(size, o - n + 1));
+      o += -n + 1;
+    }
+  }
+  return out;
+};
+
+// TIFF's LZW: MSB-first codes that grow one code early, with 256 as clear and 257 as end.
+const decodeLzw = (data: Uint8Array, size: number): Uint8Array => {
+  const out = new Uint8Array(size);
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Int32Array(4096);
+  for (let i = 0; i < 256; i++) {
+    suffix[i] = i;
+    lengths[i] = 1;
+  }
+  let o = 0;
+  let bitPos = 0;
+  let width = 9;
+  let next = 258;
+  let previous = -1;
+
+  const write = (code: number) => {
+    const length = lengths[code];
+    const end = o + length;
+    for (let c = code, p = end - 1; p >= o; c = prefix[c], p--) if (p < size) out[p] = suffix[c];
+    o = end;
+  };
+  const firstByte = (code: number) => {
+    while (lengths[code] > 1) code = prefix[code];
+    return suffix[code];
+  };
+
+  while (o < size) {
+    const bytePos = bitPos >> 3;
+    if (bytePos >= data.length) break;
+    const chunk = (data[bytePos] << 16) | ((data[bytePos + 1] ?? 0) << 8) | (data[bytePos + 2] ?? 0);
+    const code = (chunk >> (24 - (bitPos & 7) - width)) & ((1 << width) - 1);
+    bitPos += width;
+    if (code === 257) break;
+    if (code === 256) {
+      width = 9;
+      next = 258;
+      previous = -1;
+      continue;
+    }
+    if (previous === -1) {
+      write(code);
+    } else if (next < 4096) {
+      const known = code < next;
+      prefix[next] = previous;
+      suffix[next] = firstByte(known ? code : previous);
+      lengths[next] = lengths[previous] + 1;
+      next++;
+      write(known ? code : next - 1);
+    } else {
+      write(code);
+    }
+    previous = code;
+    if (next + 1 >= 1 << width && width < 12) width++;
+  }
+  return out;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (data: Uint8Array, compression: number, size: number): Promise<Uint8Array> => {
+  switch (compression) {
+    // A copy, since the predictor is undone in place.
+    case COMPRESSION.none: return data.slice(0, size);
+    case COMPRESSION.packBits: return unpackBits(data, size);
+    case COMPRESSION.lzw: return decodeLzw(data, size);
+    case COMPRESSION.deflate:
+    case COMPRESSION.adobeDeflate: return inflate(data);
+    case COMPRESSION.jpeg:
+    case COMPRESSION.jpegOld: throw new Error('JPEG-compressed TIFF files are not supported. Save it with LZW, ZIP or no compression.');
+    default: throw new Error(`This TIFF uses a compression (${compression}) that is not supported.`);
+  }
+};
+
+// Undoes horizontal differencing (predictor 2), row by row.
+const undoPredictor = (data: Uint8Array, rowBytes: number, samples: number, bits: number, little: boolean) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (let row = 0; row + rowBytes <= data.length; row += rowBytes) {
+    if (bits === 8) {
+      for (let i = row + samples; i < row + rowBytes; i++) data[i] = (data[i] + data[i - samples]) & 0xff;
+    } else if (bits === 16) {
+      for (let i = row + samples * 2; i + 1 < row + rowBytes; i += 2) {
+        view.setUint16(i, (view.getUint16(i, little) + view.getUint16(i - samples * 2, little)) & 0xffff, little);
+      }
+    }
+  }
+};
+
+// Decodes one page to RGBA. Planar files are read into one buffer per sample.
+export const decodeTiffPage = async (bytes: Uint8Array, page: TiffPage): Promise<Pixels> => {
+  const tiff = new Tiff(bytes);
+  const tags = fields(tiff, page.ifd);
+  const { width, height } = page;
+  const bits = tags.get(TAG.bitsPerSample, 1);
+  const samples = tags.get(TAG.samplesPerPixel, 1);
+  const compression = tags.get(TAG.compression, COMPRESSION.none);
+  const photometric = tags.get(TAG.photometric, PHOTOMETRIC.blackIsZero);
+  const planar = tags.get(TAG.planarConfig, 1) === 2;
+  const predictor = tags.get(TAG.predictor, 1);
+  if (!width || !height) throw new Error('This TIFF page has no size.');
+  if (tags.get(TAG.sampleFormat, 1) === 3) throw new Error('Floating-point TIFF files are not supported.');
+  if (![1, 2, 4, 8, 16].includes(bits)) throw new Error(`${bits}-bit TIFF files are not supported.`);
+  if (![PHOTOMETRIC.whiteIsZero, PHOTOMETRIC.blackIsZero, PHOTOMETRIC.rgb, PHOTOMETRIC.palette, PHOTOMETRIC.cmyk].includes(photometric)) {
+    throw new Error('This TIFF uses a colour model that is not supported.');
+  }
+
+  const planes = planar ? samples : 1;
+  const perPixel = planar ? 1 : samples;
+  const rowBytes = Math.ceil((width * perPixel * bits) / 8);
+  const buffers = Array.from({ length: planes }, () => new Uint8Array(rowBytes * height));
+
+  const tileWidth = tags.get(TAG.tileWidth, 0);
+  const tileLength = tags.get(TAG.tileLength, 0);
+  const tiled = tileWidth > 0 && tileLength > 0;
+  const offsets = tags.list(tiled ? TAG.tileOffsets : TAG.stripOffsets);
+  const counts = tags.list(tiled ? TAG.tileByteCounts : TAG.stripByteCounts);
+  const rowsPerStrip = Math.min(height, tags.get(TAG.rowsPerStrip, height));
+  const chunkWidth = tiled ? tileWidth : width;
+  const chunkRows = tiled ? tileLength : rowsPerStrip;
+  const chunkRowBytes = Math.ceil((chunkWidth * perPixel * bits) / 8);
+  const across = tiled ? Math.ceil(width / tileWidth) : 1;
+  const down = Math.ceil(height / chunkRows);
+  if (offsets.length < across * down * planes) throw new Error('This TIFF file is incomplete.');
+
+  for (let plane = 0; plane < planes; plane++) {
+    for (let index = 0; index < across * down; index++) {
+      const chunk = plane * across * down + index;
+      const raw = bytes.subarray(offsets[chunk], offsets[chunk] + (counts[chunk] ?? bytes.length));
+      const data = await decompress(raw, compression, chunkRowBytes * chunkRows);
+      if (predictor === 2) undoPredictor(data, chunkRowBytes, perPixel, bits, tiff.little);
+      const x0 = (index % across) * chunkWidth;
+      const y0 = Math.floor(index / across) * chunkRows;
+      // Tiles past the right or bottom edge are padded; only the part inside the image is copied.
+      const copyBytes = Math.min(chunkRowBytes, rowBytes - Math.ceil((x0 * perPixel * bits) / 8));
+      for (let row = 0; row < chunkRows && y0 + row < height; row++) {
+        const from = row * chunkRowBytes;
+        if (from >= data.length) break;
+        buffers[plane].set(data.subarray(from, from + copyBytes), (y0 + row) * rowBytes + Math.ceil((x0 * perPixel * bits) / 8));
+      }
+    }
+  }
+
+  // Sample s of pixel i in row y, scaled to 0–255 (palette indices are returned unscaled).
+  const maxValue = (1 << bits) - 1;
+  const sample = (y: number, x: number, s: number, scale = true): number => {
+    const buffer = buffers[planar ? s : 0];
+    const index = planar ? x : x * samples + s;
+    const base = y * rowBytes;
+    let value: number;
+    if (bits === 8) value = buffer[base + index];
+    else if (bits === 16) {
+      const offset = base + index * 2;
+      value = tiff.little ? buffer[offset] | (buffer[offset + 1] << 8) : (buffer[offset] << 8) | buffer[offset + 1];
+    } else {
+      const bit = index * bits;
+      value = (buffer[base + (bit >> 3)] >> (8 - bits - (bit & 7))) & maxValue;
+    }
+    return scale ? Math.round((value * 255) / maxValue) : value;
+  };
+
+  const colorMap = tags.list(TAG.colorMap);
+  const extra = tags.list(TAG.extraSamples);
+  const colorSamples = photometric === PHOTOMETRIC.rgb ? 3 : photometric === PHOTOMETRIC.cmyk ? 4 : 1;
+  const hasAlpha = samples > colorSamples && (extra[0] === 1 || extra[0] === 2);
+  const premultiplied = extra[0] === 1;
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      let r: number, g: number, b: number;
+      switch (photometric) {
+        case PHOTOMETRIC.rgb:
+          r = sample(y, x, 0);
+          g = sample(y, x, 1);
+          b = sample(y, x, 2);
+          break;
+        case PHOTOMETRIC.palette: {
+          const i = sample(y, x, 0, false);
+          const size = 1 << bits;
+          r = (colorMap[i] ?? 0) >> 8;
+          g = (colorMap[size + i] ?? 0) >> 8;
+          b = (colorMap[2 * size + i] ?? 0) >> 8;
+          break;
+        }
+        case PHOTOMETRIC.cmyk: {
+          const k = 255 - sample(y, x, 3);
+          r = ((255 - sample(y, x, 0)) * k) / 255;
+          g = ((255 - sample(y, x, 1)) * k) / 255;
+          b = ((255 - sample(y, x, 2)) * k) / 255;
+          break;
+        }
+        default: {
+          const grey = sample(y, x, 0);
+          r = g = b = photometric === PHOTOMETRIC.whiteIsZero ? 255 - grey : grey;
+        }
+      }
+      const alpha = hasAlpha ? sample(y, x, colorSamples) : 255;
+      const unpremultiply = premultiplied && alpha > 0 ? 255 / alpha : 1;
+      out[o] = r * unpremultiply;
+      out[o + 1] = g * unpremultiply;
+      out[o + 2] = b * unpremultiply;
+      out[o + 3] = alpha;
+    }
+  }
+  return { data: out, width, height };
+};
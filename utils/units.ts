@@ -0,0 +1,35 @@
+// Physical sizes for print: lengths in px, cm, mm or inches, converted through a DPI.
+
+export type Unit = 'px' | 'cm' | 'mm' | 'in';
+
+export const UNITS: Unit[] = ['px', 'cm', 'mm', 'in'];
+
+const MM_PER_UNIT: Record<Exclude<Unit, 'px'>, number> = { mm: 1, cm: 10, in: 25.4 };
+
+// Decimals shown for each unit; finer than this is below a pixel at print resolutions.
+const DECIMALS: Record<Unit, number> = { px: 0, mm: 1, cm: 2, in: 2 };
+
+export const DEFAULT_DPI = 300;
+
+export const toPixels = (value: number, unit: Unit, dpi: number): number =>
+  unit === 'px' ? Math.round(value) : Math.round((value * MM_PER_UNIT[unit] * dpi) / 25.4);
+
+export const fromPixels = (pixels: number, unit: Unit, dpi: number): number =>
+  unit === 'px' ? pixels : (pixels * 25.4) / (dpi * MM_PER_UNIT[unit]);
+
+export const fromMillimetres = (mm: number, unit: Unit, dpi: number): number =>
+  unit === 'px' ? Math.round((mm * dpi) / 25.4) : mm / MM_PER_UNIT[unit];
+
+export const formatLength = (value: number, unit: Unit): string => String(Number(value.toFixed(DECIMALS[unit])));
+
+// Portrait sizes in millimetres.
+export const PAPER_SIZES: { name: string; width: number; height: number }[] = [
+  { name: 'A3', width: 297, height: 420 },
+  { name: 'A4', width: 210, height: 297 },
+  { name: 'A5', width: 148, height: 210 },
+  { name: 'A6', width: 105, height: 148 },
+  { name: 'Letter', width: 215.9, height: 279.4 },
+  { name: 'Legal', width: 215.9, height: 355.6 },
+  { name: '10×15 cm', width: 100, height: 150 },
+  { name: '13×18 cm', width: 130, height: 180 },
+];
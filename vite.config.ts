@@ -2,17 +2,26 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // With PROXY_URL the key stays on the proxy server and is never put into the bundle.
+    const apiKey = env.PROXY_URL ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // A relative PROXY_URL (e.g. /api) is forwarded to the local proxy during development.
+        proxy: env.PROXY_URL?.startsWith('/') ? {
+          [env.PROXY_URL]: { target: env.PROXY_TARGET || 'http://localhost:8787', ws: true },
+        } : undefined,
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The SSR build is the proxy server, which reads its environment at runtime (server/env.ts).
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL)
       },
       resolve: {
         alias: {